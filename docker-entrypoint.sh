@@ -45,5 +45,8 @@ else
     fi
 fi
 
-# Start the MCP server
-exec node build/index.js
+# Start the MCP server (MCP_TRANSPORT=http serves many clients over HTTP instead of stdio)
+if [ "$MCP_TRANSPORT" = "http" ]; then
+    echo "Starting HTTP transport on ${MCP_HTTP_HOST:-0.0.0.0}:${MCP_HTTP_PORT:-3000}" >&2
+fi
+exec node build/index.js "$@"
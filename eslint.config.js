@@ -17,6 +17,11 @@ export default [
         console: 'readonly',
         process: 'readonly',
         Buffer: 'readonly',
+        AbortSignal: 'readonly',
+        AbortController: 'readonly',
+        // Global so jest.useFakeTimers can drive polling in tests; it does not replace node:timers
+        setInterval: 'readonly',
+        clearInterval: 'readonly',
         __dirname: 'readonly',
         require: 'readonly'
       }
@@ -46,6 +51,8 @@ export default [
         console: 'readonly',
         process: 'readonly',
         Buffer: 'readonly',
+        AbortSignal: 'readonly',
+        AbortController: 'readonly',
         __dirname: 'readonly',
         require: 'readonly',
         // Jest globals
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+const fetchMock = jest.fn<(url: string, init?: any) => Promise<any>>();
+jest.unstable_mockModule('node-fetch', () => ({ default: fetchMock, Response: class {} }));
+const { HttpClient } = await import('../../api/http/http-client.js');
+const { OAuthTokenProvider } = await import('../../api/http/access-token.js');
+
+const BASE = 'https://example.tpondemand.com/api/v1';
+const OAUTH = { tokenUrl: 'https://login.example.com/token', clientId: 'mcp', clientSecret: 'shh', refreshToken: 'r1' };
+
+function response(status: number, body: unknown = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: () => null },
+    json: async () => body
+  };
+}
+
+describe('OAuthTokenProvider', () => {
+  let now: number;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    now = 0;
+  });
+
+  it('shares one refresh between callers and renews shortly before expiry', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(200, { access_token: 'a1', expires_in: 3600, refresh_token: 'r2' }))
+      .mockResolvedValueOnce(response(200, { access_token: 'a2', expires_in: 3600 }));
+    const provider = new OAuthTokenProvider(OAUTH, () => now);
+
+    expect(await Promise.all([provider.getToken(), provider.getToken()])).toEqual(['a1', 'a1']);
+    now = 3000 * 1000;
+    expect(await provider.getToken()).toBe('a1');
+    now = 3550 * 1000;
+    expect(await provider.getToken()).toBe('a2');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][1].body).toBe('client_id=mcp&grant_type=refresh_token&refresh_token=r1&client_secret=shh');
+    // The rotated refresh token is used for the next renewal
+    expect(fetchMock.mock.calls[1][1].body).toContain('refresh_token=r2');
+  });
+
+  it('reports a rejected token request as an authentication error', async () => {
+    fetchMock.mockResolvedValueOnce(response(400, { error: 'invalid_grant', error_description: 'Refresh token expired' }));
+
+    await expect(new OAuthTokenProvider(OAUTH).getToken()).rejects.toMatchObject({
+      type: TPErrorType.AUTHENTICATION,
+      message: expect.stringContaining('OAuth token request failed: 400 - Refresh token expired')
+    });
+  });
+
+  it('gives up on a token request that does not answer in time', async () => {
+    fetchMock.mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(init.signal.reason));
+    }));
+    const provider = new OAuthTokenProvider({ ...OAUTH, timeoutMs: 20 });
+
+    await expect(provider.getToken()).rejects.toMatchObject({
+      type: TPErrorType.NETWORK,
+      message: expect.stringContaining('OAuth token request timed out after 20ms')
+    });
+
+    fetchMock.mockResolvedValueOnce(response(200, { access_token: 'a1', expires_in: 3600 }));
+    await expect(provider.getToken()).resolves.toBe('a1');
+  });
+});
+
+describe('HttpClient bearer authentication', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('sends access tokens in the Authorization header, never in the URL', async () => {
+    fetchMock.mockResolvedValueOnce(response(200, { Items: [] }));
+    const client = new HttpClient({ baseUrl: BASE }, { type: 'bearer', token: 'pat-secret' });
+
+    await client.get('Bugs?format=json');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE}/Bugs?format=json`);
+    expect(init.headers.Authorization).toBe('Bearer pat-secret');
+  });
+
+  it('renews a rejected OAuth token and resends the request once', async () => {
+    let token = 'expired';
+    const tokenProvider = {
+      getToken: jest.fn(async () => token),
+      invalidate: jest.fn(() => {
+        token = 'fresh';
+      })
+    };
+    fetchMock
+      .mockResolvedValueOnce(response(401, { Message: 'Token expired' }))
+      .mockResolvedValueOnce(response(200, { Id: 1 }));
+    const client = new HttpClient({ baseUrl: BASE }, { type: 'bearer', token: '', tokenProvider });
+
+    expect(await client.get('Bugs/1')).toEqual({ Id: 1 });
+    expect(tokenProvider.invalidate).toHaveBeenCalledWith('expired');
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { setTimeout } from 'node:timers/promises';
+import { HttpErrorHandler, TPError, parseRetryAfter } from '../../api/http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+const fetchMock = jest.fn<(url: string, init?: any) => Promise<any>>();
+jest.unstable_mockModule('node-fetch', () => ({ default: fetchMock, Response: class {} }));
+const { HttpClient } = await import('../../api/http/http-client.js');
+
+function response(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => body
+  };
+}
+
+describe('HttpErrorHandler', () => {
+  const handler = new HttpErrorHandler({ delayMs: 1000, backoffFactor: 2, maxDelayMs: 5000 });
+
+  it('classifies HTTP statuses', () => {
+    expect(handler.fromHttpError(404, 'missing')).toMatchObject({ type: TPErrorType.NOT_FOUND, isRetryable: false });
+    expect(handler.fromHttpError(403, 'denied')).toMatchObject({ type: TPErrorType.AUTHORIZATION, isRetryable: false });
+    expect(handler.fromHttpError(429, 'slow down')).toMatchObject({ type: TPErrorType.RATE_LIMIT, isRetryable: true });
+    expect(handler.fromHttpError(503, 'unavailable')).toMatchObject({ type: TPErrorType.NETWORK, isRetryable: true });
+    expect(handler.fromHttpError(501, 'not implemented')).toMatchObject({ type: TPErrorType.INTERNAL, isRetryable: false });
+  });
+
+  it('retries network failures but not programming errors', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    expect(handler.isRetryable(reset)).toBe(true);
+    expect(handler.isRetryable(new TypeError('x is undefined'))).toBe(false);
+  });
+
+  it('prefers Retry-After to backoff, up to the maximum delay', () => {
+    expect(handler.getRetryDelay(handler.fromHttpError(429, 'slow down', undefined, 2000), 1)).toBe(2000);
+    expect(handler.isRetryable(handler.fromHttpError(429, 'slow down', undefined, 60000))).toBe(false);
+
+    const delay = handler.getRetryDelay(handler.fromHttpError(503, 'unavailable'), 2);
+    expect(delay).toBeGreaterThanOrEqual(1000);
+    expect(delay).toBeLessThanOrEqual(2000);
+  });
+
+  it('parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('HttpClient retries', () => {
+  let client: InstanceType<typeof HttpClient>;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    client = new HttpClient(
+      { baseUrl: 'https://example.tpondemand.com/api/v1', retry: { maxRetries: 3, delayMs: 1, backoffFactor: 1, timeoutMs: 50 } },
+      { type: 'apikey', token: 'test' }
+    );
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(response(404, { Message: 'Bug 1 not found' }));
+
+    const error = await client.get('/Bugs/1').catch(e => e);
+
+    expect(error).toBeInstanceOf(TPError);
+    expect(error).toMatchObject({ type: TPErrorType.NOT_FOUND, status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries throttled requests after Retry-After', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(429, {}, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(response(200, { Id: 1 }));
+
+    await expect(client.get('/Bugs/1')).resolves.toEqual({ Id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts and retries attempts that exceed the timeout', async () => {
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+
+    const error = await client.get('/Bugs/1').catch(e => e);
+
+    expect(error.message).toMatch(/after 3 attempts: .*timed out after 50ms/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not resend writes that may have been applied', async () => {
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+    await expect(client.post('/Bugs', { Name: 'x' })).rejects.toThrow(/timed out after 50ms/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(response(502));
+    await expect(client.post('/Bugs', { Name: 'x' })).rejects.toMatchObject({ status: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries writes the server refused without applying them', async () => {
+    fetchMock
+      .mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))
+      .mockResolvedValueOnce(response(503, {}, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(response(200, { Id: 1 }));
+
+    await expect(client.post('/Bugs', { Name: 'x' })).resolves.toEqual({ Id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out downloads only while no bytes arrive', async () => {
+    fetchMock.mockImplementation(async () => ({
+      ...response(200),
+      body: (async function* () {
+        for (let i = 0; i < 4; i++) {
+          await setTimeout(30);
+          yield Buffer.from('ab');
+        }
+      })()
+    }));
+
+    const content = await client.downloadBinary('https://example.tpondemand.com/Attachment.aspx?AttachmentID=1');
+
+    expect(Buffer.from(content).toString()).toBe('abababab');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { setImmediate } from 'node:timers';
+import { RequestThrottle } from '../../api/http/request-throttle.js';
+import { trackRequestStats } from '../../api/http/request-stats.js';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestThrottle', () => {
+  let throttle: RequestThrottle;
+
+  afterEach(() => throttle.close());
+
+  it('limits requests in flight and reports queue depth', async () => {
+    throttle = new RequestThrottle({ requestsPerSecond: 0, maxConcurrent: 2 });
+
+    const first = await throttle.acquire();
+    await throttle.acquire();
+    let started = false;
+    const third = throttle.acquire().then(release => {
+      started = true;
+      return release;
+    });
+
+    await flush();
+    expect(started).toBe(false);
+    expect(throttle.getMetrics()).toMatchObject({ inFlight: 2, queued: 1 });
+
+    first();
+    (await third)();
+    expect(started).toBe(true);
+    expect(throttle.getMetrics()).toMatchObject({ inFlight: 1, queued: 0, maxQueued: 1, delayedRequests: 1 });
+  });
+
+  it('serves queued tool calls in turn', async () => {
+    throttle = new RequestThrottle({ requestsPerSecond: 0, maxConcurrent: 1 });
+    const order: string[] = [];
+    const blocker = await throttle.acquire();
+
+    const call = (name: string, requests: number) => trackRequestStats(() =>
+      Promise.all(Array.from({ length: requests }, () =>
+        throttle.acquire().then(release => {
+          order.push(name);
+          release();
+        })
+      ))
+    );
+
+    const calls = [call('a', 3), call('b', 2)];
+    await flush();
+    blocker();
+    await Promise.all(calls);
+
+    expect(order).toEqual(['a', 'b', 'a', 'b', 'a']);
+  });
+
+  it('delays requests once the burst is used up', async () => {
+    throttle = new RequestThrottle({ requestsPerSecond: 20, burst: 1, maxConcurrent: 0 });
+
+    const startedAt = Date.now();
+    (await throttle.acquire())();
+    (await throttle.acquire())();
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it('drops queued requests that are cancelled', async () => {
+    throttle = new RequestThrottle({ requestsPerSecond: 0, maxConcurrent: 1 });
+    await throttle.acquire();
+
+    const controller = new AbortController();
+    const queued = throttle.acquire(controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow(/cancel/i);
+    expect(throttle.getMetrics().queued).toBe(0);
+  });
+
+  it('reports metrics summed over the domains without naming them', async () => {
+    throttle = RequestThrottle.forDomain('a.tpondemand.com', { requestsPerSecond: 0, maxConcurrent: 1 });
+    const other = RequestThrottle.forDomain('b.tpondemand.com', { requestsPerSecond: 0, maxConcurrent: 1 });
+    const releases = [await throttle.acquire(), await other.acquire()];
+
+    const metrics = RequestThrottle.totalMetrics();
+    releases.forEach(release => release());
+    other.close();
+
+    expect(metrics).toEqual({ inFlight: 2, queued: 0, maxQueued: 0, delayedRequests: 0, averageWaitMs: 0 });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ResponseCache } from '../../api/http/response-cache.js';
+import { trackOperation } from '../../api/http/request-stats.js';
+
+const fetchMock = jest.fn<(url: string, init?: any) => Promise<any>>();
+jest.unstable_mockModule('node-fetch', () => ({ default: fetchMock, Response: class {} }));
+const { HttpClient } = await import('../../api/http/http-client.js');
+
+const BASE = 'https://example.tpondemand.com/api/v1';
+const AUTH = { type: 'apikey' as const, token: 'secret-key' };
+const config = { enabled: true, maxEntries: 10, defaultTtlMs: 60000, ttls: { Users: 0 } };
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => lower[name.toLowerCase()] ?? null },
+    json: async () => body
+  };
+}
+
+describe('HttpClient response cache', () => {
+  let client: InstanceType<typeof HttpClient>;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    client = new HttpClient(
+      { baseUrl: BASE, retry: { maxRetries: 1, delayMs: 1, backoffFactor: 1 }, cache: new ResponseCache(config, BASE, AUTH.token) },
+      AUTH
+    );
+  });
+
+  it('should serve repeated GETs from the cache and count the hits', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ Id: 1, Name: 'Story' }));
+
+    const result = await trackOperation(async () => {
+      const first = await client.get<any>('UserStorys/1?access_token=secret-key');
+      first.Name = 'changed by caller';
+      const second = await client.get<any>('UserStorys/1?access_token=secret-key');
+      return { content: [{ type: 'structured-data', data: second }] };
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.content[0].data).toEqual({ Id: 1, Name: 'Story' });
+    expect(result.metadata).toMatchObject({ apiCallsCount: 1, cacheHits: 1 });
+  });
+
+  it('should revalidate expired entries with the ETag', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ Id: 2 }, 200, { ETag: '"v1"' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(null, 304));
+
+    await client.get('Bugs/2');
+    now.mockReturnValue(1000000 + config.defaultTtlMs + 1);
+    const result = await trackOperation(async () => ({ content: [{ type: 'structured-data', data: await client.get('Bugs/2') }] }));
+    now.mockRestore();
+
+    expect(result.content[0].data).toEqual({ Id: 2 });
+    expect(result.metadata).toMatchObject({ apiCallsCount: 1, cacheHits: 1 });
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('should invalidate the entity and its collection lists after a write', async () => {
+    fetchMock.mockImplementation(async (url: string) => jsonResponse({ url }));
+
+    await client.get('Bugs/2');
+    await client.get('Bugs?where=x');
+    await client.get('Bugs/3');
+    await client.post('Bugs/2', { Name: 'New' });
+    fetchMock.mockClear();
+
+    await client.get('Bugs/2');
+    await client.get('Bugs?where=x');
+    await client.get('Bugs/3');
+
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([`${BASE}/Bugs/2`, `${BASE}/Bugs?where=x`]);
+  });
+
+  it('should invalidate lists and entities that include an entity written through another collection', async () => {
+    fetchMock.mockImplementation(async (url: string) => jsonResponse({ url }));
+    const reads = ['Assignables?where=x', 'Generals/7', 'UserStories/5', 'UserStories/5/Tasks', 'UserStories/6', 'Projects/1'];
+    const readAll = async () => {
+      fetchMock.mockClear();
+      for (const endpoint of reads) await client.get(endpoint);
+      return fetchMock.mock.calls.map(call => call[0].slice(BASE.length + 1));
+    };
+
+    await readAll();
+    await client.post('Bugs/7', { Name: 'New' });
+    expect(await readAll()).toEqual(['Assignables?where=x', 'Generals/7']);
+
+    await client.post('Tasks', { Name: 'Task', UserStory: { Id: 5 } });
+    expect(await readAll()).toEqual(['Assignables?where=x', 'UserStories/5', 'UserStories/5/Tasks']);
+
+    await client.post('Times', { Spent: 2, Assignable: { Id: 6 } });
+    expect(await readAll()).toEqual(['Assignables?where=x', 'UserStories/6']);
+  });
+
+  it('should ask the server again for fresh reads', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ Id: 4, ModifyDate: 'a' }));
+    fetchMock.mockResolvedValueOnce(jsonResponse({ Id: 4, ModifyDate: 'b' }));
+
+    await client.get('Bugs/4');
+    const fresh = await client.get<any>('Bugs/4', undefined, undefined, true);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fresh.ModifyDate).toBe('b');
+    expect(await client.get<any>('Bugs/4')).toEqual(fresh);
+  });
+
+  it('should not cache collections with a zero TTL', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ Id: 9 }));
+
+    await client.get('Users/LoggedUser');
+    await client.get('Users/LoggedUser');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ResponseCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'tp-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries to disk without the credential and keep users apart', async () => {
+    const headers = { get: () => null };
+    const cache = new ResponseCache({ ...config, directory }, BASE, 'token-a');
+    await cache.store(`${BASE}/Bugs/1?access_token=token-a`, { Id: 1 }, headers);
+
+    const restarted = new ResponseCache({ ...config, directory }, BASE, 'token-a');
+    expect((await restarted.lookup(`${BASE}/Bugs/1?access_token=token-a`))?.fresh).toBe(true);
+
+    const otherUser = new ResponseCache({ ...config, directory }, BASE, 'token-b');
+    expect(await otherUser.lookup(`${BASE}/Bugs/1?access_token=token-b`)).toBeUndefined();
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).not.toContain('token');
+  });
+
+  it('should invalidate what other sessions on the domain cached', async () => {
+    const headers = { get: () => null };
+    const base = 'https://shared.tpondemand.com/api/v1';
+    const writer = new ResponseCache(config, base, 'token-a', ResponseCache.storesFor(base, config));
+    const reader = new ResponseCache(config, base, 'token-b', ResponseCache.storesFor(base, config));
+    await reader.store(`${base}/Bugs/1`, { Id: 1 }, headers);
+    await reader.store(`${base}/Bugs/2`, { Id: 2 }, headers);
+
+    await writer.invalidate(`${base}/Bugs/1`, JSON.stringify({ Name: 'New' }));
+
+    expect(await reader.lookup(`${base}/Bugs/1`)).toBeUndefined();
+    expect(await reader.lookup(`${base}/Bugs/2`)).toBeDefined();
+    expect(await writer.lookup(`${base}/Bugs/2`)).toBeUndefined();
+  });
+
+  it('should remove only the invalidated files, including those left by an earlier run', async () => {
+    const headers = { get: () => null };
+    const earlier = new ResponseCache({ ...config, directory }, BASE, 'token-a');
+    await earlier.store(`${BASE}/Bugs/1`, { Id: 1 }, headers);
+    await earlier.store(`${BASE}/Features/5`, { Id: 5 }, headers);
+
+    const restarted = new ResponseCache({ ...config, directory }, BASE, 'token-a');
+    await restarted.store(`${BASE}/Bugs/2`, { Id: 2 }, headers);
+    await restarted.invalidate(`${BASE}/Bugs/9`, JSON.stringify({ Name: 'New' }));
+    expect(await readdir(directory)).toHaveLength(3);
+
+    await restarted.invalidate(`${BASE}/Bugs/1`, JSON.stringify({ Name: 'New' }));
+    expect(await readdir(directory)).toHaveLength(2);
+    expect((await new ResponseCache({ ...config, directory }, BASE, 'token-a').lookup(`${BASE}/Features/5`))?.fresh).toBe(true);
+  });
+});
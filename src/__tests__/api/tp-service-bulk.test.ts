@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPService } from '../../api/client/tp.service.js';
+import { TPError } from '../../api/http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+const rejected = (message: string) => new TPError(TPErrorType.VALIDATION, ErrorCode.InvalidParams, message, { status: 400 });
+
+describe('TPService bulk operations', () => {
+  let service: TPService;
+  let post: jest.Mock<(endpoint: string, data?: any) => Promise<any>>;
+
+  beforeEach(() => {
+    service = new TPService({ domain: 'example.tpondemand.com', apiKey: 'key' });
+    post = jest.fn();
+
+    const internals = service as any;
+    internals.httpClient.post = post;
+    internals.entityValidator.validateEntityTypeOrThrow = async (type: string) => type;
+  });
+
+  it('should validate rows up front and send the valid ones in one bulk request', async () => {
+    post.mockResolvedValue({ Items: [{ Id: 101, Name: 'A' }, { Id: 102, Name: 'C' }] });
+
+    const result = await service.bulkCreateEntities('Bug', [
+      { Name: 'A', Project: { Id: 1 } },
+      { Name: '', Project: { Id: 1 } },
+      { Name: 'C', Project: { Id: 1 } },
+      { Name: 'D' }
+    ]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toBe('Bugs/bulk');
+    expect(post.mock.calls[0][1]).toEqual([{ Name: 'A', Project: { Id: 1 } }, { Name: 'C', Project: { Id: 1 } }]);
+    expect(result.succeeded).toBe(2);
+    expect(result.results.map(r => [r.index, r.success, r.id ?? r.error])).toEqual([
+      [0, true, 101],
+      [1, false, 'Name is required'],
+      [2, true, 102],
+      [3, false, 'Project is required for Bug']
+    ]);
+  });
+
+  it('should retry a rejected batch item by item and report each outcome', async () => {
+    post.mockImplementation(async (endpoint: string, data?: any) => {
+      if (endpoint === 'Bugs/bulk') throw rejected('Entity state is invalid');
+      if (endpoint === 'Bugs/2') throw rejected('Entity state is invalid');
+      return { Id: Number(endpoint.split('/')[1]), ...data };
+    });
+
+    const result = await service.bulkUpdateEntities('Bug', [
+      { id: 1, data: { EntityState: { Id: 5 } } },
+      { id: 2, data: { EntityState: { Id: 99 } } },
+      { id: 0, data: { Name: 'x' } }
+    ]);
+
+    expect(post.mock.calls[0][1]).toEqual([{ Id: 1, EntityState: { Id: 5 } }, { Id: 2, EntityState: { Id: 99 } }]);
+    expect(result).toMatchObject({ succeeded: 1, failed: 2 });
+    expect(result.results[0]).toMatchObject({ index: 0, success: true, id: 1 });
+    expect(result.results[1]).toMatchObject({ index: 1, success: false, id: 2, error: 'Entity state is invalid' });
+    expect(result.results[2]).toMatchObject({ index: 2, success: false, error: 'Entity ID must be a positive integer' });
+  });
+
+  it('should not resend a batch that failed without a verdict', async () => {
+    post.mockRejectedValue(new TPError(TPErrorType.NETWORK, ErrorCode.RequestTimeout, 'Request timed out', { isRetryable: true }));
+
+    const result = await service.bulkCreateEntities('Bug', [{ Name: 'A', Project: { Id: 1 } }, { Name: 'B', Project: { Id: 1 } }]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ succeeded: 0, failed: 2 });
+    expect(result.results[1]).toMatchObject({ index: 1, success: false, errorCode: TPErrorType.NETWORK, outcomeUnknown: true });
+  });
+});
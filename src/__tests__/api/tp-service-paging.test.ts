@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { URLSearchParams } from 'node:url';
+import { TPService } from '../../api/client/tp.service.js';
+import { HttpErrorHandler } from '../../api/http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+const BASE = 'https://example.tpondemand.com/api/v1';
+
+function ids(from: number, count: number) {
+  return Array.from({ length: count }, (_, i) => ({ Id: from + i }));
+}
+
+describe('TPService paging', () => {
+  let service: TPService;
+  let get: jest.Mock<(endpoint: string) => Promise<any>>;
+  let getLink: jest.Mock<(link: string) => Promise<any>>;
+  let v2Get: jest.Mock<(endpoint: string) => Promise<any>>;
+
+  beforeEach(() => {
+    service = new TPService({ domain: 'example.tpondemand.com', apiKey: 'key', pagination: { maxResults: 250 } });
+    get = jest.fn();
+    getLink = jest.fn();
+    v2Get = jest.fn<(endpoint: string) => Promise<any>>().mockRejectedValue(new Error('API v2 unavailable'));
+
+    const internals = service as any;
+    internals.httpClient.get = get;
+    internals.httpClient.getLink = getLink;
+    internals.v2HttpClient.get = v2Get;
+    internals.entityValidator.validateEntityTypeOrThrow = async (type: string) => type;
+  });
+
+  it('should request a page with skip and report the next offset', async () => {
+    get.mockResolvedValue({ Items: ids(51, 50), Next: `${BASE}/Bugs?take=50&skip=100` });
+
+    const page = await service.searchEntitiesPage('Bug', { take: 50, skip: 50 });
+
+    expect(get.mock.calls[0][0]).toMatch(/^Bugs\?format=json&take=50&skip=50&access_token=key$/);
+    expect(page).toMatchObject({ skip: 50, take: 50, hasMore: true, nextSkip: 100 });
+    expect(page.items).toHaveLength(50);
+  });
+
+  it('should follow Next links until the requested number of items', async () => {
+    get.mockResolvedValue({ Items: ids(1, 100), Next: `${BASE}/Bugs?take=100&skip=100` });
+    getLink.mockResolvedValueOnce({ Items: ids(101, 100), Next: `${BASE}/Bugs?take=100&skip=200` });
+
+    const items = await service.searchEntities<{ Id: number }>('Bug', undefined, undefined, 150);
+
+    expect(items).toHaveLength(150);
+    expect(items[149].Id).toBe(150);
+    expect(getLink).toHaveBeenCalledTimes(1);
+    expect(getLink).toHaveBeenCalledWith(`${BASE}/Bugs?take=100&skip=100`, undefined, undefined);
+  });
+
+  it('should stop iterating at the configured ceiling', async () => {
+    get.mockResolvedValue({ Items: ids(1, 200), Next: `${BASE}/Bugs?skip=200` });
+    getLink.mockResolvedValue({ Items: ids(201, 200), Next: `${BASE}/Bugs?skip=400` });
+
+    const pages: number[] = [];
+    for await (const page of service.iterateEntities('Bug', { take: 200 }, { maxItems: 10000 })) {
+      pages.push(page.length);
+    }
+
+    expect(pages).toEqual([200, 50]);
+  });
+
+  it('should count matching items and flag counts cut off by the ceiling', async () => {
+    get.mockResolvedValueOnce({ Items: ids(1, 40) });
+    expect(await service.countEntities('Bug', "EntityState.Name eq 'Open'")).toEqual({ total: 40, exact: true });
+    expect(get.mock.calls[0][0]).toContain('include=%5BId%5D');
+
+    get.mockResolvedValueOnce({ Items: ids(1, 250), Next: `${BASE}/Bugs?skip=250` });
+    expect(await service.countEntities('Bug')).toEqual({ total: 250, exact: false });
+  });
+
+  it('should aggregate across pages fetching only the needed fields', async () => {
+    get.mockResolvedValue({ Items: [{ Id: 1, TimeSpent: 2, Project: { Id: 9, Name: 'Web' } }], Next: `${BASE}/Tasks?skip=1` });
+    getLink.mockResolvedValueOnce({ Items: [{ Id: 2, TimeSpent: 3, Project: { Id: 9, Name: 'Web' } }] });
+
+    const aggregate = await service.aggregateEntities('Task', { groupBy: 'project', sum: ['TimeSpent'] });
+
+    expect(decodeURIComponent(get.mock.calls[0][0])).toContain('include=[Id,TimeSpent,Project]');
+    expect(aggregate).toEqual({
+      count: 2,
+      sums: { TimeSpent: 5 },
+      groups: [{ id: 9, name: 'Web', count: 2, sums: { TimeSpent: 5 } }],
+      exact: true
+    });
+  });
+
+  it('should count and sum through API v2 in a single request', async () => {
+    v2Get.mockResolvedValueOnce({ count: 1200, effort: 35.5 });
+
+    const aggregate = await service.aggregateEntities('Bug', { where: 'EntityState.IsFinal eq false', sum: ['Effort'] });
+
+    const [endpoint, query] = v2Get.mock.calls[0][0].split('?');
+    expect(endpoint).toBe('Bug');
+    expect(new URLSearchParams(query).get('where')).toBe('entityState.isFinal==false');
+    expect(new URLSearchParams(query).get('result')).toBe('{count:count(),effort:sum(effort)}');
+    expect(get).not.toHaveBeenCalled();
+    expect(aggregate).toEqual({ count: 1200, sums: { Effort: 35.5 }, exact: true });
+  });
+
+  it('should break down by project with a v2 query on the projects', async () => {
+    v2Get
+      .mockResolvedValueOnce({ count: 5, timeSpent: 10 })
+      .mockResolvedValueOnce({ items: [{ id: 9, name: 'Web', count: 3, timeSpent: 6 }] });
+
+    const aggregate = await service.aggregateEntities('Task', { where: 'Effort gt 1', groupBy: 'project', sum: ['TimeSpent'] });
+
+    const [endpoint, query] = v2Get.mock.calls[1][0].split('?');
+    expect(endpoint).toBe('Project');
+    expect(new URLSearchParams(query).get('select')).toBe(
+      '{id,name,count:tasks.where(effort>1).count(),timeSpent:tasks.where(effort>1).sum(timeSpent)}'
+    );
+    expect(new URLSearchParams(query).get('where')).toBe('tasks.where(effort>1).count()>0');
+    expect(aggregate.groups).toEqual([
+      { id: 9, name: 'Web', count: 3, sums: { TimeSpent: 6 } },
+      { id: null, name: 'No project', count: 2, sums: { TimeSpent: 4 } }
+    ]);
+  });
+
+  it('should page through the items when v2 cannot express the clause', async () => {
+    get.mockResolvedValueOnce({ Items: ids(1, 3) });
+
+    expect(await service.countEntities('Bug', 'CreateDate gt Today.AddDays(-7)')).toEqual({ total: 3, exact: true });
+    expect(v2Get).not.toHaveBeenCalled();
+  });
+
+  it('should suggest valid fields when a query names an unknown one', async () => {
+    const handler = new HttpErrorHandler({ delayMs: 1, backoffFactor: 1 });
+    get
+      .mockRejectedValueOnce(handler.fromHttpError(
+        400,
+        "GET Bugs failed: 400 - Property 'Proj' does not exist in type 'Bug'",
+        { operation: 'GET', timestamp: new Date() }
+      ))
+      .mockResolvedValueOnce({
+        ResourceMetadataPropertiesDescription: {
+          ResourceMetadataPropertiesResourceValuesDescription: { Items: [{ Name: 'Id' }, { Name: 'Name' }] },
+          ResourceMetadataPropertiesResourceReferencesDescription: { Items: [{ Name: 'Project' }] }
+        }
+      });
+
+    const error = await service.searchEntitiesPage('Bug', { where: "Proj.Name eq 'Web'" }).catch(e => e);
+
+    expect(error.type).toBe(TPErrorType.INVALID_QUERY);
+    expect(get.mock.calls[1][0]).toMatch(/^Bugs\/meta\?format=json/);
+    expect(error.suggestions.slice(0, 2)).toEqual([
+      'Unknown field Proj.Name at position 1; did you mean Project?',
+      'Valid fields for Bug: Id, Name, Project'
+    ]);
+  });
+
+  it('should compile structured filters and reject unknown fields before querying', async () => {
+    get.mockResolvedValueOnce({
+      ResourceMetadataPropertiesDescription: {
+        ResourceMetadataPropertiesResourceValuesDescription: { Items: [{ Name: 'Id' }, { Name: 'Name' }] },
+        ResourceMetadataPropertiesResourceReferencesDescription: { Items: [{ Name: 'EntityState' }] }
+      }
+    });
+    get.mockResolvedValue({ Items: ids(1, 1) });
+
+    await service.searchEntitiesPage('Bug', {
+      where: 'Id gt 10',
+      filter: { or: [{ field: 'Name', op: 'contains', value: "O'Brien" }, { field: 'EntityState.Name', op: 'in', value: ['Open', 'New'] }] }
+    });
+    const error = await service.searchEntitiesPage('Bug', { filter: { field: 'Stat.Name', op: 'eq', value: 'Open' } }).catch(e => e);
+
+    expect(new URLSearchParams(get.mock.calls[1][0].split('?')[1]).get('where')).toBe(
+      "Id gt 10 and (Name contains 'O''Brien' or EntityState.Name in ('Open','New'))"
+    );
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(error.type).toBe(TPErrorType.INVALID_QUERY);
+    expect(error.message).toContain('Filter refers to fields Bug does not have: Stat.Name');
+  });
+});
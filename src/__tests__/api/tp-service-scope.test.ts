@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { URLSearchParams } from 'node:url';
+import { TPService } from '../../api/client/tp.service.js';
+import { EntityScope } from '../../api/client/entity-scope.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+describe('TPService scope', () => {
+  const FIELDS: Record<string, string[]> = {
+    GeneralUser: ['Id', 'Login'],
+    Comment: ['Id', 'Description', 'General'],
+    Task: ['Id', 'Name', 'Project', 'UserStory'],
+    Feature: ['Id', 'Name', 'Project'],
+    EntityState: ['Id', 'Name', 'Process']
+  };
+  const TYPES = ['GeneralUser', 'Comment', 'Task', 'Bug', 'UserStory', 'Feature', 'Project', 'Team', 'EntityState'];
+  let service: TPService;
+  let get: jest.Mock<(endpoint: string) => Promise<any>>;
+  let post: jest.Mock<(endpoint: string, data: unknown) => Promise<any>>;
+
+  const where = (call: number) => new URLSearchParams(get.mock.calls[call][0].split('?')[1]).get('where');
+
+  beforeEach(() => {
+    service = new TPService({ domain: 'example.tpondemand.com', apiKey: 'key', scope: { projectIds: [1, 2] } });
+    get = jest.fn();
+    post = jest.fn();
+
+    const internals = service as any;
+    internals.httpClient.get = get;
+    internals.httpClient.post = post;
+    internals.v2HttpClient.get = get;
+    internals.entityValidator.validateEntityTypeOrThrow = async (type: string) => type;
+    internals.entityValidator.validateEntityType = async (type: string) => ({ isValid: TYPES.includes(type) });
+    internals.getEntityFields = async (type: string) => FIELDS[type] ?? ['Id', 'Name', 'Project', 'Team'];
+  });
+
+  const limitTo = (scope: { projectIds?: number[]; teamIds?: number[] }) => {
+    const internals = service as any;
+    internals.scope = new EntityScope(scope);
+  };
+
+  it('ANDs the scope into every where clause, however it is written', async () => {
+    get.mockResolvedValue({ Items: [] });
+
+    await service.searchEntities('Bug', "Name eq 'x' or Id gt 0");
+    await service.searchEntities('Project');
+    await service.searchEntities('GeneralUser');
+    await service.searchEntitiesV2('Bug', { where: 'id>0) or (id>0' }).catch(() => undefined);
+    await service.searchEntitiesV2('Bug', { where: 'id>0' });
+
+    expect(where(0)).toBe("(Name eq 'x' or Id gt 0) and Project.Id in (1,2)");
+    expect(where(1)).toBe('Id in (1,2)');
+    expect(where(2)).toBeNull();
+    expect(get).toHaveBeenCalledTimes(4);
+    expect(where(3)).toBe('(id>0) and (Project.Id in [1,2])');
+  });
+
+  it('reports entities outside the scope as not found', async () => {
+    get.mockResolvedValueOnce({ Items: [] });
+
+    await expect(service.getEntity('Bug', 7)).rejects.toMatchObject({
+      type: TPErrorType.NOT_FOUND,
+      message: expect.stringContaining('Bug 7 was not found in the projects and teams this server is limited to')
+    });
+    expect(where(0)).toBe('Id in (7) and Project.Id in (1,2)');
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses updates of entities outside the scope and moves out of it', async () => {
+    get.mockResolvedValueOnce({ Items: [] });
+    await expect(service.updateEntity('Bug', 7, { Name: 'x' })).rejects.toMatchObject({ type: TPErrorType.NOT_FOUND });
+
+    get.mockResolvedValueOnce({ Items: [{ Id: 7 }] });
+    await expect(service.updateEntity('Bug', 7, { Project: { Id: 3 } } as any))
+      .rejects.toThrow('Bug must belong to one of the projects this server is limited to: 1, 2');
+
+    await expect(service.createEntity('Bug', { Name: 'x' })).rejects.toMatchObject({ type: TPErrorType.AUTHORIZATION });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('limits comments by the project of the entity they belong to', async () => {
+    get.mockResolvedValue({ Items: [] });
+
+    await service.searchEntities('Comment', "Description contains 'salary'");
+    await expect(service.getEntity('Comment', 9)).rejects.toMatchObject({ type: TPErrorType.NOT_FOUND });
+
+    expect(where(0)).toBe("Description contains 'salary' and General.Project.Id in (1,2)");
+    expect(where(1)).toBe('Id in (9) and General.Project.Id in (1,2)');
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('limits tasks by the team of their user story and refuses comments under a team scope', async () => {
+    limitTo({ teamIds: [5] });
+    get.mockResolvedValue({ Items: [] });
+
+    await service.searchEntities('Task');
+    expect(where(0)).toBe('UserStory.Team.Id in (5)');
+
+    await expect(service.searchEntities('Comment')).rejects.toMatchObject({
+      type: TPErrorType.AUTHORIZATION,
+      message: expect.stringContaining('Comment cannot be read or changed while this server is limited to teams 5')
+    });
+    await expect(service.getEntity('Comment', 9)).rejects.toMatchObject({ type: TPErrorType.AUTHORIZATION });
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses includes that reach limited entities from unlimited ones', async () => {
+    get.mockResolvedValue({ Items: [{ Id: 1 }] });
+
+    await expect(service.getEntity('GeneralUser', 1, ['Login', 'Assignables'])).rejects.toMatchObject({
+      type: TPErrorType.AUTHORIZATION,
+      message: expect.stringContaining('Assignables cannot be read through GeneralUser while this server is limited to projects 1, 2')
+    });
+    await expect(service.searchEntities('EntityState', undefined, ['Process', 'Owner.Bugs'])).rejects.toMatchObject({
+      type: TPErrorType.AUTHORIZATION
+    });
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await service.getEntity('Bug', 1, ['Project', 'Tasks', 'EntityState.Process', 'AssignedUser']);
+    expect(get.mock.calls[2][0]).toContain('include=');
+
+    limitTo({ teamIds: [5] });
+    await expect(service.searchEntities('UserStory', undefined, ['Feature.UserStories'])).rejects.toThrow(
+      'UserStories cannot be read through Feature while this server is limited to teams 5'
+    );
+  });
+
+  it('refuses v2 projections and filters that reach limited entities from unlimited ones', async () => {
+    get.mockResolvedValue({ items: [] });
+
+    await expect(service.searchEntitiesV2('GeneralUser', { select: '{id,assignables.select({id,name,project})}' }))
+      .rejects.toMatchObject({ type: TPErrorType.AUTHORIZATION, message: expect.stringContaining('assignables cannot be read through GeneralUser') });
+    await expect(service.searchEntitiesV2('Project', { select: '{id,owner.assignables.count}' })).rejects.toThrow(/assignables/);
+    await expect(service.searchEntitiesV2('GeneralUser', { select: '{id}', where: 'bugs.count>0' })).rejects.toThrow(/bugs/);
+    expect(get).not.toHaveBeenCalled();
+
+    await service.searchEntitiesV2('Bug', { select: "{id,name:name,project.name,tasks.where(name=='x').count,owner.login}" });
+    await service.searchEntitiesV2('Project', { select: '{id,userStories.select({id,tasks.count})}' });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
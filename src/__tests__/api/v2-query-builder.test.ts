@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { SelectBuilder } from '../../api/query/select-builder.js';
+import { V2QueryBuilder } from '../../api/query/v2-query-builder.js';
+import { TPService } from '../../api/client/tp.service.js';
+
+describe('SelectBuilder', () => {
+  it('should build fields, counts and filtered aggregates', () => {
+    const select = new SelectBuilder()
+      .fields('id', 'name')
+      .field('entityState.name', 'state')
+      .count('bugs')
+      .count('tasks', { where: 'entityState.isFinal==false' })
+      .aggregate('sum', 'tasks', 'effort', { alias: 'taskEffort' })
+      .build();
+
+    expect(select).toBe('{id,name,state:entityState.name,bugs.count,tasks.where(entityState.isFinal==false).count,taskEffort:tasks.sum(effort)}');
+  });
+
+  it('should build nested collection projections', () => {
+    const select = new SelectBuilder()
+      .field('id')
+      .collection('userStories', s => s.fields('id', 'name'), { where: "entityState.name=='Open'", alias: 'openStories' })
+      .build();
+
+    expect(select).toBe("{id,openStories:userStories.where(entityState.name=='Open').select({id,name})}");
+  });
+
+  it('should reject invalid fields and unbalanced filters', () => {
+    expect(() => new SelectBuilder().field('name}&take=1000')).toThrow('Invalid select field');
+    expect(() => new SelectBuilder().count('tasks', { where: 'effort>0)' })).toThrow("Unbalanced ')'");
+    expect(() => new SelectBuilder().aggregate('sum', 'tasks')).toThrow('requires a field');
+    expect(() => new SelectBuilder().build()).toThrow('at least one field');
+  });
+});
+
+describe('V2QueryBuilder', () => {
+  it('should build the query string with select, where and paging', () => {
+    const query = new V2QueryBuilder({ type: 'apikey', token: 'key' })
+      .select(new SelectBuilder().fields('id', 'name').count('bugs'))
+      .where('entityState.isFinal==false')
+      .orderBy(['createDate desc'])
+      .take(50)
+      .skip(50)
+      .buildParams();
+
+    expect(Object.fromEntries(query)).toEqual({
+      select: '{id,name,bugs.count}',
+      where: 'entityState.isFinal==false',
+      orderBy: 'createDate desc',
+      take: '50',
+      skip: '50',
+      access_token: 'key'
+    });
+  });
+
+  it('should wrap bare select strings in braces', () => {
+    const params = new V2QueryBuilder({ type: 'basic', token: 'x' }).select('id, name').buildParams();
+    expect(params.get('select')).toBe('{id, name}');
+    expect(params.has('access_token')).toBe(false);
+  });
+});
+
+describe('TPService.searchEntitiesV2', () => {
+  it('should query /api/v2 by type and page with the next link', async () => {
+    const service = new TPService({ domain: 'example.tpondemand.com', apiKey: 'key' });
+    const internals = service as any;
+    const calls: string[] = [];
+    internals.entityValidator.validateEntityTypeOrThrow = async (type: string) => type;
+    internals.v2HttpClient.get = async (endpoint: string) => {
+      calls.push(endpoint);
+      return { items: [{ id: 1, bugsCount: 2 }], next: 'https://example.tpondemand.com/api/v2/Feature?skip=1' };
+    };
+
+    const page = await service.searchEntitiesV2('Feature', { select: '{id,bugsCount:bugs.count}', take: 1 });
+
+    expect(internals.v2HttpClient.getBaseUrl()).toBe('https://example.tpondemand.com/api/v2');
+    expect(calls[0]).toBe('Feature?select=%7Bid%2CbugsCount%3Abugs.count%7D&take=1&access_token=key');
+    expect(page).toEqual({ items: [{ id: 1, bugsCount: 2 }], skip: 0, take: 1, hasMore: true, nextSkip: 1 });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { WhereClauseError, normalizeWhere, parseWhere, serializeWhere, toV2Where } from '../../api/query/where-parser.js';
+import { compileFilter } from '../../api/query/where-filter.js';
+import { findUnknownFields } from '../../api/query/where-validator.js';
+import { validateWhereClause } from '../../api/query/query-builder.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+describe('normalizeWhere', () => {
+  it('should normalize operators, quotes and null comparisons', () => {
+    expect(normalizeWhere('Name == "Login page" && AssignedUser eq null')).toBe(
+      "Name eq 'Login page' and AssignedUser is null"
+    );
+    expect(normalizeWhere("Name contains 'O''Brien'")).toBe("Name contains 'O''Brien'");
+  });
+
+  it('should keep the grouping of or conditions', () => {
+    expect(normalizeWhere("(EntityState.Name eq 'Open' or Priority.Importance lte 2) and Project.Id in [1, 2]")).toBe(
+      "(EntityState.Name eq 'Open' or Priority.Importance lte 2) and Project.Id in (1,2)"
+    );
+  });
+
+  it('should accept macros, dates and booleans', () => {
+    expect(normalizeWhere('CreateDate gte @Today and EndDate lt 2024-01-31 and IsActive eq true')).toBe(
+      "CreateDate gte @Today and EndDate lt '2024-01-31' and IsActive eq true"
+    );
+  });
+
+  it('should pass date functions through unquoted', () => {
+    expect(normalizeWhere('CreateDate gt Today.AddDays(-7) and EndDate lte ThisWeek.EndDate')).toBe(
+      'CreateDate gt Today.AddDays(-7) and EndDate lte ThisWeek.EndDate'
+    );
+    expect(normalizeWhere('ModifyDate gte Today')).toBe('ModifyDate gte Today');
+  });
+
+});
+
+describe('parseWhere', () => {
+  it('should report where the clause went wrong', () => {
+    const error = (() => {
+      try {
+        return parseWhere("EntityState.Name eq 'Open' and (Priority eq 1");
+      } catch (e) {
+        return e;
+      }
+    })() as WhereClauseError;
+
+    expect(error).toBeInstanceOf(WhereClauseError);
+    expect(error.position).toBe(45);
+    expect(error.message).toBe('expected ) to close the group opened at position 32, found the end of the clause');
+  });
+
+  it('should suggest quoting unquoted text', () => {
+    expect(() => validateWhereClause('Name eq Test')).toThrow('Invalid where clause at position 9: unquoted text Test');
+    expect(() => validateWhereClause('Name eq Open Priority.Name eq High')).toThrow('at position 9: unquoted text Open');
+    try {
+      validateWhereClause('Name eq Test');
+    } catch (error: any) {
+      expect(error.type).toBe(TPErrorType.INVALID_QUERY);
+      expect(error.suggestions[0]).toBe("Quote text values: eq 'Test'.");
+    }
+  });
+
+  it('should show how to write the days of a date function', () => {
+    expect(() => validateWhereClause('CreateDate gt Today.AddDays')).toThrow(
+      'Invalid where clause at position 28: expected a number in parentheses after Today.AddDays'
+    );
+    try {
+      validateWhereClause('CreateDate gt Today.AddDays');
+    } catch (error: any) {
+      expect(error.type).toBe(TPErrorType.INVALID_QUERY);
+      expect(error.suggestions[0]).toBe('e.g. Today.AddDays(-7)');
+    }
+  });
+});
+
+describe('toV2Where', () => {
+  it('should write clauses as API v2 expressions', () => {
+    expect(toV2Where(parseWhere("EntityState.IsFinal eq false and (Name contains 'login' or Project.Id in (1, 2))"))).toBe(
+      "(entityState.isFinal==false) and ((name.contains('login')) or (project.id in [1,2]))"
+    );
+    expect(toV2Where(parseWhere('Effort gte 3 and AssignedUser is not null'))).toBe('(effort>=3) and (assignedUser!=null)');
+  });
+
+  it('should give up on what v2 cannot express the same way', () => {
+    expect(toV2Where(parseWhere('CreateDate gt Today.AddDays(-7)'))).toBeUndefined();
+    expect(toV2Where(parseWhere("Name eq 'x' or Owner.Id eq @User"))).toBeUndefined();
+    expect(toV2Where(parseWhere("CustomField.Risk eq 'High'"))).toBeUndefined();
+    expect(toV2Where(parseWhere("Name not contains 'x'"))).toBeUndefined();
+  });
+});
+
+describe('findUnknownFields', () => {
+  it('should report unknown fields with their position and likely candidates', () => {
+    const node = parseWhere("Proj.Name eq 'Web' and EntityState.Name eq 'Open' and cf_Severity eq 'High' and Efort gt 1");
+
+    expect(findUnknownFields(node, ['Id', 'Name', 'Project', 'EntityState', 'Effort', 'EffortCompleted'])).toEqual([
+      { field: 'Proj.Name', position: 0, candidates: ['Project'] },
+      { field: 'Efort', position: 80, candidates: ['Effort'] }
+    ]);
+  });
+});
+
+describe('compileFilter', () => {
+  it('should compile nested conditions with null checks and macros', () => {
+    const node = compileFilter({
+      and: [
+        { field: 'AssignedUser', op: 'eq', value: null },
+        { field: 'CreateDate', op: 'gte', value: '@Today' },
+        { or: [{ field: 'Name', op: 'notContains', value: 'draft' }, { field: 'Effort', op: 'isNotNull' }] }
+      ]
+    });
+
+    expect(serializeWhere(node)).toBe(
+      "AssignedUser is null and CreateDate gte @Today and (Name not contains 'draft' or Effort is not null)"
+    );
+  });
+
+  it('should reject field names that are not plain paths', () => {
+    expect(() => compileFilter({ and: [{ field: "Name eq 'x' or Id", op: 'gt', value: 0 }] })).toThrow(
+      'Invalid filter at filter.and[0]: "Name eq \'x\' or Id" is not a field name'
+    );
+    expect(() => compileFilter({ field: 'Id', op: 'in', value: [] })).toThrow('in needs a non-empty list of values');
+  });
+});
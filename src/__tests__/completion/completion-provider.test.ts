@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CompletionProvider, rankCompletions } from '../../completion/completion-provider.js';
+import { TPContextInfo } from '../../context/context-builder.js';
+import { createMockTPService } from '../mocks/tp-service.mock-utils.js';
+
+const context: TPContextInfo = {
+  projects: [
+    { id: 101, name: 'Mobile App', abbreviation: 'MOB', entityState: 'Running' },
+    { id: 102, name: 'Data Platform', abbreviation: 'DATA', entityState: 'Running' }
+  ],
+  entityTypes: ['UserStory', 'Bug'],
+  programs: [],
+  entityStates: [
+    { id: 1, name: 'Open', entityType: 'UserStory' },
+    { id: 2, name: 'In Progress', entityType: 'UserStory' },
+    { id: 3, name: 'Fixed', entityType: 'Bug' }
+  ],
+  users: [
+    { id: 7, fullName: 'Jane Smith', login: 'jsmith' },
+    { id: 8, fullName: 'John Doe', login: 'jdoe' }
+  ]
+};
+
+describe('rankCompletions', () => {
+  it('should rank prefix matches before word and subsequence matches', () => {
+    const values = ['TestPlan', 'UserStory', 'Story', 'TestStep'].map(value => ({ value }));
+
+    expect(rankCompletions(values, 'st')).toEqual(['Story', 'TestStep', 'UserStory', 'TestPlan']);
+  });
+
+  it('should match subsequences and drop non-matches', () => {
+    const values = ['UserStory', 'Bug'].map(value => ({ value }));
+
+    expect(rankCompletions(values, 'usst')).toEqual(['UserStory']);
+  });
+
+  it('should match on labels', () => {
+    expect(rankCompletions([{ value: '101', label: 'Mobile App' }], 'mob')).toEqual(['101']);
+  });
+});
+
+describe('CompletionProvider', () => {
+  let provider: CompletionProvider;
+  let mockService: ReturnType<typeof createMockTPService>;
+  const prompt = { type: 'ref/prompt' as const, name: 'developer-daily-start' };
+
+  beforeEach(() => {
+    mockService = createMockTPService();
+    mockService.getCachedEntityTypes.mockResolvedValue(['UserStory', 'Bug', 'Task', 'TestCase']);
+    provider = new CompletionProvider(mockService, () => context);
+  });
+
+  it('should complete entity types from the validator cache', async () => {
+    const result = await provider.complete(prompt, 'entityType', 'te');
+
+    expect(result.values).toEqual(['TestCase']);
+    expect(result.hasMore).toBe(false);
+  });
+
+  it('should complete the type segment of resource templates only', async () => {
+    const resource = { type: 'ref/resource' as const, uri: 'targetprocess://{type}/{id}' };
+
+    expect((await provider.complete(resource, 'type', 'bu')).values).toEqual(['Bug']);
+    expect((await provider.complete(resource, 'id', '1')).values).toEqual([]);
+  });
+
+  it('should complete project ids by name and project names', async () => {
+    expect((await provider.complete(prompt, 'projectId', 'data')).values).toEqual(['102']);
+    expect((await provider.complete(prompt, 'projectFilter', 'mo')).values).toEqual(['Mobile App']);
+  });
+
+  it('should narrow states to the entity type being completed', async () => {
+    const result = await provider.complete(prompt, 'state', '', { entityType: 'Bug' });
+
+    expect(result.values).toEqual(['Fixed']);
+  });
+
+  it('should complete users by login and by full name for ids', async () => {
+    expect((await provider.complete(prompt, 'assignedUser', 'jd')).values).toEqual(['jdoe']);
+    expect((await provider.complete(prompt, 'userId', 'smith')).values).toEqual(['7']);
+  });
+
+  it('should return nothing for unknown arguments', async () => {
+    expect(await provider.complete(prompt, 'spent', '1')).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
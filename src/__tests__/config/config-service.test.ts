@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigService } from '../../config/config-service.js';
+import { EnvConfigLoader } from '../../config/env-config-loader.js';
+import { FileConfigLoader } from '../../config/file-config-loader.js';
+
+describe('ConfigService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tp-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const load = async (env: Record<string, string>, file?: object) => {
+    if (file) {
+      writeFileSync(join(dir, 'targetprocess.json'), JSON.stringify(file));
+    }
+    const fullEnv = { HOME: dir, ...env };
+    const service = new ConfigService(new EnvConfigLoader(fullEnv), new FileConfigLoader(fullEnv, dir));
+    await service.reload();
+    return service;
+  };
+
+  it('fills in defaults for settings the environment leaves out', async () => {
+    const config = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_USERNAME: 'jane', TP_PASSWORD: 'secret' });
+
+    expect(config.getServiceConfig()).toEqual({
+      domain: 'company.tpondemand.com',
+      credentials: { username: 'jane', password: 'secret' },
+      retry: undefined,
+      pagination: { maxResults: 5000 },
+      cache: { enabled: true, maxEntries: 500, defaultTtlMs: 30000, ttls: {}, directory: undefined },
+      throttle: { requestsPerSecond: 10, burst: 20, maxConcurrent: 6 }
+    });
+    expect(config.getUserConfig()).toEqual({ role: 'default' });
+    expect(config.isFeatureEnabled('requireSessionAuth')).toBe(false);
+  });
+
+  it('lets environment variables override the file key by key', async () => {
+    const config = await load(
+      { TP_API_KEY: 'env-key', TP_USER_ROLE: 'tester', TP_CACHE_TTLS: 'EntityStates=600000,Users=0' },
+      {
+        connection: { domain: 'file.tpondemand.com', retryAttempts: 5 },
+        auth: { type: 'basic', credentials: { username: 'file', password: 'file' } },
+        user: { role: 'developer', id: 7 },
+        features: { requireSessionAuth: false, experimental: true }
+      }
+    );
+
+    expect(config.getAuthConfig()).toEqual({ type: 'apikey', apiKey: 'env-key' });
+    expect(config.getConnectionConfig().domain).toBe('file.tpondemand.com');
+    expect(config.getServiceBaseConfig().retry).toEqual({ maxRetries: 5, delayMs: 1000, backoffFactor: 2, timeoutMs: undefined });
+    expect(config.getUserConfig()).toEqual({ role: 'tester', id: 7 });
+    expect(config.getCacheConfig().ttls).toEqual({ EntityStates: 600000, Users: 0 });
+    expect(config.isFeatureEnabled('experimental')).toBe(true);
+  });
+
+  it('reads the flat TPServiceConfig file format', async () => {
+    const config = await load({}, {
+      domain: 'company.tpondemand.com',
+      apiKey: 'file-key',
+      pagination: { maxResults: 100 },
+      cache: { enabled: false, maxEntries: 10, defaultTtlMs: 0 }
+    });
+
+    expect(config.getServiceConfig()).toMatchObject({
+      domain: 'company.tpondemand.com',
+      apiKey: 'file-key',
+      pagination: { maxResults: 100 },
+      cache: { enabled: false, maxEntries: 10, defaultTtlMs: 0 }
+    });
+  });
+
+  it('names the environment variable of an invalid value', async () => {
+    await expect(load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', TP_CACHE_TTL_MS: 'soon', TP_USER_ID: '-3' }))
+      .rejects.toThrow(/TP_CACHE_TTL_MS: .*expected number[\s\S]*TP_USER_ID: /);
+  });
+
+  it('names the file key of an invalid or unknown setting', async () => {
+    const error = await load({ TP_API_KEY: 'key' }, {
+      connection: { domain: 'https://company.tpondemand.com' },
+      cahce: { ttl: 1000 }
+    }).catch(e => e);
+
+    const file = join(dir, 'targetprocess.json');
+    expect(error.issues).toEqual(expect.arrayContaining([
+      { key: `${file}: connection.domain`, message: 'Use the host name only, e.g. company.tpondemand.com' },
+      { key: `${file}: cahce`, message: 'Unknown setting' }
+    ]));
+  });
+
+  it('reports the missing variable of a half-configured OAuth client', async () => {
+    const error = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_OAUTH_TOKEN_URL: 'https://id.example.com/token' })
+      .catch(e => e);
+
+    expect(error.issues).toEqual([{ key: 'TP_OAUTH_CLIENT_ID', message: expect.any(String) }]);
+  });
+
+  it('requires credentials unless sessions bring their own', async () => {
+    await expect(load({ TP_DOMAIN: 'company.tpondemand.com' })).rejects.toThrow(/auth: No TargetProcess credentials configured\. Set TP_ACCESS_TOKEN/);
+
+    const config = await load({ TP_DOMAIN: 'company.tpondemand.com', MCP_REQUIRE_SESSION_AUTH: 'true' });
+    expect(config.hasAuthConfig()).toBe(false);
+    expect(config.isFeatureEnabled('requireSessionAuth')).toBe(true);
+  });
+
+  it('builds a service configuration per named instance', async () => {
+    const config = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'prod-key' }, {
+      primaryInstance: 'production',
+      instances: {
+        sandbox: { connection: { domain: 'company-sandbox.tpondemand.com' }, auth: { type: 'bearer', accessToken: 'sandbox-token' } }
+      },
+      search: { maxResults: 100 }
+    });
+
+    expect(config.getInstanceNames()).toEqual(['production', 'sandbox']);
+    expect(config.getInstanceServiceConfig('production')).toMatchObject({ domain: 'company.tpondemand.com', apiKey: 'prod-key' });
+    expect(config.getInstanceServiceConfig('sandbox')).toMatchObject({
+      domain: 'company-sandbox.tpondemand.com',
+      accessToken: 'sandbox-token',
+      pagination: { maxResults: 100 }
+    });
+    expect(() => config.getInstanceServiceConfig('partner')).toThrow('Unknown instance: partner. Configured instances: production, sandbox');
+  });
+
+  it('limits every instance to the scope unless it sets its own', async () => {
+    const config = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', TP_SCOPE_PROJECT_IDS: '12, 34' }, {
+      instances: {
+        sandbox: { connection: { domain: 'company-sandbox.tpondemand.com' }, auth: { type: 'apikey', apiKey: 'other' } },
+        partner: { connection: { domain: 'partner.tpondemand.com' }, auth: { type: 'apikey', apiKey: 'p' }, scope: { teamIds: [5] } }
+      }
+    });
+
+    expect(config.getServiceConfig().scope).toEqual({ projectIds: [12, 34] });
+    expect(config.getInstanceServiceConfig('sandbox').scope).toEqual({ projectIds: [12, 34] });
+    expect(config.getInstanceServiceConfig('partner').scope).toEqual({ teamIds: [5] });
+    await expect(load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', TP_SCOPE_TEAM_IDS: '5,x' }))
+      .rejects.toThrow(/TP_SCOPE_TEAM_IDS: /);
+  });
+
+  it('rejects an instance that reuses the primary name', async () => {
+    const error = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key' }, {
+      instances: { default: { connection: { domain: 'other.tpondemand.com' }, auth: { type: 'apikey', apiKey: 'other' } } }
+    }).catch(e => e);
+
+    expect(error.issues).toEqual([{ key: `${join(dir, 'targetprocess.json')}: instances.default`, message: expect.stringContaining('primary instance') }]);
+  });
+
+  it('combines the policy settings with the policy file', async () => {
+    const policyFile = join(dir, 'policy.json');
+    writeFileSync(policyFile, JSON.stringify({ deny: [{ tool: 'comment', operations: ['delete'] }] }));
+    const config = await load(
+      { TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', TP_POLICY_FILE: policyFile },
+      { policy: { deny: ['complete-task'] } }
+    );
+    const policy = config.getToolPolicy();
+
+    expect(policy.readOnly).toBe(false);
+    expect(policy.isListed({ name: 'complete_task' })).toBe(false);
+    expect(() => policy.check({ name: 'comment' }, { operation: 'delete' })).toThrow(/blocked/);
+
+    writeFileSync(policyFile, JSON.stringify({ readOnly: 'yes', deny: [{ tool: 'comment', operation: 'delete' }] }));
+    await expect(config.reload()).rejects.toThrow(`${policyFile}: deny.0: `);
+  });
+
+  it('adds the presets of the presets file to the built-in ones', async () => {
+    const presetsFile = join(dir, 'presets.json');
+    writeFileSync(presetsFile, JSON.stringify({
+      presets: { teamBugs: { description: 'Bugs of the team', where: 'Team.Id eq 5' } },
+      teams: { 12: { sprint: { description: 'Current sprint', where: 'TeamIteration.IsCurrent eq true' } } }
+    }));
+    const config = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', TP_SEARCH_PRESETS_FILE: presetsFile });
+
+    expect(config.getSearchPresets().has('teamBugs')).toBe(true);
+    expect(config.getSearchPresets().has('myTasks')).toBe(true);
+    expect(config.getSearchPresets().has('sprint')).toBe(false);
+    expect(config.getSearchPresets().forTeams([12]).has('sprint')).toBe(true);
+    expect(config.describe()).toContain(`Search presets: ${config.getSearchPresets().names().length}, including those in ${presetsFile}, plus those of teams 12`);
+
+    writeFileSync(presetsFile, JSON.stringify({ presets: { teamBugs: { where: 'Team.Id eq 5' } } }));
+    await expect(config.reload()).rejects.toThrow(`${presetsFile}: presets.teamBugs.description: `);
+    expect(config.getSearchPresets().has('teamBugs')).toBe(true);
+  });
+
+  it('reads the subscription and transport settings', async () => {
+    const config = await load({
+      TP_DOMAIN: 'company.tpondemand.com',
+      TP_API_KEY: 'key',
+      MCP_SUBSCRIPTION_POLL_INTERVAL_MS: '60000',
+      MCP_TRANSPORT: 'HTTP',
+      PORT: '8080',
+      MCP_HTTP_PORT: '9090'
+    });
+
+    expect(config.getSubscriptionOptions()).toEqual(expect.objectContaining({ pollIntervalMs: 60000 }));
+    expect(config.getTransportOptions([])).toEqual({
+      mode: 'http',
+      http: expect.objectContaining({ port: 9090, host: '127.0.0.1', mcpPath: '/mcp' })
+    });
+    expect(config.getTransportOptions(['node', 'server.js', '--port', '4000']).http.port).toBe(4000);
+
+    const clamped = await load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', MCP_SUBSCRIPTION_POLL_INTERVAL_MS: '100' });
+    expect(clamped.getSubscriptionOptions().pollIntervalMs).toBe(5000);
+    await expect(load({ TP_DOMAIN: 'company.tpondemand.com', TP_API_KEY: 'key', MCP_SUBSCRIPTION_POLL_INTERVAL_MS: 'often' }))
+      .rejects.toThrow(/MCP_SUBSCRIPTION_POLL_INTERVAL_MS: /);
+  });
+
+  it('keeps the previous configuration when a reload fails', async () => {
+    const config = await load({}, { connection: { domain: 'company.tpondemand.com' }, auth: { type: 'bearer', accessToken: 'token' } });
+    writeFileSync(join(dir, 'targetprocess.json'), '{ not json');
+
+    await expect(config.reload()).rejects.toThrow(/targetprocess\.json: /);
+    expect(config.getAuthConfig()).toEqual({ type: 'bearer', accessToken: 'token' });
+  });
+});
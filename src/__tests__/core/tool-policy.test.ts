@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { ToolPolicy } from '../../core/tool-policy.js';
+import { TPError } from '../../api/http/http-error-handler.js';
+
+const search = { name: 'search_entities', annotations: { readOnlyHint: true } };
+const update = { name: 'update_entity', annotations: { readOnlyHint: false } };
+const comment = { name: 'comment', annotations: { readOnlyHint: false } };
+const completeTask = { name: 'complete_task', annotations: { readOnlyHint: false } };
+const bulkUpdate = { name: 'bulk_update_entities', annotations: { readOnlyHint: false } };
+const bulkCreate = { name: 'bulk_create_entities', annotations: { readOnlyHint: false } };
+
+describe('ToolPolicy', () => {
+  it('hides and refuses tools that write in read-only mode', () => {
+    const policy = new ToolPolicy({ readOnly: true, deny: [] });
+
+    expect(policy.isListed(search)).toBe(true);
+    expect(policy.isListed(update)).toBe(false);
+    expect(() => policy.check(update, { type: 'Bug', id: 1 })).toThrow('update_entity on Bug changes data, and this server is read-only');
+    expect(() => policy.check(search, { type: 'Bug' })).not.toThrow();
+  });
+
+  it('keeps the read operations of the comment tool in read-only mode', () => {
+    const policy = new ToolPolicy({ readOnly: true, deny: [] });
+
+    expect(policy.isListed(comment)).toBe(true);
+    expect(() => policy.check(comment, { operation: 'show', entityType: 'Task', entityId: 1 })).not.toThrow();
+    expect(() => policy.check(comment, { operation: 'add', entityType: 'Task', entityId: 1 })).toThrow(/read-only/);
+  });
+
+  it('refuses calls matching a deny rule and hides only unconditionally denied tools', () => {
+    const policy = new ToolPolicy({
+      readOnly: false,
+      deny: ['complete-task', { tool: 'comment', operations: ['delete'] }, { tool: 'update_entity', entityTypes: ['Epic'] }]
+    });
+
+    expect(policy.isListed(completeTask)).toBe(false);
+    expect(policy.isListed(comment)).toBe(true);
+    expect(policy.isListed(update)).toBe(true);
+    expect(() => policy.check(update, { type: 'UserStory', id: 1 })).not.toThrow();
+    expect(() => policy.check(comment, { operation: 'delete', commentId: 5 })).toThrow('comment operation delete is blocked by the server policy');
+
+    const error = (() => {
+      try {
+        policy.check(update, { type: 'epic', id: 1 });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(TPError);
+    expect(error).toMatchObject({ type: 'FORBIDDEN', message: 'MCP error -32600: update_entity on epic is blocked by the server policy' });
+  });
+
+  it('only allows listed tools when an allow list is set', () => {
+    const policy = new ToolPolicy({ readOnly: false, allow: ['search_entities', { tool: 'update_entity', entityTypes: ['Task'] }], deny: [] });
+
+    expect(policy.isListed(search)).toBe(true);
+    expect(policy.isListed(update)).toBe(true);
+    expect(policy.isListed(comment)).toBe(false);
+    expect(() => policy.check(update, { type: 'Task', id: 1 })).not.toThrow();
+    expect(() => policy.check(update, { type: 'Bug', id: 1 })).toThrow("update_entity on Bug is not on the server's list of allowed tools");
+  });
+
+  it('applies rules on the single-entity tools to the bulk tools', () => {
+    const policy = new ToolPolicy({ readOnly: false, deny: ['create_entity', { tool: 'update_entity', entityTypes: ['Epic'] }] });
+
+    expect(policy.isListed(bulkCreate)).toBe(false);
+    expect(policy.isListed(bulkUpdate)).toBe(true);
+    expect(() => policy.check(bulkUpdate, { type: 'Epic', items: [{ id: 1, fields: {} }] })).toThrow('bulk_update_entities on Epic is blocked by the server policy');
+    expect(() => policy.check(bulkUpdate, { type: 'Bug', items: [{ id: 1, fields: {} }] })).not.toThrow();
+
+    const bulkOnly = new ToolPolicy({ readOnly: false, deny: ['bulk_update_entities'] });
+    expect(bulkOnly.isListed(bulkUpdate)).toBe(false);
+    expect(bulkOnly.isListed(update)).toBe(true);
+  });
+});
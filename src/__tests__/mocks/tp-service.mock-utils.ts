@@ -6,9 +6,16 @@ export const createMockTPService = (): jest.Mocked<TPService> => {
   const mockService = {
     // Core methods
     searchEntities: jest.fn(),
+    searchEntitiesPage: jest.fn(),
+    searchEntitiesV2: jest.fn(),
+    iterateEntities: jest.fn(),
+    countEntities: jest.fn(),
+    aggregateEntities: jest.fn(),
     getEntity: jest.fn(),
     createEntity: jest.fn(),
     updateEntity: jest.fn(),
+    bulkCreateEntities: jest.fn(),
+    bulkUpdateEntities: jest.fn(),
     inspectObject: jest.fn(),
     
     // Comment methods
@@ -16,8 +23,13 @@ export const createMockTPService = (): jest.Mocked<TPService> => {
     createComment: jest.fn(),
     deleteComment: jest.fn(),
     
+    // Attachment methods
+    getAttachmentInfo: jest.fn(),
+    downloadAttachment: jest.fn(),
+    
     // Entity type validation
     getValidEntityTypes: jest.fn(),
+    getCachedEntityTypes: jest.fn(),
     
     // Configuration - use environment variables
     config: {
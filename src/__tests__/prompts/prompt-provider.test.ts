@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptProvider, PromptToolStep } from '../../prompts/prompt-provider.js';
+import { PersonalityConfig } from '../../core/interfaces/semantic-operation.interface.js';
+
+const developer: PersonalityConfig = {
+  id: 'developer',
+  name: 'Developer',
+  description: 'Software developer',
+  availableOperations: ['show-my-tasks', 'log-time', 'add-comment'],
+  preferences: {},
+  workflowHints: {
+    dailyStart: ['show-my-tasks'],
+    taskCompleted: ['log-time', 'show-my-tasks'],
+    bugFixed: ['request-review']
+  }
+};
+
+const steps: Record<string, PromptToolStep> = {
+  'show-my-tasks': {
+    operationId: 'show-my-tasks',
+    toolName: 'show_my_tasks',
+    description: 'View tasks assigned to you',
+    schema: z.object({ limit: z.number().optional() })
+  },
+  'log-time': {
+    operationId: 'log-time',
+    toolName: 'log_time',
+    description: 'Log time spent',
+    schema: z.object({
+      entityId: z.number().describe('ID of the task or bug to log time against'),
+      spent: z.number().describe('Hours spent'),
+      description: z.string().optional()
+    })
+  }
+};
+
+function createProvider(personality: PersonalityConfig | undefined) {
+  return new PromptProvider(personality, (operationId) => steps[operationId] || null);
+}
+
+describe('PromptProvider', () => {
+  it('should list one prompt per workflow hint with available steps', () => {
+    const prompts = createProvider(developer).getAvailablePrompts();
+
+    expect(prompts.map(p => p.name)).toEqual(['developer-daily-start', 'developer-task-completed']);
+    expect(prompts[0].title).toBe('Developer: Daily start');
+  });
+
+  it('should derive prompt arguments from required tool inputs', () => {
+    const prompt = createProvider(developer).getAvailablePrompts().find(p => p.name === 'developer-task-completed');
+
+    expect(prompt?.arguments).toEqual([
+      { name: 'entityId', description: 'ID of the task or bug to log time against', required: false },
+      { name: 'spent', description: 'Hours spent', required: false }
+    ]);
+  });
+
+  it('should render the tool chain with supplied arguments', () => {
+    const result = createProvider(developer).getPrompt('developer-task-completed', { entityId: '42' });
+    const text = result.messages[0].content.text;
+
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('1. `log_time` with entityId: 42 - Log time spent');
+    expect(text).toContain('2. `show_my_tasks` - View tasks assigned to you');
+    expect(text).toContain('Ask me for spent');
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => createProvider(developer).getPrompt('developer-bug-fixed')).toThrow(McpError);
+  });
+
+  it('should expose no prompts without a personality', () => {
+    expect(createProvider(undefined).getAvailablePrompts()).toEqual([]);
+  });
+});
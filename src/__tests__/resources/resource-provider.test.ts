@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ResourceProvider } from '../../resources/resource-provider.js';
+import { createMockTPService, createMockEntity } from '../mocks/tp-service.mock-utils.js';
+
+describe('ResourceProvider', () => {
+  let provider: ResourceProvider;
+  let mockService: ReturnType<typeof createMockTPService>;
+
+  beforeEach(() => {
+    mockService = createMockTPService();
+    provider = new ResourceProvider(mockService, null);
+    jest.clearAllMocks();
+  });
+
+  it('should advertise entity, comment and attachment templates', () => {
+    const templates = provider.getResourceTemplates().map(t => t.uriTemplate);
+
+    expect(templates).toEqual([
+      'targetprocess://{type}/{id}',
+      'targetprocess://{type}/{id}/comments',
+      'targetprocess://attachment/{id}'
+    ]);
+  });
+
+  it('should read an entity through getEntity', async () => {
+    const story = createMockEntity('UserStory', { Id: 123 });
+    mockService.getEntity.mockResolvedValue(story);
+
+    const content = await provider.getResourceContent('targetprocess://UserStory/123');
+
+    expect(mockService.getEntity).toHaveBeenCalledWith('UserStory', 123, expect.any(Array));
+    expect(content.mimeType).toBe('application/json');
+    expect(JSON.parse(content.text!)).toEqual(story);
+  });
+
+  it('should resolve plural and lowercase type segments', async () => {
+    mockService.getEntity.mockResolvedValue(createMockEntity('Project', { Id: 42 }));
+
+    await provider.getResourceContent('targetprocess://projects/42');
+    await provider.getResourceContent('targetprocess://userstories/7');
+
+    expect(mockService.getEntity).toHaveBeenNthCalledWith(1, 'Project', 42, expect.any(Array));
+    expect(mockService.getEntity).toHaveBeenNthCalledWith(2, 'UserStory', 7, expect.any(Array));
+  });
+
+  it('should read comments through getComments', async () => {
+    mockService.getComments.mockResolvedValue([{ Id: 1, Description: 'Looks good' }] as any);
+
+    const content = await provider.getResourceContent('targetprocess://Bug/456/comments');
+
+    expect(mockService.getComments).toHaveBeenCalledWith('Bug', 456);
+    expect(JSON.parse(content.text!).comments).toHaveLength(1);
+  });
+
+  it('should return attachments as blobs', async () => {
+    mockService.downloadAttachment.mockResolvedValue({
+      attachmentId: 789,
+      mimeType: 'image/png',
+      base64Content: 'aGVsbG8='
+    });
+
+    const content = await provider.getResourceContent('targetprocess://attachment/789');
+
+    expect(mockService.downloadAttachment).toHaveBeenCalledWith(789);
+    expect(mockService.getEntity).not.toHaveBeenCalled();
+    expect(content).toEqual({
+      uri: 'targetprocess://attachment/789',
+      mimeType: 'image/png',
+      blob: 'aGVsbG8='
+    });
+  });
+
+  it('should reject unknown URIs', async () => {
+    await expect(provider.getResourceContent('targetprocess://nothing')).rejects.toThrow('Unknown resource URI');
+  });
+});
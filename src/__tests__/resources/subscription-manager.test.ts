@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceSubscriptionManager } from '../../resources/subscription-manager.js';
+import { ResourceProvider } from '../../resources/resource-provider.js';
+import { createMockTPService } from '../mocks/tp-service.mock-utils.js';
+
+describe('ResourceSubscriptionManager', () => {
+  let mockService: ReturnType<typeof createMockTPService>;
+  let notify: jest.Mock<(uri: string) => Promise<void>>;
+  let manager: ResourceSubscriptionManager;
+  let modifyDates: Record<number, string>;
+  let commentDates: Record<number, string>;
+
+  beforeEach(() => {
+    mockService = createMockTPService();
+    const provider = new ResourceProvider(mockService, null);
+    notify = jest.fn(async () => undefined);
+    modifyDates = { 1: 'm1', 2: 'm2' };
+    commentDates = { 1: 'c1', 2: 'c2' };
+
+    // Answer "Id in (...)" searches from the date maps above
+    mockService.searchEntities.mockImplementation((async (_type: string, where?: string) => {
+      const ids = (where?.match(/\d+/g) || []).map(Number);
+      return ids
+        .filter(id => modifyDates[id] !== undefined)
+        .map(id => ({ Id: id, ModifyDate: modifyDates[id], LastCommentDate: commentDates[id] }));
+    }) as any);
+
+    manager = new ResourceSubscriptionManager(
+      mockService,
+      (uri) => provider.resolveEntityUri(uri),
+      notify,
+      { pollIntervalMs: 60000, maxWatchedItems: 2, batchSize: 10 }
+    );
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  it('should only notify about changes after subscribing', async () => {
+    await manager.subscribe('targetprocess://UserStory/1');
+    await manager.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    modifyDates[1] = 'm1-changed';
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('targetprocess://UserStory/1');
+  });
+
+  it('should batch watched items of the same type into one search', async () => {
+    await manager.subscribe('targetprocess://UserStory/1');
+    await manager.subscribe('targetprocess://UserStory/2');
+    mockService.searchEntities.mockClear();
+
+    await manager.poll();
+
+    expect(mockService.searchEntities).toHaveBeenCalledTimes(1);
+    expect(mockService.searchEntities).toHaveBeenCalledWith('UserStory', 'Id in (1,2)', ['ModifyDate'], 2, undefined, { fresh: true });
+  });
+
+  it('should split watched items into batches of the configured size', async () => {
+    const batched = new ResourceSubscriptionManager(
+      mockService,
+      (uri) => new ResourceProvider(mockService, null).resolveEntityUri(uri),
+      notify,
+      { pollIntervalMs: 60000, maxWatchedItems: 10, batchSize: 2 }
+    );
+    modifyDates[3] = 'm3';
+    for (const id of [1, 2, 3]) {
+      await batched.subscribe(`targetprocess://Bug/${id}`);
+    }
+    mockService.searchEntities.mockClear();
+
+    await batched.poll();
+    batched.close();
+
+    expect(mockService.searchEntities.mock.calls.map(call => call[1])).toEqual(['Id in (1,2)', 'Id in (3)']);
+  });
+
+  it('should poll on the configured interval until the last subscription ends', async () => {
+    jest.useFakeTimers();
+    try {
+      await manager.subscribe('targetprocess://UserStory/1');
+      modifyDates[1] = 'm1-changed';
+
+      await jest.advanceTimersByTimeAsync(59999);
+      expect(notify).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      expect(notify).toHaveBeenCalledWith('targetprocess://UserStory/1');
+
+      manager.unsubscribe('targetprocess://UserStory/1');
+      mockService.searchEntities.mockClear();
+      await jest.advanceTimersByTimeAsync(120000);
+      expect(mockService.searchEntities).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should notify comment resources when LastCommentDate changes', async () => {
+    await manager.subscribe('targetprocess://Bug/1');
+    await manager.subscribe('targetprocess://Bug/1/comments');
+
+    commentDates[1] = 'c1-changed';
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('targetprocess://Bug/1/comments');
+  });
+
+  it('should notify once when a watched entity disappears', async () => {
+    await manager.subscribe('targetprocess://Task/2');
+
+    delete modifyDates[2];
+    await manager.poll();
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify again when a missing entity comes back', async () => {
+    await manager.subscribe('targetprocess://Task/2');
+    delete modifyDates[2];
+    await manager.poll();
+
+    modifyDates[2] = 'm2';
+    await manager.poll();
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not notify about entities that were missing when subscribed until they appear', async () => {
+    delete modifyDates[2];
+    await manager.subscribe('targetprocess://Task/2');
+    await manager.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    modifyDates[2] = 'm2';
+    await manager.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should enforce the per-session cap on watched items', async () => {
+    await manager.subscribe('targetprocess://UserStory/1');
+    await manager.subscribe('targetprocess://UserStory/1/comments');
+    await manager.subscribe('targetprocess://UserStory/2');
+
+    await expect(manager.subscribe('targetprocess://UserStory/3')).rejects.toThrow('Subscription limit reached');
+    expect(manager.getWatchedCount()).toBe(2);
+  });
+
+  it('should not count subscriptions whose first check failed towards the cap', async () => {
+    mockService.searchEntities.mockRejectedValueOnce(new Error('TargetProcess unavailable'));
+
+    await expect(manager.subscribe('targetprocess://UserStory/1')).rejects.toThrow('TargetProcess unavailable');
+    await manager.subscribe('targetprocess://UserStory/1');
+    await manager.subscribe('targetprocess://UserStory/2');
+
+    expect(manager.getWatchedCount()).toBe(2);
+  });
+
+  it('should reject resources that cannot be watched', async () => {
+    await expect(manager.subscribe('targetprocess://projects')).rejects.toThrow(McpError);
+    await expect(manager.subscribe('targetprocess://attachment/5')).rejects.toThrow(McpError);
+  });
+
+  it('should stop watching after unsubscribe', async () => {
+    await manager.subscribe('targetprocess://UserStory/1');
+    manager.unsubscribe('targetprocess://UserStory/1');
+
+    modifyDates[1] = 'm1-changed';
+    await manager.poll();
+
+    expect(manager.getWatchedCount()).toBe(0);
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
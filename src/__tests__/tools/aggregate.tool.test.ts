@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AggregateEntitiesTool } from '../../tools/aggregate/aggregate.tool.js';
+import { EntityAggregator } from '../../api/client/entity-aggregator.js';
+import { createMockTPService } from '../mocks/tp-service.mock-utils.js';
+
+describe('EntityAggregator', () => {
+  it('should count, sum and group by state', () => {
+    const query = { groupBy: 'state' as const, sum: ['Effort' as const] };
+    const aggregator = new EntityAggregator(query);
+
+    aggregator.add([
+      { Id: 1, Effort: 1.1, EntityState: { Id: 10, Name: 'Open' } },
+      { Id: 2, Effort: 2.2, EntityState: { Id: 10, Name: 'Open' } },
+      { Id: 3, Effort: null, EntityState: { Id: 20, Name: 'Done' } }
+    ]);
+
+    expect(EntityAggregator.includeFor(query)).toEqual(['Id', 'Effort', 'EntityState']);
+    expect(aggregator.result(true)).toEqual({
+      count: 3,
+      sums: { Effort: 3.3 },
+      groups: [
+        { id: 10, name: 'Open', count: 2, sums: { Effort: 3.3 } },
+        { id: 20, name: 'Done', count: 1, sums: { Effort: 0 } }
+      ],
+      exact: true
+    });
+  });
+
+  it('should count multi-assignee items once per user and group unassigned items', () => {
+    const aggregator = new EntityAggregator({ groupBy: 'assignee' });
+
+    aggregator.add([
+      { Id: 1, AssignedUser: { Items: [{ Id: 5, FirstName: 'Ana', LastName: 'Lee' }, { Id: 6, Login: 'bob' }] } },
+      { Id: 2, AssignedUser: { Items: [{ Id: 6, Login: 'bob' }] } },
+      { Id: 3, AssignedUser: { Items: [] } }
+    ]);
+
+    expect(aggregator.result(false).groups).toEqual([
+      { id: 6, name: 'bob', count: 2, sums: {} },
+      { id: 5, name: 'Ana Lee', count: 1, sums: {} },
+      { id: null, name: 'Unassigned', count: 1, sums: {} }
+    ]);
+  });
+});
+
+describe('AggregateEntitiesTool', () => {
+  let mockService: ReturnType<typeof createMockTPService>;
+
+  beforeEach(() => {
+    mockService = createMockTPService();
+    jest.clearAllMocks();
+  });
+
+  it('should return the breakdown as text and structured content', async () => {
+    mockService.aggregateEntities.mockResolvedValue({
+      count: 3,
+      sums: {},
+      groups: [{ id: 1, name: 'Mobile', count: 2, sums: {} }, { id: 2, name: 'Web', count: 1, sums: {} }],
+      exact: true
+    });
+
+    const result = await new AggregateEntitiesTool(mockService).execute({
+      type: 'Bug',
+      where: "EntityState.IsFinal eq 'false'",
+      groupBy: 'project'
+    });
+
+    expect(mockService.aggregateEntities).toHaveBeenCalledWith(
+      'Bug',
+      { where: "EntityState.IsFinal eq 'false'", groupBy: 'project', sum: undefined },
+      {}
+    );
+    expect(result.content[0].text).toBe('Bug: 3 items\n\nBy project:\n- Mobile: 2\n- Web: 1');
+    expect(result.structuredContent).toMatchObject({ type: 'Bug', groupBy: 'project', count: 3, exact: true });
+  });
+
+  it('should reject unknown group-by dimensions', async () => {
+    await expect(
+      new AggregateEntitiesTool(mockService).execute({ type: 'Bug', groupBy: 'priority' })
+    ).rejects.toThrow('Invalid aggregate parameters');
+  });
+});
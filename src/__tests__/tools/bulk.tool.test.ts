@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { BulkCreateEntitiesTool } from '../../tools/bulk/bulk-create.tool.js';
+import { BulkUpdateEntitiesTool } from '../../tools/bulk/bulk-update.tool.js';
+import { createMockTPService } from '../mocks/tp-service.mock-utils.js';
+
+describe('bulk entity tools', () => {
+  let mockService: ReturnType<typeof createMockTPService>;
+
+  beforeEach(() => {
+    mockService = createMockTPService();
+    jest.clearAllMocks();
+  });
+
+  it('should map rows to API requests and summarize partial failures', async () => {
+    mockService.bulkCreateEntities.mockResolvedValue({
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { index: 0, success: true, id: 101, entity: { Id: 101 } },
+        { index: 1, success: false, error: 'Name is required' }
+      ]
+    });
+
+    const result = await new BulkCreateEntitiesTool(mockService).execute({
+      type: 'Bug',
+      items: [{ name: 'Crash on login', project: { id: 7 } }, { name: '', project: { id: 7 } }]
+    });
+
+    expect(mockService.bulkCreateEntities).toHaveBeenCalledWith(
+      'Bug',
+      [
+        expect.objectContaining({ Name: 'Crash on login', Project: { Id: 7 } }),
+        expect.objectContaining({ Name: '', Project: { Id: 7 } })
+      ],
+      {}
+    );
+    expect(result.content[0].text).toBe('Created 1 of 2 Bug items.\nCreated: 101\n\nFailed rows:\n- #1: Name is required');
+    expect(result.isError).toBe(false);
+  });
+
+  it('should flag the result as an error when every row failed', async () => {
+    mockService.bulkUpdateEntities.mockResolvedValue({
+      succeeded: 0,
+      failed: 1,
+      results: [{ index: 0, success: false, id: 5, error: 'status: 404' }]
+    });
+
+    const result = await new BulkUpdateEntitiesTool(mockService).execute({
+      type: 'Task',
+      items: [{ id: 5, fields: { status: { id: 3 } } }]
+    });
+
+    expect(mockService.bulkUpdateEntities).toHaveBeenCalledWith(
+      'Task',
+      [{ id: 5, data: expect.objectContaining({ EntityState: { Id: 3 } }) }],
+      {}
+    );
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ type: 'Task', succeeded: 0, failed: 1 });
+  });
+});
@@ -30,7 +30,8 @@ describe('GetEntityTool', () => {
       expect(mockService.getEntity).toHaveBeenCalledWith(
         'UserStory',
         123,
-        undefined
+        undefined,
+        {}
       );
       
       expect(result.content[0].text).toContain('Test Story');
@@ -57,7 +58,8 @@ describe('GetEntityTool', () => {
       expect(mockService.getEntity).toHaveBeenCalledWith(
         'Bug',
         456,
-        ['Project', 'AssignedUser', 'AttachedFiles']
+        ['Project', 'AssignedUser', 'AttachedFiles'],
+        {}
       );
       
       expect(result.content[0].text).toContain('Test Project');
@@ -136,7 +138,8 @@ describe('GetEntityTool', () => {
       expect(mockService.getEntity).toHaveBeenCalledWith(
         'Feature',
         789,
-        ['Project[Program]', 'UserStories']
+        ['Project[Program]', 'UserStories'],
+        {}
       );
       
       expect(result.content[0].text).toContain('Test Program');
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { SearchPresetRegistry } from '../../tools/search/presets.js';
+import { ExecutionContext } from '../../core/interfaces/semantic-operation.interface.js';
+
+const context = {
+  user: { id: 7, name: 'Jane', email: "jane.o'neil@example.com", role: 'developer', teams: [], permissions: [] },
+  workspace: { currentProject: { id: 42, name: 'Web', process: 'Scrum' }, recentEntities: [] }
+} as unknown as ExecutionContext;
+
+describe('SearchPresetRegistry', () => {
+  const registry = new SearchPresetRegistry({
+    sameOwner: {
+      description: 'Owned and assigned to the same user',
+      where: 'Owner.Email eq ${user} and AssignedUser.Email eq ${user}',
+      variables: { user: { type: 'string', from: 'currentUser' } }
+    },
+    inProject: {
+      description: 'Items of a project',
+      where: 'Project.Id eq ${projectId}',
+      variables: { projectId: { type: 'number', from: 'currentProject' } }
+    },
+    since: {
+      description: 'Created since a date',
+      where: 'CreateDate gte ${since}',
+      variables: { since: { type: 'date', default: '@StartOfWeek' } }
+    }
+  });
+
+  it('should fill every occurrence of a variable from the execution context', () => {
+    expect(registry.resolve(['sameOwner'], {}, context)).toBe(
+      "Owner.Email eq 'jane.o''neil@example.com' and AssignedUser.Email eq 'jane.o''neil@example.com'"
+    );
+  });
+
+  it('should combine presets and prefer passed values over defaults', () => {
+    expect(registry.resolve(['inProject', 'since'], { projectId: '7', since: '2024-01-31' }, context)).toBe(
+      "(Project.Id eq 7) and (CreateDate gte '2024-01-31')"
+    );
+    expect(registry.resolve(['since'])).toBe('CreateDate gte @StartOfWeek');
+  });
+
+  it('should reject missing and mistyped values', () => {
+    expect(() => registry.resolve(['inProject'])).toThrow('Preset inProject needs a value for projectId');
+    expect(() => registry.resolve(['inProject'], { projectId: '1 or 1' })).toThrow('must be a number');
+    expect(() => new SearchPresetRegistry({ bad: { description: '', where: 'Id eq ${id}' } })).toThrow(
+      'Preset bad uses undeclared variable ${id}'
+    );
+  });
+
+  it('should add the presets of the teams a session is limited to', () => {
+    const teams = new SearchPresetRegistry({ open: { description: 'Open items', where: 'EntityState.Name eq "Open"' } }, {
+      12: { open: { description: 'Open items of the team', where: 'Team.Id eq 12 and EntityState.IsFinal eq false' } },
+      14: { bugs: { description: 'Bugs of the team', where: 'Team.Id eq 14' } }
+    });
+
+    expect(teams.names()).toEqual(['open']);
+    expect(teams.forTeams()).toBe(teams);
+    expect(teams.forTeams([12]).resolve(['open'])).toBe('Team.Id eq 12 and EntityState.IsFinal eq false');
+    expect(teams.forTeams([12, 14, 99]).names()).toEqual(['open', 'bugs']);
+    expect(teams.teamIds()).toEqual([12, 14]);
+  });
+});
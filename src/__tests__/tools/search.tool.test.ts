@@ -3,6 +3,10 @@ import { SearchTool } from '../../tools/search/search.tool.js';
 import { createMockTPService, createMockEntity } from '../mocks/tp-service.mock-utils.js';
 import { McpError } from '@modelcontextprotocol/sdk/types.js';
 
+function pageOf(items: any[]) {
+  return { items, skip: 0, take: 25, hasMore: false };
+}
+
 describe('SearchTool', () => {
   let searchTool: SearchTool;
   let mockService: ReturnType<typeof createMockTPService>;
@@ -20,19 +24,23 @@ describe('SearchTool', () => {
         createMockEntity('UserStory', { Name: 'Story 2' })
       ];
       
-      mockService.searchEntities.mockResolvedValue(mockStories);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockStories));
 
       const result = await searchTool.execute({
         type: 'UserStory',
         take: 10
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'UserStory',
-        undefined,  // where
-        undefined,  // include
-        10,         // take
-        undefined   // orderBy
+        {
+          where: undefined,
+          include: undefined,
+          take: 10,
+          skip: undefined,
+          orderBy: undefined,
+        },
+        {}
       );
       
       expect(result).toMatchObject({
@@ -53,7 +61,7 @@ describe('SearchTool', () => {
         })
       ];
       
-      mockService.searchEntities.mockResolvedValue(mockBugs);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockBugs));
 
       const result = await searchTool.execute({
         type: 'Bug',
@@ -61,12 +69,16 @@ describe('SearchTool', () => {
         take: 25
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'Bug',
-        "Priority.Name eq 'Critical'",
-        undefined,  // include
-        25,         // take
-        undefined   // orderBy
+        {
+          where: "Priority.Name eq 'Critical'",
+          include: undefined,
+          take: 25,
+          skip: undefined,
+          orderBy: undefined,
+        },
+        {}
       );
       
       const parsedResult = JSON.parse(result.content[0].text);
@@ -82,7 +94,7 @@ describe('SearchTool', () => {
         })
       ];
       
-      mockService.searchEntities.mockResolvedValue(mockTasks);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockTasks));
 
       const result = await searchTool.execute({
         type: 'Task',
@@ -90,12 +102,16 @@ describe('SearchTool', () => {
         take: 10
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'Task',
-        undefined,                        // where
-        ['UserStory', 'AssignedUser'],  // include
-        10,                              // take
-        undefined                        // orderBy
+        {
+          where: undefined,
+          include: ['UserStory', 'AssignedUser'],
+          take: 10,
+          skip: undefined,
+          orderBy: undefined,
+        },
+        {}
       );
     });
 
@@ -104,19 +120,23 @@ describe('SearchTool', () => {
         createMockEntity('Feature', { Name: 'Feature 1' })
       ];
       
-      mockService.searchEntities.mockResolvedValue(mockFeatures);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockFeatures));
 
       await searchTool.execute({
         type: 'Feature',
         orderBy: ['CreateDate desc']
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'Feature',
-        undefined,      // where
-        undefined,      // include
-        undefined,      // take
-        ['CreateDate']  // orderBy cleaned (desc removed)
+        {
+          where: undefined,
+          include: undefined,
+          take: undefined,
+          skip: undefined,
+          orderBy: ['CreateDate'], // desc removed
+        },
+        {}
       );
     });
 
@@ -125,25 +145,29 @@ describe('SearchTool', () => {
         createMockEntity('Bug', { Name: 'Bug 1' })
       ];
       
-      mockService.searchEntities.mockResolvedValue(mockBugs);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockBugs));
 
       await searchTool.execute({
         type: 'Bug',
         orderBy: ['CreateDate', 'ModifyDate']
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'Bug',
-        undefined,                      // where
-        undefined,                      // include
-        undefined,                      // take
-        ['CreateDate', 'ModifyDate']   // orderBy
+        {
+          where: undefined,
+          include: undefined,
+          take: undefined,
+          skip: undefined,
+          orderBy: ['CreateDate', 'ModifyDate'],
+        },
+        {}
       );
     });
 
     it('should process search presets', async () => {
       const mockBugs = [];
-      mockService.searchEntities.mockResolvedValue(mockBugs);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockBugs));
 
       await searchTool.execute({
         type: 'Bug',
@@ -151,18 +175,22 @@ describe('SearchTool', () => {
         take: 5
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'Bug',
-        'Priority.Name eq "High"',  // Expanded from preset
-        undefined,                   // include
-        5,                          // take
-        undefined                   // orderBy
+        {
+          where: 'Priority.Name eq "High"', // expanded from preset
+          include: undefined,
+          take: 5,
+          skip: undefined,
+          orderBy: undefined,
+        },
+        {}
       );
     });
 
     it('should process date presets with actual dates', async () => {
       const mockTasks = [];
-      mockService.searchEntities.mockResolvedValue(mockTasks);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf(mockTasks));
 
       await searchTool.execute({
         type: 'Task',
@@ -171,10 +199,25 @@ describe('SearchTool', () => {
       });
 
       // Check that the where clause has been expanded with real dates
-      const callArgs = mockService.searchEntities.mock.calls[0];
+      const callArgs = mockService.searchEntitiesPage.mock.calls[0];
       expect(callArgs[0]).toBe('Task');
-      expect(callArgs[1]).toMatch(/CreateDate gte '\d{4}-\d{2}-\d{2}' and CreateDate lt '\d{4}-\d{2}-\d{2}'/);
-      expect(callArgs[3]).toBe(5);
+      expect(callArgs[1].where).toMatch(/CreateDate gte '\d{4}-\d{2}-\d{2}' and CreateDate lt '\d{4}-\d{2}-\d{2}'/);
+      expect(callArgs[1].take).toBe(5);
+    });
+
+    it('should combine presets with the where clause', async () => {
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf([]));
+
+      await searchTool.execute({
+        type: 'Bug',
+        where: 'Effort gt 2',
+        presets: ['open', 'projectItems'],
+        variables: { projectId: 12 }
+      });
+
+      expect(mockService.searchEntitiesPage.mock.calls[0][1].where).toBe(
+        '(Effort gt 2) and ((EntityState.Name eq "Open") and (Project.Id eq 12))'
+      );
     });
 
     it('should handle invalid entity type', async () => {
@@ -205,7 +248,7 @@ describe('SearchTool', () => {
     });
 
     it('should handle API errors gracefully', async () => {
-      mockService.searchEntities.mockRejectedValue(
+      mockService.searchEntitiesPage.mockRejectedValue(
         new Error('Network error')
       );
 
@@ -217,21 +260,69 @@ describe('SearchTool', () => {
     });
 
     it('should handle complex where clauses', async () => {
-      mockService.searchEntities.mockResolvedValue([]);
+      mockService.searchEntitiesPage.mockResolvedValue(pageOf([]));
 
       await searchTool.execute({
         type: 'UserStory',
         where: "(Project.Id eq 123) and (EntityState.Name ne 'Done') and (Priority.Name eq 'High')"
       });
 
-      expect(mockService.searchEntities).toHaveBeenCalledWith(
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith(
         'UserStory',
-        "(Project.Id eq 123) and (EntityState.Name ne 'Done') and (Priority.Name eq 'High')",
-        undefined,
-        undefined,
-        undefined
+        {
+          where: "(Project.Id eq 123) and (EntityState.Name ne 'Done') and (Priority.Name eq 'High')",
+          include: undefined,
+          take: undefined,
+          skip: undefined,
+          orderBy: undefined,
+        },
+        {}
       );
     });
+
+    it('should run select queries through API v2', async () => {
+      const features = [{ id: 7, name: 'Checkout', bugsCount: 3 }];
+      mockService.searchEntitiesV2.mockResolvedValue(pageOf(features));
+
+      const result = await searchTool.execute({
+        type: 'Feature',
+        select: '{id,name,bugsCount:bugs.count}',
+        where: 'entityState.isFinal==false',
+        take: 10
+      });
+
+      expect(mockService.searchEntitiesV2).toHaveBeenCalledWith('Feature', {
+        select: '{id,name,bugsCount:bugs.count}',
+        where: 'entityState.isFinal==false',
+        take: 10,
+        skip: undefined,
+        orderBy: undefined
+      }, {});
+      expect(mockService.searchEntitiesPage).not.toHaveBeenCalled();
+      expect(result.structuredContent.items).toEqual(features);
+    });
+
+    it('should reject v1-only options combined with select', async () => {
+      await expect(
+        searchTool.execute({ type: 'Bug', select: '{id}', include: ['Project'] })
+      ).rejects.toThrow('include is not supported with select');
+      await expect(
+        searchTool.execute({ type: 'Bug', select: '{id}', where: 'searchPresets.open' })
+      ).rejects.toThrow('cannot be combined with select');
+    });
+
+    it('should pass the cancellation signal on and report progress while counting', async () => {
+      const signal = new AbortController().signal;
+      const reportProgress = jest.fn(async () => {});
+      mockService.searchEntitiesPage.mockResolvedValue({ ...pageOf([createMockEntity('Bug')]), hasMore: true, nextSkip: 25 });
+      mockService.countEntities.mockResolvedValue({ total: 40, exact: true });
+
+      await searchTool.execute({ type: 'Bug', includeTotal: true }, null, { signal, reportProgress });
+
+      expect(mockService.searchEntitiesPage).toHaveBeenCalledWith('Bug', expect.anything(), { signal });
+      expect(mockService.countEntities).toHaveBeenCalledWith('Bug', expect.anything(), { signal });
+      expect(reportProgress).toHaveBeenLastCalledWith(2, 2, 'Counted matches');
+    });
   });
 
   describe('getDefinition', () => {
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { SearchTool } from '../../tools/search/search.tool.js';
+import { GetEntityTool } from '../../tools/entity/get.tool.js';
+import { CreateEntityTool } from '../../tools/entity/create.tool.js';
+import { UpdateEntityTool } from '../../tools/update/update.tool.js';
+import { InspectObjectTool } from '../../tools/inspect/inspect.tool.js';
+import { CommentTool } from '../../tools/comment/comment.tool.js';
+import { toOperationOutput } from '../../core/operation-output.js';
+import { createMockTPService, createMockEntity } from '../mocks/tp-service.mock-utils.js';
+
+describe('tool definitions', () => {
+  it('should mark read-only and destructive tools', () => {
+    expect(SearchTool.getDefinition().annotations.readOnlyHint).toBe(true);
+    expect(GetEntityTool.getDefinition().annotations.readOnlyHint).toBe(true);
+    expect(InspectObjectTool.getDefinition().annotations.readOnlyHint).toBe(true);
+
+    expect(CreateEntityTool.getDefinition().annotations).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+    expect(UpdateEntityTool.getDefinition().annotations).toMatchObject({ destructiveHint: true, idempotentHint: true });
+    expect(CommentTool.getDefinition().annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+  });
+
+  it('should return search results as structured content matching the output schema', async () => {
+    const mockService = createMockTPService();
+    const stories = [createMockEntity('UserStory', { Name: 'Story 1' })];
+    mockService.searchEntitiesPage.mockResolvedValue({ items: stories, skip: 0, take: 25, hasMore: false });
+
+    const result = await new SearchTool(mockService).execute({ type: 'UserStory' });
+    const { outputSchema } = SearchTool.getDefinition();
+
+    expect(result.structuredContent).toEqual({ items: stories, count: 1, skip: 0, hasMore: false });
+    expect(Object.keys(result.structuredContent)).toEqual(expect.arrayContaining(outputSchema.required ?? []));
+    expect(Object.keys(result.structuredContent).every(key => key in outputSchema.properties)).toBe(true);
+  });
+});
+
+describe('toOperationOutput', () => {
+  it('should keep structured data, suggestions and affected entities', () => {
+    const output = toOperationOutput({
+      content: [
+        { type: 'text', text: 'Started work on task 42' },
+        { type: 'structured-data', data: { task: { id: 42 } } }
+      ],
+      suggestions: ['log-time'],
+      affectedEntities: [{ id: 42, type: 'Task', action: 'updated' }]
+    });
+
+    expect(output).toEqual({
+      data: [{ task: { id: 42 } }],
+      suggestions: ['log-time'],
+      affectedEntities: [{ id: 42, type: 'Task', action: 'updated' }]
+    });
+  });
+
+  it('should default missing parts to empty lists', () => {
+    expect(toOperationOutput({ content: [{ type: 'text', text: 'Nothing found' }] }))
+      .toEqual({ data: [], suggestions: [], affectedEntities: [] });
+  });
+});
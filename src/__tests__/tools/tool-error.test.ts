@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { HttpErrorHandler } from '../../api/http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+import { toolError, toolErrorResult } from '../../tools/tool-error.js';
+
+const handler = new HttpErrorHandler({ delayMs: 1, backoffFactor: 1 });
+
+describe('toolError', () => {
+  it('keeps the classification of API errors when adding the tool context', () => {
+    const error = toolError(handler.fromHttpError(403, 'POST Bugs failed: 403 - Access denied'), 'Create entity failed');
+
+    expect(error.type).toBe(TPErrorType.AUTHORIZATION);
+    expect(error.status).toBe(403);
+    expect(error.message).toBe('MCP error -32600: Create entity failed: POST Bugs failed: 403 - Access denied');
+  });
+
+  it('treats rejected arguments as validation errors', () => {
+    const error = toolError(new McpError(ErrorCode.InvalidRequest, 'Entity type Bugz is not supported'), 'Search failed');
+    expect(error.type).toBe(TPErrorType.VALIDATION);
+  });
+});
+
+describe('toolErrorResult', () => {
+  it('reports the error code and recovery suggestions', () => {
+    const result = toolErrorResult(handler.fromHttpError(404, 'GET Bugs/999 failed: 404 - Not found'));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/^NOT_FOUND: GET Bugs\/999 failed: 404 - Not found\n\nSuggestions:\n- /);
+  });
+
+  it('includes the wait asked for by Retry-After', () => {
+    const result = toolErrorResult(handler.fromHttpError(429, 'GET Bugs failed: 429 - Too many requests', undefined, 5000));
+
+    expect(result.content[0].text).toMatch(/^RATE_LIMITED: /);
+    expect(result.content[0].text).toContain('- TargetProcess asked to wait 5s before retrying.');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { IncomingMessage } from 'node:http';
+import { setTimeout as sleep } from 'node:timers/promises';
+import fetch from 'node-fetch';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportHost, TransportAuthError } from '../../transport/http-transport.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+const LIST_TOOLS = { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} };
+
+const STREAMABLE_HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+function createServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [{ name: 'ping', inputSchema: { type: 'object' } }] }));
+  return server;
+}
+
+// Messages sent as server-sent events, one JSON-RPC message per data line
+function eventData(text: string): any[] {
+  return text
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)));
+}
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost | undefined;
+  const factory = jest.fn((request: IncomingMessage) => {
+    if (!request.headers.authorization) {
+      throw new TransportAuthError('Missing TargetProcess credentials');
+    }
+    return createServer();
+  });
+
+  async function startHost(sessionIdleTimeoutMs = 0): Promise<string> {
+    host = new HttpTransportHost(factory, { port: 0, host: '127.0.0.1', mcpPath: '/mcp', sessionIdleTimeoutMs, maxBodyBytes: 1024 * 1024 });
+    await host.start();
+    return host.getAddress();
+  }
+
+  function post(url: string, body: unknown, headers: Record<string, string> = {}) {
+    return fetch(url, { method: 'POST', headers: { ...STREAMABLE_HEADERS, ...headers }, body: JSON.stringify(body) });
+  }
+
+  async function initialize(address: string): Promise<string> {
+    const response = await post(`${address}/mcp`, INITIALIZE, { Authorization: 'Bearer token' });
+    expect(response.status).toBe(200);
+    expect(eventData(await response.text())[0].result.serverInfo.name).toBe('test');
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  afterEach(async () => {
+    await host?.close();
+    host = undefined;
+    factory.mockClear();
+  });
+
+  it('should answer 401 when the server factory rejects the credentials', async () => {
+    const address = await startHost();
+
+    const response = await post(`${address}/mcp`, INITIALIZE);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('Bearer');
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', error: { code: -32001, message: 'Missing TargetProcess credentials' }, id: null });
+    expect(host!.getSessionCounts()).toEqual({ streamable: 0, sse: 0 });
+  });
+
+  it('should reuse the session named by mcp-session-id', async () => {
+    const address = await startHost();
+    const sessionId = await initialize(address);
+
+    const response = await post(`${address}/mcp`, LIST_TOOLS, {
+      'mcp-session-id': sessionId,
+      'mcp-protocol-version': '2025-03-26',
+      Authorization: 'Bearer token'
+    });
+
+    expect(response.status).toBe(200);
+    expect(eventData(await response.text())[0].result.tools).toEqual([{ name: 'ping', inputSchema: { type: 'object' } }]);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(host!.getSessionCounts()).toEqual({ streamable: 1, sse: 0 });
+
+    const unknown = await post(`${address}/mcp`, LIST_TOOLS, { 'mcp-session-id': 'no-such-session' });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should not let other credentials use a session', async () => {
+    const address = await startHost();
+    const sessionId = await initialize(address);
+
+    for (const headers of [{}, { Authorization: 'Bearer other' }, { Authorization: 'Bearer token', 'X-TP-Api-Key': 'key' }]) {
+      const response = await post(`${address}/mcp`, LIST_TOOLS, { 'mcp-session-id': sessionId, ...headers });
+      expect(response.status).toBe(404);
+    }
+    expect(host!.getSessionCounts().streamable).toBe(1);
+  });
+
+  it('should route legacy SSE posts to the session that opened the stream', async () => {
+    const address = await startHost();
+    const controller = new AbortController();
+    const stream = await fetch(`${address}/sse`, { headers: { Authorization: 'Bearer token' }, signal: controller.signal });
+    expect(stream.headers.get('content-type')).toContain('text/event-stream');
+
+    // Post to the endpoint the stream announces, then wait for the reply on the stream
+    let received = '';
+    let posted = false;
+    for await (const chunk of stream.body!) {
+      received += chunk.toString();
+      if (received.includes('event: message')) break;
+      const endpoint = /event: endpoint\ndata: (\S+)/.exec(received);
+      if (endpoint && !posted) {
+        posted = true;
+        expect((await post(`${address}${endpoint[1]}`, INITIALIZE, { Authorization: 'Bearer other' })).status).toBe(404);
+        const response = await post(`${address}${endpoint[1]}`, INITIALIZE, { Authorization: 'Bearer token' });
+        expect(response.status).toBe(202);
+      }
+    }
+    controller.abort();
+
+    expect(eventData(received.slice(received.indexOf('event: message')))[0]).toMatchObject({ id: 1, result: { serverInfo: { name: 'test' } } });
+    expect(host!.getSessionCounts().sse).toBe(1);
+    expect((await post(`${address}/messages?sessionId=unknown`, INITIALIZE)).status).toBe(404);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const address = await startHost(50);
+    const sessionId = await initialize(address);
+
+    for (let waited = 0; host!.getSessionCounts().streamable > 0 && waited < 2000; waited += 25) {
+      await sleep(25);
+    }
+
+    expect(host!.getSessionCounts().streamable).toBe(0);
+    const response = await post(`${address}/mcp`, LIST_TOOLS, { 'mcp-session-id': sessionId });
+    expect(response.status).toBe(404);
+  });
+});
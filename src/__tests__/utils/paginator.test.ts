@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { Paginator } from '../../utils/paginator.js';
+
+function numberedList(count: number): string {
+  return Array.from({ length: count }, (_, i) => `${i + 1}. Item ${i + 1}`).join('\n');
+}
+
+describe('Paginator', () => {
+  it('should not paginate short content', () => {
+    const paginator = new Paginator();
+    const result = paginator.paginateText(numberedList(5));
+
+    expect(result.hasMore).toBe(false);
+    expect(result.cacheKey).toBeUndefined();
+    expect(result.totalItems).toBe(5);
+  });
+
+  it('should cache long content and serve the next page', () => {
+    const paginator = new Paginator();
+    const first = paginator.paginateText(numberedList(60));
+
+    expect(first.hasMore).toBe(true);
+    expect(first.cacheKey).toBeDefined();
+    expect(first.text).toContain('Showing 25 of 60 items');
+
+    const second = paginator.getNextPage(first.cacheKey!, 2);
+    expect(second.text).toContain('26. Item 26');
+    expect(second.text).not.toContain('25. Item 25');
+  });
+
+  it('should keep cache keys private to each instance', () => {
+    const sessionA = new Paginator();
+    const sessionB = new Paginator();
+    const { cacheKey } = sessionA.paginateText(numberedList(60));
+
+    expect(sessionA.getFullContent(cacheKey!)).toContain('60. Item 60');
+    expect(sessionB.getFullContent(cacheKey!)).toMatch(/^Error: Content not found/);
+    expect(sessionB.getNextPage(cacheKey!).text).toMatch(/^Error: Pagination session expired/);
+  });
+
+  it('should drop cached content on clear', () => {
+    const paginator = new Paginator();
+    const { cacheKey } = paginator.paginateText(numberedList(60));
+
+    paginator.clear();
+
+    expect(paginator.getFullContent(cacheKey!)).toMatch(/^Error: Content not found/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createRequestControl } from '../../utils/request-control.js';
+import { HttpClient } from '../../api/http/http-client.js';
+
+function createExtra(progressToken?: string) {
+  const controller = new AbortController();
+  const sendNotification = jest.fn(async (_notification: any) => undefined);
+  const extra = {
+    signal: controller.signal,
+    requestId: 1,
+    _meta: progressToken ? { progressToken } : undefined,
+    sendNotification,
+    sendRequest: jest.fn()
+  } as any;
+  return { controller, sendNotification, extra };
+}
+
+describe('createRequestControl', () => {
+  it('should send progress bound to the request token and throttle intermediate updates', async () => {
+    const { sendNotification, extra } = createExtra('token-1');
+    const control = createRequestControl(extra);
+
+    await control.reportProgress(1, 4, 'Searched UserStory');
+    await control.reportProgress(2, 4, 'Searched Bug');
+    await control.reportProgress(4, 4, 'Searched Feature');
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 4, total: 4, message: 'Searched Feature' }
+    });
+  });
+
+  it('should stay silent without a progress token or after cancellation', async () => {
+    const silent = createExtra();
+    await createRequestControl(silent.extra).reportProgress(1, 1);
+    expect(silent.sendNotification).not.toHaveBeenCalled();
+
+    const cancelled = createExtra('token-2');
+    cancelled.controller.abort();
+    await createRequestControl(cancelled.extra).reportProgress(1, 1);
+    expect(cancelled.sendNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('HttpClient.executeWithRetry', () => {
+  const client = new HttpClient(
+    { baseUrl: 'https://example.tpondemand.com/api/v1', retry: { maxRetries: 3, delayMs: 60000, backoffFactor: 2 } },
+    { type: 'apikey', token: 'test' }
+  );
+
+  it('should not start an operation once the request is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = jest.fn(async () => 'ok');
+
+    await expect(client.executeWithRetry(operation, 'GET Bugs', controller.signal)).rejects.toThrow(McpError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting between retries when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn(async () => {
+      throw new Error('status: 503');
+    });
+
+    const pending = client.executeWithRetry(operation, 'GET Bugs', controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Request cancelled by the client');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
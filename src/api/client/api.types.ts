@@ -1,8 +1,140 @@
 import { BaseEntityData } from '../../entities/base/base.types.js';
+import { WhereFilter } from '../query/where-filter.js';
 
 export interface ApiResponse<T> {
   Items?: T[];
   Next?: string;
+  Prev?: string;
+}
+
+/**
+ * Filters and paging for a collection query
+ */
+export interface EntitySearchQuery {
+  where?: string;
+  /** Structured conditions, combined with where using and */
+  filter?: WhereFilter;
+  include?: string[];
+  orderBy?: string[];
+  /** Items per request, at most 1000 */
+  take?: number;
+  /** Items to skip from the start of the result set */
+  skip?: number;
+}
+
+/**
+ * One page of a collection query
+ */
+export interface EntityPage<T> {
+  items: T[];
+  skip: number;
+  take: number;
+  /** True when the API returned a Next link */
+  hasMore: boolean;
+  /** skip value for the following page, when there is one */
+  nextSkip?: number;
+}
+
+/**
+ * API v2 collection query. Expressions use v2 syntax, e.g. entityState.isFinal==false
+ */
+export interface EntityV2Query {
+  /** Projection such as {id,name,bugs.count}; see SelectBuilder */
+  select?: string;
+  where?: string;
+  filter?: string;
+  orderBy?: string[];
+  /** Items per request, at most 1000 */
+  take?: number;
+  skip?: number;
+}
+
+export interface V2ApiResponse<T> {
+  items?: T[];
+  next?: string;
+  prev?: string;
+}
+
+interface EntityMetaSection {
+  Items?: Array<{ Name: string }>;
+}
+
+/**
+ * Response of {collection}/meta, describing an entity type's fields
+ */
+export interface EntityMetaResponse {
+  Name?: string;
+  ResourceMetadataPropertiesDescription?: {
+    ResourceMetadataPropertiesResourceValuesDescription?: EntityMetaSection;
+    ResourceMetadataPropertiesResourceReferencesDescription?: EntityMetaSection;
+    ResourceMetadataPropertiesResourceCollectionsDescription?: EntityMetaSection;
+  };
+}
+
+/**
+ * Number of items matching a query
+ */
+export interface EntityCount {
+  total: number;
+  /** False when counting stopped at the configured ceiling, so total is a lower bound */
+  exact: boolean;
+}
+
+export type AggregateGroupBy = 'state' | 'assignee' | 'project' | 'iteration';
+
+export type AggregateSumField = 'Effort' | 'EffortCompleted' | 'EffortToDo' | 'TimeSpent' | 'TimeRemain';
+
+/**
+ * Count, totals and breakdown of the entities matching a where clause
+ */
+export interface EntityAggregateQuery {
+  where?: string;
+  groupBy?: AggregateGroupBy;
+  sum?: AggregateSumField[];
+}
+
+export interface AggregateGroup {
+  /** Id of the state, user, project or iteration; null for items without one */
+  id: number | null;
+  name: string;
+  count: number;
+  sums: Partial<Record<AggregateSumField, number>>;
+}
+
+export interface EntityAggregate {
+  count: number;
+  sums: Partial<Record<AggregateSumField, number>>;
+  /** Largest groups first */
+  groups?: AggregateGroup[];
+  /** False when aggregation stopped at the configured ceiling */
+  exact: boolean;
+}
+
+export interface BulkUpdateItem {
+  id: number;
+  data: UpdateEntityRequest;
+}
+
+/**
+ * Outcome of one row of a bulk create or update, in input order
+ */
+export interface BulkItemResult<T> {
+  index: number;
+  success: boolean;
+  /** Id of the created or updated entity */
+  id?: number;
+  entity?: T;
+  error?: string;
+  /** Error code of a failed row, e.g. VALIDATION or FORBIDDEN */
+  errorCode?: string;
+  /** The request failed without an answer, so the row may have been saved anyway */
+  outcomeUnknown?: boolean;
+}
+
+export interface BulkResult<T> {
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult<T>[];
 }
 
 export interface ApiEntityResponse<T extends BaseEntityData> {
@@ -0,0 +1,198 @@
+import {
+  AggregateGroup,
+  AggregateGroupBy,
+  AggregateSumField,
+  EntityAggregate,
+  EntityAggregateQuery
+} from './api.types.js';
+
+interface GroupKey {
+  id: number | null;
+  name: string;
+}
+
+// Reference each group-by dimension reads, and the label for items without one
+const GROUP_BY_FIELDS: Record<AggregateGroupBy, { include: string; missing: string }> = {
+  state: { include: 'EntityState', missing: 'No state' },
+  assignee: { include: 'AssignedUser', missing: 'Unassigned' },
+  project: { include: 'Project', missing: 'No project' },
+  iteration: { include: 'Iteration', missing: 'No iteration' }
+};
+
+// The collection of each entity type on its project or iteration, for API v2 group queries
+const V2_GROUP_COLLECTIONS: Partial<Record<AggregateGroupBy, Record<string, string>>> = {
+  project: { UserStory: 'userStories', Bug: 'bugs', Task: 'tasks', Feature: 'features', Epic: 'epics', Request: 'requests' },
+  iteration: { UserStory: 'userStories', Bug: 'bugs', Task: 'tasks' }
+};
+
+/**
+ * An API v2 query on the entities a breakdown groups by, e.g. projects,
+ * totalling the matching items in their collection
+ */
+export interface V2GroupQuery {
+  type: string;
+  select: string;
+  where: string;
+}
+
+function v2Name(field: AggregateSumField): string {
+  return field.charAt(0).toLowerCase() + field.slice(1);
+}
+
+// count and sum aggregates over a collection, e.g. count:bugs.count(),effort:bugs.sum(effort)
+function v2Aggregates(query: EntityAggregateQuery, collection: string): string {
+  return [
+    `count:${collection}count()`,
+    ...(query.sum ?? []).map(field => `${v2Name(field)}:${collection}sum(${v2Name(field)})`)
+  ].join(',');
+}
+
+/**
+ * Accumulates counts, sums and group-by breakdowns over pages of entities
+ */
+export class EntityAggregator {
+  private count = 0;
+  private readonly sums: Partial<Record<AggregateSumField, number>> = {};
+  private readonly groups = new Map<string, AggregateGroup>();
+
+  constructor(private readonly query: EntityAggregateQuery) {
+    query.sum?.forEach(field => (this.sums[field] = 0));
+  }
+
+  /**
+   * Fields to include when fetching entities for this query
+   */
+  static includeFor(query: EntityAggregateQuery): string[] {
+    const include = ['Id', ...(query.sum ?? [])];
+    if (query.groupBy) {
+      include.push(GROUP_BY_FIELDS[query.groupBy].include);
+    }
+    return include;
+  }
+
+  /**
+   * API v2 result expression totalling the matching items, e.g. {count:count(),effort:sum(effort)}
+   */
+  static v2Result(query: EntityAggregateQuery): string {
+    return `{${v2Aggregates(query, '')}}`;
+  }
+
+  /**
+   * API v2 query for the query's breakdown of entities of the type matching
+   * where, or undefined when the breakdown has no such query
+   */
+  static v2GroupQuery(query: EntityAggregateQuery, type: string, where: string): V2GroupQuery | undefined {
+    const collection = query.groupBy && V2_GROUP_COLLECTIONS[query.groupBy]?.[type];
+    if (!collection) {
+      return undefined;
+    }
+    const matching = where ? `${collection}.where(${where})` : collection;
+    return {
+      type: GROUP_BY_FIELDS[query.groupBy!].include,
+      select: `{id,name,${v2Aggregates(query, `${matching}.`)}}`,
+      where: `${matching}.count()>0`
+    };
+  }
+
+  /**
+   * Build the aggregate from API v2 totals and groups, which are exact. Items
+   * outside every group make up the difference between the two.
+   */
+  static fromV2(query: EntityAggregateQuery, totals: Record<string, unknown>, groups?: Record<string, unknown>[]): EntityAggregate {
+    const aggregator = new EntityAggregator(query);
+    const sumsOf = (row: Record<string, unknown>) => Object.fromEntries(
+      (query.sum ?? []).map(field => [field, Number(row[v2Name(field)] ?? 0)])
+    ) as Partial<Record<AggregateSumField, number>>;
+
+    aggregator.count = Number(totals.count ?? 0);
+    Object.assign(aggregator.sums, sumsOf(totals));
+
+    if (query.groupBy && groups) {
+      const missing: AggregateGroup = { id: null, name: GROUP_BY_FIELDS[query.groupBy].missing, count: aggregator.count, sums: sumsOf(totals) };
+      for (const row of groups) {
+        const group: AggregateGroup = { id: Number(row.id), name: String(row.name ?? `${query.groupBy} ${row.id}`), count: Number(row.count ?? 0), sums: sumsOf(row) };
+        aggregator.groups.set(String(group.id), group);
+        missing.count -= group.count;
+        query.sum?.forEach(field => (missing.sums[field] = (missing.sums[field] ?? 0) - (group.sums[field] ?? 0)));
+      }
+      if (missing.count > 0) {
+        aggregator.groups.set('none', missing);
+      }
+    }
+    return aggregator.result(true);
+  }
+
+  add(items: Record<string, any>[]): void {
+    for (const item of items) {
+      this.count++;
+      this.addSums(this.sums, item);
+
+      if (this.query.groupBy) {
+        // An item assigned to several users counts towards each of them
+        for (const key of this.groupKeys(this.query.groupBy, item)) {
+          const id = key.id === null ? 'none' : String(key.id);
+          let group = this.groups.get(id);
+          if (!group) {
+            group = { ...key, count: 0, sums: {} };
+            this.query.sum?.forEach(field => (group!.sums[field] = 0));
+            this.groups.set(id, group);
+          }
+          group.count++;
+          this.addSums(group.sums, item);
+        }
+      }
+    }
+  }
+
+  result(exact: boolean): EntityAggregate {
+    const groups = this.query.groupBy
+      ? [...this.groups.values()]
+        .map(group => ({ ...group, sums: this.rounded(group.sums) }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      : undefined;
+
+    return {
+      count: this.count,
+      sums: this.rounded(this.sums),
+      ...(groups ? { groups } : {}),
+      exact
+    };
+  }
+
+  private addSums(sums: Partial<Record<AggregateSumField, number>>, item: Record<string, any>): void {
+    for (const field of this.query.sum ?? []) {
+      const value = item[field];
+      if (typeof value === 'number') {
+        sums[field] = (sums[field] ?? 0) + value;
+      }
+    }
+  }
+
+  private groupKeys(groupBy: AggregateGroupBy, item: Record<string, any>): GroupKey[] {
+    const { include, missing } = GROUP_BY_FIELDS[groupBy];
+    const value = item[include];
+
+    if (groupBy === 'assignee') {
+      const users: Record<string, any>[] = value?.Items ?? [];
+      return users.length > 0
+        ? users.map(user => ({ id: user.Id ?? null, name: this.userName(user) }))
+        : [{ id: null, name: missing }];
+    }
+
+    return value?.Id !== undefined
+      ? [{ id: value.Id, name: value.Name ?? `${include} ${value.Id}` }]
+      : [{ id: null, name: missing }];
+  }
+
+  private userName(user: Record<string, any>): string {
+    const fullName = [user.FirstName, user.LastName].filter(Boolean).join(' ');
+    return fullName || user.Login || `User ${user.Id}`;
+  }
+
+  // Effort and time are decimals; avoid reporting 0.30000000000000004
+  private rounded(sums: Partial<Record<AggregateSumField, number>>): Partial<Record<AggregateSumField, number>> {
+    return Object.fromEntries(
+      Object.entries(sums).map(([field, value]) => [field, Math.round((value ?? 0) * 100) / 100])
+    );
+  }
+}
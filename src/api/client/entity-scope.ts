@@ -0,0 +1,224 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+import { TPError } from '../http/http-error-handler.js';
+import { FilterCondition, WhereFilter } from '../query/where-filter.js';
+
+export interface TPScopeConfig {
+  /** Only these projects, and entities that belong to them, are visible */
+  projectIds?: number[];
+  /** Only these teams, and entities assigned to them, are visible */
+  teamIds?: number[];
+}
+
+// Types spanning every kind of work item, which a team scope cannot leave unlimited
+export const SPANNING_TYPES = ['general', 'assignable'];
+
+/**
+ * An entity type an include or v2 expression reaches, and whether the scope limits it
+ */
+export interface RelatedType {
+  type: string;
+  limited: boolean;
+}
+
+// v2 collection methods, which keep the collection they are called on as the context
+const V2_METHODS = new Set([
+  'select', 'where', 'count', 'sum', 'avg', 'average', 'min', 'max', 'any', 'all',
+  'first', 'last', 'orderby', 'orderbydescending', 'take', 'skip', 'distinct'
+]);
+const TOKEN = /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|[A-Za-z_]\w*|\S/g;
+const OPENING: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+function referenceId(data: object, reference: string): number | undefined {
+  return (data as Record<string, { Id?: number } | undefined>)[reference]?.Id;
+}
+
+/**
+ * The projects and teams a server is limited to.
+ *
+ * Projects and teams are limited by their own id; other entity types by
+ * their Project and Team fields, or those of the entity they belong to:
+ * comments and attachments by the project of their General, tasks by the
+ * team of their user story. Types that belong to an entity whose team cannot
+ * be checked are refused under a team scope. Types unrelated to projects and
+ * teams, such as users and entity states, are not limited, and neither are
+ * project-level types without a team, such as features, by a team scope.
+ * When the fields of a type are unknown every configured condition applies,
+ * so a query fails rather than leaks.
+ */
+export class EntityScope {
+  constructor(private readonly config: TPScopeConfig = {}) {}
+
+  get restricted(): boolean {
+    return this.config.projectIds !== undefined || this.config.teamIds !== undefined;
+  }
+
+  /**
+   * Conditions an entity of the type must meet, given the type's fields;
+   * empty when the type is not limited. Throws FORBIDDEN for a type the
+   * scope cannot be checked on.
+   */
+  conditionsFor(type: string, fields?: string[]): FilterCondition[] {
+    const { projectIds, teamIds } = this.config;
+    const name = type.toLowerCase();
+    if (name === 'project') {
+      return projectIds ? [{ field: 'Id', op: 'in', value: projectIds }] : [];
+    }
+    if (name === 'team') {
+      return teamIds ? [{ field: 'Id', op: 'in', value: teamIds }] : [];
+    }
+
+    const has = (field: string) => !fields || fields.some(known => known.toLowerCase() === field.toLowerCase());
+    const conditions: FilterCondition[] = [];
+    if (projectIds) {
+      const project = has('Project') ? 'Project' : has('General') ? 'General.Project' : undefined;
+      if (project) {
+        conditions.push({ field: `${project}.Id`, op: 'in', value: projectIds });
+      }
+    }
+    if (teamIds) {
+      const team = has('Team') ? 'Team' : has('UserStory') ? 'UserStory.Team' : undefined;
+      if (team) {
+        conditions.push({ field: `${team}.Id`, op: 'in', value: teamIds });
+      } else if (has('General') || SPANNING_TYPES.includes(name)) {
+        throw new TPError(
+          TPErrorType.AUTHORIZATION,
+          ErrorCode.InvalidRequest,
+          `${type} cannot be read or changed while this server is limited to teams ${teamIds.join(', ')}`,
+          { context: { entityType: type, timestamp: new Date() } }
+        );
+      }
+    }
+    return conditions;
+  }
+
+  /**
+   * The conditions as a filter to AND into a v1 where clause
+   */
+  filterFor(type: string, fields?: string[]): WhereFilter | undefined {
+    const conditions = this.conditionsFor(type, fields);
+    return conditions.length > 1 ? { and: conditions } : conditions[0];
+  }
+
+  /**
+   * The conditions as an API v2 where expression
+   */
+  v2WhereFor(type: string, fields?: string[]): string | undefined {
+    const conditions = this.conditionsFor(type, fields);
+    return conditions.length > 0
+      ? conditions.map(({ field, value }) => `${field} in [${(value as number[]).join(',')}]`).join(' and ')
+      : undefined;
+  }
+
+  /**
+   * Why an entity of the type may not be created with, or moved to, the
+   * project and team in the data; null when it may
+   */
+  assignmentRefusal(type: string, fields: string[] | undefined, data: object, creating: boolean): string | null {
+    for (const { field, value } of this.conditionsFor(type, fields)) {
+      const ids = (value as number[]).join(', ');
+      // A project or team created now could not be one of the allowed ids
+      if (field === 'Id') {
+        return creating ? `New ${type}s cannot be created while this server is limited to ${type.toLowerCase()}s ${ids}` : null;
+      }
+      const [reference, ...through] = field.split('.');
+      const id = referenceId(data, reference);
+      // The entity belongs to another one, whose scope the service checks
+      if (through.length > 1) {
+        if (id === undefined && creating) {
+          return `${type} must name the ${reference} it belongs to while this server is limited to projects or teams`;
+        }
+        continue;
+      }
+      if (id === undefined ? creating : !(value as number[]).includes(id)) {
+        return `${type} must belong to one of the ${reference.toLowerCase()}s this server is limited to: ${ids}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Entities named in the data that the entity belongs to and takes its
+   * scope from, such as the General of a comment or the user story of a task
+   */
+  ownersIn(type: string, fields: string[] | undefined, data: object): Array<{ type: string; id: number }> {
+    return this.conditionsFor(type, fields)
+      .map(({ field }) => field.split('.'))
+      .filter(path => path.length > 2)
+      .flatMap(([reference]) => {
+        const id = referenceId(data, reference);
+        return id === undefined ? [] : [{ type: reference, id }];
+      });
+  }
+
+  /**
+   * Why the related entities that a v1 include list or a v2 select or where
+   * expression reaches from the type may lie outside the scope; null when
+   * they cannot. Entities related to one the scope limits belong to it, like
+   * the tasks of a user story in scope; those related to one it doesn't
+   * limit may not, like the assignables of a user, so reaching a limited
+   * type from there is refused. Names that are no entity type, such as
+   * values, are allowed, and what they lead to counts as unlimited.
+   */
+  async relationRefusal(
+    type: string,
+    expression: string,
+    relate: (name: string) => Promise<RelatedType | undefined>
+  ): Promise<string | null> {
+    const root = (await relate(type)) ?? { type, limited: false };
+    const tokens = expression.match(TOKEN) ?? [];
+    // Each open bracket keeps the entity its contents refer to, and the chain to resume after it
+    const stack: Array<{ context: RelatedType; resume?: RelatedType; close: string }> = [];
+    let node: RelatedType | undefined;
+    let member = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const context = stack.length > 0 ? stack[stack.length - 1].context : root;
+      if (/^[A-Za-z_]/.test(token)) {
+        // Alias in a v2 projection, e.g. {storyName: name}
+        if (tokens[i + 1] === ':') {
+          continue;
+        }
+        if (member && node && V2_METHODS.has(token.toLowerCase())) {
+          member = false;
+          continue;
+        }
+        const parent = member && node ? node : context;
+        const related = await relate(token);
+        if (related?.limited && !parent.limited) {
+          return `${token} cannot be read through ${parent.type} while this server is limited to ${this.describe()}, ` +
+            `as it could reach ${related.type} entities outside them`;
+        }
+        node = related ?? { type: token, limited: false };
+        member = false;
+      } else if (token === '.') {
+        member = true;
+      } else if (OPENING[token]) {
+        stack.push({ context: token === '{' || !node ? context : node, resume: node, close: OPENING[token] });
+        node = undefined;
+        member = false;
+      } else if (stack.length > 0 && token === stack[stack.length - 1].close) {
+        node = stack.pop()!.resume;
+        member = false;
+      } else {
+        node = undefined;
+        member = false;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The scope in words, e.g. for the startup report
+   */
+  describe(): string {
+    const { projectIds, teamIds } = this.config;
+    if (!this.restricted) {
+      return 'all projects and teams';
+    }
+    return [projectIds && `projects ${projectIds.join(', ')}`, teamIds && `teams ${teamIds.join(', ')}`]
+      .filter(Boolean)
+      .join(' and ');
+  }
+}
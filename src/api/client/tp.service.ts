@@ -1,21 +1,57 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { URLSearchParams } from 'node:url';
 import { AssignableEntityData } from '../../entities/assignable/assignable.entity.js';
 import { UserStoryData } from '../../entities/assignable/user-story.entity.js';
-import { ApiResponse, CreateEntityRequest, UpdateEntityRequest } from './api.types.js';
+import {
+  ApiResponse,
+  BulkItemResult,
+  BulkResult,
+  BulkUpdateItem,
+  CreateEntityRequest,
+  EntityAggregate,
+  EntityAggregateQuery,
+  EntityCount,
+  EntityMetaResponse,
+  EntityPage,
+  EntitySearchQuery,
+  EntityV2Query,
+  UpdateEntityRequest,
+  V2ApiResponse
+} from './api.types.js';
 import { EntityRegistry, EntityCategory } from '../../core/entity-registry.js';
 import { logger } from '../../utils/logger.js';
-import { HttpClient, AuthConfig } from '../http/http-client.js';
-import { QueryBuilder } from '../query/query-builder.js';
+import { HttpClient, AuthConfig, RetryConfig } from '../http/http-client.js';
+import { OAuthConfig, OAuthTokenProvider } from '../http/access-token.js';
+import { ResponseCache, ResponseCacheConfig } from '../http/response-cache.js';
+import { RequestThrottle, RequestThrottleConfig } from '../http/request-throttle.js';
+import { QueryBuilder, validateWhereClause } from '../query/query-builder.js';
+import { WhereClauseError, parseWhere, toV2Where } from '../query/where-parser.js';
+import { WhereFilter, compileFilter } from '../query/where-filter.js';
+import { UnknownWhereField, findUnknownFields, similarFields } from '../query/where-validator.js';
+import { V2QueryBuilder } from '../query/v2-query-builder.js';
 import { EntityValidator } from '../validation/entity-validator.js';
 import { CommentService, CommentData } from '../comments/comment.service.js';
+import { EntityAggregator } from './entity-aggregator.js';
+import { EntityScope, RelatedType, SPANNING_TYPES, TPScopeConfig } from './entity-scope.js';
+import { throwIfAborted } from '../../utils/request-control.js';
+import { TPError, errorMessage, toTPError } from '../http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+
+export interface TPPaginationConfig {
+  /** Most items a single search may return or count by following Next links */
+  maxResults: number;
+}
 
 interface TPServiceCommonConfig {
   domain: string;
-  retry?: {
-    maxRetries: number;
-    delayMs: number;
-    backoffFactor: number;
-  };
+  retry?: RetryConfig;
+  pagination?: TPPaginationConfig;
+  /** GET response caching; off when omitted. The configuration service enables it unless TP_CACHE_ENABLED=false */
+  cache?: ResponseCacheConfig;
+  /** Client-side rate and concurrency limits, shared by all sessions on the domain */
+  throttle?: RequestThrottleConfig;
+  /** Projects and teams every request is limited to; unlimited when unset */
+  scope?: TPScopeConfig;
 }
 
 interface TPServiceApiKeyConfig extends TPServiceCommonConfig {
@@ -29,10 +65,78 @@ interface TPServiceBasicAuthConfig extends TPServiceCommonConfig {
   };
 }
 
-export type TPServiceConfig = TPServiceApiKeyConfig | TPServiceBasicAuthConfig;
+/** TargetProcess personal access token, sent as a bearer token rather than in the URL */
+interface TPServiceAccessTokenConfig extends TPServiceCommonConfig {
+  accessToken: string;
+}
+
+/** Bearer tokens from an OAuth2 token endpoint, renewed as they expire */
+interface TPServiceOAuthConfig extends TPServiceCommonConfig {
+  oauth: OAuthConfig;
+}
+
+export type TPServiceConfig =
+  | TPServiceApiKeyConfig
+  | TPServiceBasicAuthConfig
+  | TPServiceAccessTokenConfig
+  | TPServiceOAuthConfig;
+
+/**
+ * Per-call controls for requests made on behalf of an MCP tool call
+ */
+export interface TPRequestOptions {
+  /** Aborts in-flight HTTP calls and pending retries when the client cancels */
+  signal?: AbortSignal;
+  /** Called as attachment bytes arrive */
+  onDownloadProgress?: (receivedBytes: number, totalBytes?: number) => void;
+  /** Ask TargetProcess even when a cached response has not expired, e.g. when polling for changes */
+  fresh?: boolean;
+}
+
+// The v1 API rejects larger pages
+const API_MAX_PAGE_SIZE = 1000;
+// Items sent per bulk POST
+const BULK_BATCH_SIZE = 50;
+
+export const DEFAULT_PAGINATION_CONFIG: TPPaginationConfig = { maxResults: 5000 };
 
-function isApiKeyConfig(config: TPServiceConfig): config is TPServiceApiKeyConfig {
-  return (config as TPServiceApiKeyConfig).apiKey !== undefined;
+/**
+ * How requests authenticate, and a stable identity for the credentials
+ * (an OAuth access token changes on every renewal) to key cached responses by
+ */
+function resolveAuth(config: TPServiceConfig): { auth: AuthConfig; identity: string } {
+  if ('accessToken' in config) {
+    return { auth: { type: 'bearer', token: config.accessToken }, identity: config.accessToken };
+  }
+  if ('oauth' in config) {
+    const { tokenUrl, clientId, refreshToken } = config.oauth;
+    return {
+      auth: { type: 'bearer', token: '', tokenProvider: new OAuthTokenProvider({ timeoutMs: config.retry?.timeoutMs, ...config.oauth }) },
+      identity: `${tokenUrl} ${clientId} ${refreshToken ?? ''}`
+    };
+  }
+  if ('apiKey' in config) {
+    return { auth: { type: 'apikey', token: config.apiKey }, identity: config.apiKey };
+  }
+  const token = Buffer.from(`${config.credentials.username}:${config.credentials.password}`).toString('base64');
+  return { auth: { type: 'basic', token }, identity: token };
+}
+
+// TargetProcess words this differently across versions and API generations
+const UNKNOWN_PROPERTY_PATTERNS = [
+  /(?:property|field|member)\s+['"]?([\w.]+)['"]?\s+(?:does not exist|doesn't exist|was not found|is not found|not found|is unknown|is not defined)/i,
+  /(?:unknown|could not find|cannot find|can't find|no such|invalid)\s+(?:property|field|member)\s+['"]?([\w.]+)/i
+];
+
+/**
+ * The field a failed query complained about, if the error names one
+ */
+function unknownPropertyIn(message: string): string | undefined {
+  for (const pattern of UNKNOWN_PROPERTY_PATTERNS) {
+    const match = pattern.exec(message);
+    if (match) return match[1];
+  }
+  return undefined;
 }
 
 /**
@@ -42,30 +146,45 @@ function isApiKeyConfig(config: TPServiceConfig): config is TPServiceApiKeyConfi
 export class TPService {
   private readonly httpClient: HttpClient;
   private readonly queryBuilder: QueryBuilder;
+  private readonly v2HttpClient: HttpClient;
+  private readonly v2QueryBuilder: V2QueryBuilder;
   private readonly entityValidator: EntityValidator;
   private readonly commentService: CommentService;
+  private readonly maxResults: number;
+  private readonly scope: EntityScope;
+  // Field names per entity type, which only change when an administrator adds custom fields
+  private readonly entityFields = new Map<string, string[]>();
 
   constructor(config: TPServiceConfig) {
+    this.maxResults = config.pagination?.maxResults ?? DEFAULT_PAGINATION_CONFIG.maxResults;
+    this.scope = new EntityScope(config.scope);
+
     // Setup authentication configuration
-    const authConfig: AuthConfig = isApiKeyConfig(config)
-      ? {
-          type: 'apikey',
-          token: config.apiKey
-        }
-      : {
-          type: 'basic',
-          token: Buffer.from(`${config.credentials.username}:${config.credentials.password}`).toString('base64')
-        };
+    const { auth: authConfig, identity } = resolveAuth(config);
 
     // Initialize HTTP client
+    const baseUrl = `https://${config.domain}/api/v1`;
+    const throttle = config.throttle ? RequestThrottle.forDomain(config.domain, config.throttle) : undefined;
     this.httpClient = new HttpClient({
-      baseUrl: `https://${config.domain}/api/v1`,
-      retry: config.retry
+      baseUrl,
+      retry: config.retry,
+      cache: config.cache?.enabled
+        ? new ResponseCache(config.cache, baseUrl, identity, ResponseCache.storesFor(baseUrl, config.cache))
+        : undefined,
+      throttle
     }, authConfig);
 
     // Initialize query builder
     this.queryBuilder = new QueryBuilder(authConfig);
 
+    // API v2 lives beside v1 and is used for select projections and aggregates
+    this.v2HttpClient = new HttpClient({
+      baseUrl: `https://${config.domain}/api/v2`,
+      retry: config.retry,
+      throttle
+    }, authConfig);
+    this.v2QueryBuilder = new V2QueryBuilder(authConfig);
+
     // Initialize entity validator with callback to fetch entity types
     this.entityValidator = new EntityValidator(() => this.getValidEntityTypes());
 
@@ -73,51 +192,575 @@ export class TPService {
     this.commentService = new CommentService({
       executeWithRetry: this.httpClient.executeWithRetry.bind(this.httpClient),
       handleApiResponse: this.httpClient.handleApiResponse.bind(this.httpClient),
-      getHeaders: () => this.getHeaders(),
+      getHeaders: async () => await this.getHeaders(),
       baseUrl: this.httpClient.getBaseUrl(),
       entityValidator: this.entityValidator
     });
   }
 
   /**
-   * Search entities with filtering and includes
+   * Search entities with filtering and includes.
+   * Takes above the API page size are collected by following Next links, up to the configured ceiling.
    */
   async searchEntities<T>(
     type: string,
     where?: string,
     include?: string[],
     take: number = 25,
-    orderBy?: string[]
+    orderBy?: string[],
+    options: TPRequestOptions = {}
   ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.iterateEntities<T>(type, { where, include, orderBy, take }, { ...options, maxItems: take })) {
+      items.push(...page);
+    }
+    return items;
+  }
+
+  /**
+   * Fetch a single page of entities with skip/take paging
+   */
+  async searchEntitiesPage<T>(
+    type: string,
+    query: EntitySearchQuery = {},
+    options: TPRequestOptions = {}
+  ): Promise<EntityPage<T>> {
+    const take = Math.min(query.take ?? 25, API_MAX_PAGE_SIZE);
+    const skip = query.skip ?? 0;
+
+    try {
+      const data = await this.httpClient.get<ApiResponse<T>>(
+        await this.buildSearchEndpoint(type, { ...query, take, skip }),
+        undefined,
+        options.signal,
+        options.fresh
+      );
+      const items = data.Items || [];
+      const hasMore = !!data.Next && items.length > 0;
+
+      return {
+        items,
+        skip,
+        take,
+        hasMore,
+        nextSkip: hasMore ? skip + items.length : undefined
+      };
+    } catch (error) {
+      throw await this.toSearchError(type, error, query.where);
+    }
+  }
+
+  /**
+   * Fetch a page of entities through API v2, which supports select projections
+   * with computed fields such as {id,name,bugs.count} in a single request
+   */
+  async searchEntitiesV2<T = Record<string, unknown>>(
+    type: string,
+    query: EntityV2Query = {},
+    options: TPRequestOptions = {}
+  ): Promise<EntityPage<T>> {
+    const take = Math.min(query.take ?? 25, API_MAX_PAGE_SIZE);
+    const skip = query.skip ?? 0;
+
     try {
-      // Validate entity type
       const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
-      
-      // Build query using QueryBuilder
-      const queryString = this.queryBuilder
+      const scopeWhere = this.scope.restricted ? this.scope.v2WhereFor(validatedType, await this.fieldsForScope(validatedType)) : undefined;
+      await this.assertRelationsInScope(validatedType, query.select);
+      await this.assertRelationsInScope(validatedType, query.where);
+      const queryString = this.v2QueryBuilder
         .reset()
-        .format('json')
+        .select(query.select || '')
+        .where(query.where || '')
+        .andWhere(scopeWhere)
+        .filter(query.filter || '')
+        .orderBy(query.orderBy || [])
         .take(take)
-        .where(where || '')
-        .include(include || [])
-        .orderBy(orderBy || [])
+        .skip(skip)
         .buildQueryString();
 
-      // Get the appropriate endpoint
-      const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
-      
-      // Make the request
-      const data = await this.httpClient.get<ApiResponse<T>>(`${endpoint}?${queryString}`);
-      return data.Items || [];
+      const data = await this.v2HttpClient.get<V2ApiResponse<T>>(
+        `${validatedType}?${queryString}`,
+        undefined,
+        options.signal
+      );
+      const items = data.items || [];
+      const hasMore = !!data.next && items.length > 0;
+
+      return {
+        items,
+        skip,
+        take,
+        hasMore,
+        nextSkip: hasMore ? skip + items.length : undefined
+      };
     } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
+      throw await this.toSearchError(type, error);
+    }
+  }
+
+  /**
+   * Iterate over all matching entities a page at a time, following the API's Next links.
+   * Stops after maxItems (capped by the configured ceiling) items.
+   */
+  async *iterateEntities<T>(
+    type: string,
+    query: EntitySearchQuery = {},
+    options: TPRequestOptions & { maxItems?: number } = {}
+  ): AsyncGenerator<T[]> {
+    const limit = Math.min(options.maxItems ?? this.maxResults, this.maxResults);
+    for await (const page of this.followPages<T>(type, query, limit, options)) {
+      yield page.items;
+    }
+  }
+
+  /**
+   * Count entities matching a where clause or filter with a single API v2 query.
+   * Clauses v2 cannot express are counted by paging through the ids, which stops
+   * at the configured ceiling, in which case the total is a lower bound.
+   */
+  async countEntities(
+    type: string,
+    where?: string | Pick<EntitySearchQuery, 'where' | 'filter'>,
+    options: TPRequestOptions = {}
+  ): Promise<EntityCount> {
+    const conditions = typeof where === 'object' ? where : { where };
+    const aggregate = await this.aggregateThroughV2(type, conditions, {}, options);
+    if (aggregate) {
+      return { total: aggregate.count, exact: true };
+    }
+    return this.countByPaging(type, conditions, options);
+  }
+
+  private async countByPaging(
+    type: string,
+    conditions: Pick<EntitySearchQuery, 'where' | 'filter'>,
+    options: TPRequestOptions
+  ): Promise<EntityCount> {
+    let total = 0;
+    let truncated = false;
+    const query = { ...conditions, include: ['Id'], take: API_MAX_PAGE_SIZE };
+
+    for await (const page of this.followPages<{ Id: number }>(type, query, this.maxResults, options)) {
+      total += page.items.length;
+      truncated = page.truncated;
+    }
+    return { total, exact: !truncated };
+  }
+
+  /**
+   * Count matching entities, optionally summing effort/time fields and grouping by
+   * state, assignee, project or iteration. API v2 answers in one or two requests;
+   * otherwise pages through only the fields needed, up to the configured ceiling.
+   */
+  async aggregateEntities(
+    type: string,
+    query: EntityAggregateQuery = {},
+    options: TPRequestOptions = {}
+  ): Promise<EntityAggregate> {
+    const aggregate = await this.aggregateThroughV2(type, { where: query.where }, query, options);
+    if (aggregate) {
+      return aggregate;
+    }
+    if (!query.groupBy && !query.sum?.length) {
+      const { total, exact } = await this.countByPaging(type, { where: query.where }, options);
+      return { count: total, sums: {}, exact };
+    }
+
+    const aggregator = new EntityAggregator(query);
+    const pageQuery = { where: query.where, include: EntityAggregator.includeFor(query), take: API_MAX_PAGE_SIZE };
+    let truncated = false;
+
+    for await (const page of this.followPages<Record<string, any>>(type, pageQuery, this.maxResults, options)) {
+      aggregator.add(page.items);
+      truncated = page.truncated;
+    }
+    return aggregator.result(!truncated);
+  }
+
+  /**
+   * Aggregate with API v2 result and group queries. Undefined when the
+   * conditions or breakdown have no v2 equivalent, or v2 fails, so the caller
+   * pages through the entities instead.
+   */
+  private async aggregateThroughV2(
+    type: string,
+    conditions: Pick<EntitySearchQuery, 'where' | 'filter'>,
+    query: EntityAggregateQuery,
+    options: TPRequestOptions
+  ): Promise<EntityAggregate | undefined> {
+    // The v1 endpoint checks the fields and applies the filter and the scope,
+    // so the v2 query matches exactly what paging would have counted
+    let validatedType: string;
+    let where: string | undefined;
+    try {
+      validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+      const endpoint = await this.buildSearchEndpoint(validatedType, conditions);
+      const v1Where = new URLSearchParams(endpoint.split('?')[1]).get('where');
+      where = v1Where ? toV2Where(parseWhere(v1Where)) : '';
+    } catch (error) {
+      throw await this.toSearchError(type, error, conditions.where);
+    }
+
+    // Group queries read the projects or iterations themselves, which the scope may limit
+    const groupQuery = query.groupBy && where !== undefined ? EntityAggregator.v2GroupQuery(query, validatedType, where) : undefined;
+    if (where === undefined || (query.groupBy && (!groupQuery || this.scope.restricted))) {
+      return undefined;
+    }
+
+    try {
+      const totals = await this.v2HttpClient.get<Record<string, unknown>>(
+        `${validatedType}?${this.v2QueryBuilder.reset().where(where).result(EntityAggregator.v2Result(query)).buildQueryString()}`,
+        undefined,
+        options.signal
+      );
+      if (!groupQuery) {
+        return EntityAggregator.fromV2(query, totals);
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to search ${type}s: ${error instanceof Error ? error.message : String(error)}`
+      const groups = await this.v2HttpClient.get<V2ApiResponse<Record<string, unknown>>>(
+        `${groupQuery.type}?${this.v2QueryBuilder.reset().select(groupQuery.select).where(groupQuery.where).take(API_MAX_PAGE_SIZE).buildQueryString()}`,
+        undefined,
+        options.signal
       );
+      return groups.next ? undefined : EntityAggregator.fromV2(query, totals, groups.items ?? []);
+    } catch (error) {
+      throwIfAborted(options.signal);
+      logger.warn(`API v2 could not aggregate ${validatedType}, paging through the entities instead:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Request the first page, then follow Next links until limit items have been returned
+   */
+  private async *followPages<T>(
+    type: string,
+    query: EntitySearchQuery,
+    limit: number,
+    options: TPRequestOptions
+  ): AsyncGenerator<{ items: T[]; truncated: boolean }> {
+    if (limit <= 0) {
+      return;
+    }
+
+    try {
+      const take = Math.min(query.take ?? API_MAX_PAGE_SIZE, limit, API_MAX_PAGE_SIZE);
+      let data = await this.httpClient.get<ApiResponse<T>>(
+        await this.buildSearchEndpoint(type, { ...query, take }),
+        undefined,
+        options.signal,
+        options.fresh
+      );
+      let returned = 0;
+
+      for (;;) {
+        const pageItems = data.Items || [];
+        const items = pageItems.slice(0, limit - returned);
+        returned += items.length;
+
+        const truncated = returned >= limit && (items.length < pageItems.length || !!data.Next);
+        if (items.length > 0) {
+          yield { items, truncated };
+        }
+        if (!data.Next || pageItems.length === 0 || returned >= limit) {
+          return;
+        }
+
+        data = await this.httpClient.getLink<ApiResponse<T>>(data.Next, options.signal, options.fresh);
+      }
+    } catch (error) {
+      throw await this.toSearchError(type, error, query.where);
+    }
+  }
+
+  /**
+   * Build the collection endpoint and query string for a search
+   */
+  private async buildSearchEndpoint(type: string, query: EntitySearchQuery): Promise<string> {
+    const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+    if (query.filter) {
+      await this.checkFilterFields(validatedType, query.filter);
+    }
+    await this.assertRelationsInScope(validatedType, query.include?.join(','));
+
+    const queryString = this.queryBuilder
+      .reset()
+      .format('json')
+      .take(query.take ?? 25)
+      .skip(query.skip ?? 0)
+      .where(query.where || '')
+      .filter(query.filter)
+      .filter(await this.scopeFilter(validatedType))
+      .include(query.include || [])
+      .orderBy(query.orderBy || [])
+      .buildQueryString();
+
+    return `${this.entityValidator.getEndpointForEntityType(validatedType)}?${queryString}`;
+  }
+
+  /**
+   * The scope conditions for a search of the type, combined with the query's
+   * own at the syntax tree level so no where clause can step outside them
+   */
+  private async scopeFilter(type: string): Promise<WhereFilter | undefined> {
+    return this.scope.restricted ? this.scope.filterFor(type, await this.fieldsForScope(type)) : undefined;
+  }
+
+  /**
+   * Fields of the type for deciding which scope conditions apply, or
+   * undefined to apply them all when the metadata is unavailable
+   */
+  private async fieldsForScope(type: string): Promise<string[] | undefined> {
+    try {
+      const fields = await this.getEntityFields(type);
+      return fields.length > 0 ? fields : undefined;
+    } catch (metaError) {
+      logger.debug(`Could not load fields of ${type}, applying every scope condition:`, metaError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Refuse includes and v2 expressions that reach entities the scope limits
+   * from ones it doesn't, such as the assignables of a user
+   */
+  private async assertRelationsInScope(type: string, expression?: string): Promise<void> {
+    if (!this.scope.restricted || !expression) {
+      return;
+    }
+    const refusal = await this.scope.relationRefusal(type, expression, name => this.relatedType(name));
+    if (refusal) {
+      throw new TPError(TPErrorType.AUTHORIZATION, ErrorCode.InvalidRequest, refusal, {
+        context: { entityType: type, timestamp: new Date() }
+      });
+    }
+  }
+
+  /**
+   * The entity type a field or collection name refers to, e.g. UserStory for
+   * userStories, and whether the scope limits it
+   */
+  private async relatedType(name: string): Promise<RelatedType | undefined> {
+    const capitalized = name.charAt(0).toUpperCase() + name.slice(1);
+    for (const candidate of new Set([capitalized, capitalized.replace(/ies$/, 'y'), capitalized.replace(/s$/, '')])) {
+      if (SPANNING_TYPES.includes(candidate.toLowerCase()) || (await this.entityValidator.validateEntityType(candidate)).isValid) {
+        try {
+          return { type: candidate, limited: this.scope.conditionsFor(candidate, await this.fieldsForScope(candidate)).length > 0 };
+        } catch {
+          // Types the scope cannot be checked on are out of reach altogether
+          return { type: candidate, limited: true };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Ids among the given ones of entities inside the scope
+   */
+  private async idsInScope(type: string, ids: number[], signal?: AbortSignal): Promise<Set<number>> {
+    const found = new Set<number>();
+    if (ids.length === 0) {
+      return found;
+    }
+    const query = { where: `Id in (${ids.join(',')})`, include: ['Id'] };
+    for await (const page of this.followPages<{ Id: number }>(type, query, ids.length, { signal })) {
+      page.items.forEach(item => found.add(item.Id));
+    }
+    return found;
+  }
+
+  /**
+   * Throw NOT_FOUND for an entity outside the projects and teams the server
+   * is limited to, the same as for one that doesn't exist
+   */
+  private async assertInScope(type: string, id: number, signal?: AbortSignal): Promise<void> {
+    if (!this.scope.restricted || (await this.idsInScope(type, [id], signal)).has(id)) {
+      return;
+    }
+    throw new TPError(
+      TPErrorType.NOT_FOUND,
+      ErrorCode.InvalidRequest,
+      `${type} ${id} was not found in the projects and teams this server is limited to`,
+      { context: { entityType: type, entityId: id, timestamp: new Date() } }
+    );
+  }
+
+  /**
+   * assertInScope for an entity known only by id, such as the one a comment or attachment belongs to
+   */
+  private async assertGeneralInScope(id: number | undefined, signal?: AbortSignal): Promise<void> {
+    if (!this.scope.restricted) {
+      return;
+    }
+    if (id === undefined) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Cannot tell which entity this belongs to, so it is outside the server scope');
+    }
+    const general = await this.httpClient.get<{ EntityType?: { Name?: string } }>(
+      `Generals/${id}?format=json&include=[EntityType]`,
+      undefined,
+      signal
+    );
+    await this.assertInScope(general.EntityType?.Name ?? 'General', id, signal);
+  }
+
+  /**
+   * Refuse creating an entity in, or moving one to, a project or team outside the scope
+   */
+  private async assertAssignmentInScope(type: string, data: object, creating: boolean): Promise<void> {
+    const refusal = await this.assignmentRefusal(type, data, creating);
+    if (refusal) {
+      throw new TPError(TPErrorType.AUTHORIZATION, ErrorCode.InvalidRequest, refusal, {
+        context: { entityType: type, timestamp: new Date() }
+      });
+    }
+  }
+
+  private async assignmentRefusal(type: string, data: object, creating: boolean): Promise<string | null> {
+    if (!this.scope.restricted) {
+      return null;
+    }
+    const fields = await this.fieldsForScope(type);
+    const refusal = this.scope.assignmentRefusal(type, fields, data, creating);
+    if (refusal) {
+      return refusal;
+    }
+
+    // A comment, attachment or task is in scope when what it belongs to is
+    for (const owner of this.scope.ownersIn(type, fields, data)) {
+      try {
+        if (owner.type === 'General') {
+          await this.assertGeneralInScope(owner.id);
+        } else {
+          await this.assertInScope(owner.type, owner.id);
+        }
+      } catch (error) {
+        if (error instanceof TPError && error.type === TPErrorType.NOT_FOUND) {
+          return error.message;
+        }
+        throw error;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The projects and teams this service is limited to
+   */
+  getScope(): EntityScope {
+    return this.scope;
+  }
+
+  /**
+   * Reject filters naming fields the entity type doesn't have, before TargetProcess
+   * does it with a less helpful message. Skipped when the metadata is unavailable.
+   */
+  private async checkFilterFields(type: string, filter: WhereFilter): Promise<void> {
+    const node = compileFilter(filter);
+
+    let fields: string[];
+    try {
+      fields = await this.getEntityFields(type);
+    } catch (metaError) {
+      logger.debug(`Could not load fields of ${type} to check the filter:`, metaError);
+      return;
+    }
+    if (fields.length === 0) {
+      return;
+    }
+
+    // Filters carry no positions, so a field used twice is reported once
+    const unknown = [...new Map(findUnknownFields(node, fields).map(item => [item.field, item])).values()];
+    if (unknown.length === 0) {
+      return;
+    }
+
+    throw new TPError(
+      TPErrorType.INVALID_QUERY,
+      ErrorCode.InvalidParams,
+      `Filter refers to fields ${type} does not have: ${unknown.map(({ field }) => field).join(', ')}`,
+      { context: { entityType: type, timestamp: new Date() } }
+    ).withSuggestions([
+      ...unknown
+        .filter(({ candidates }) => candidates.length > 0)
+        .map(({ field, candidates }) => `Did you mean ${candidates.join(' or ')} instead of ${field}?`),
+      `Valid fields for ${type}: ${fields.join(', ')}`
+    ]);
+  }
+
+  /**
+   * Parse and normalize a v1 where clause, e.g. to check it before running a query
+   */
+  validateWhereClause(where: string): string {
+    return validateWhereClause(where);
+  }
+
+  /**
+   * Errors from search requests keep their classification. A query naming a
+   * field the entity type doesn't have gets the valid field list as a suggestion.
+   */
+  private async toSearchError(type: string, error: unknown, where?: string): Promise<McpError> {
+    if (error instanceof TPError && error.type === TPErrorType.INVALID_QUERY) {
+      return await this.withFieldSuggestions(type, error, where);
+    }
+    if (error instanceof McpError) {
+      return error;
+    }
+    return toTPError(error).withMessage(`Failed to search ${type}s: ${errorMessage(error)}`);
+  }
+
+  /**
+   * Check the fields of the where clause, or the one the error names, against
+   * the entity metadata and point out the ones that don't exist
+   */
+  private async withFieldSuggestions(type: string, error: TPError, where?: string): Promise<TPError> {
+    const property = unknownPropertyIn(error.message);
+    // A syntax error from our own parser has nothing to do with field names
+    if (!property && (!where || error.context?.position !== undefined)) {
+      return error;
+    }
+
+    let fields: string[];
+    try {
+      fields = await this.getEntityFields(type);
+    } catch (metaError) {
+      logger.debug(`Could not load fields of ${type} for error suggestions:`, metaError);
+      return error;
+    }
+    if (fields.length === 0) {
+      return error;
+    }
+
+    const unknown = this.unknownFieldsOf(where, fields);
+    if (unknown.length === 0 && property) {
+      const root = property.split('.')[0];
+      if (!fields.some(field => field.toLowerCase() === root.toLowerCase())) {
+        unknown.push({ field: property, position: -1, candidates: similarFields(root, fields) });
+      }
+    }
+    if (unknown.length === 0) {
+      return error;
+    }
+
+    return error.withSuggestions([
+      ...unknown.map(({ field, position, candidates }) => {
+        const location = position >= 0 ? ` at position ${position + 1}` : '';
+        const guess = candidates.length > 0 ? `; did you mean ${candidates.join(' or ')}?` : '.';
+        return `Unknown field ${field}${location}${guess}`;
+      }),
+      `Valid fields for ${type}: ${fields.join(', ')}`
+    ]);
+  }
+
+  private unknownFieldsOf(where: string | undefined, fields: string[]): UnknownWhereField[] {
+    if (!where) {
+      return [];
+    }
+    try {
+      return findUnknownFields(parseWhere(where), fields);
+    } catch (parseError) {
+      if (parseError instanceof WhereClauseError) return [];
+      throw parseError;
     }
   }
 
@@ -127,7 +770,8 @@ export class TPService {
   async getEntity<T>(
     type: string,
     id: number,
-    include?: string[]
+    include?: string[],
+    options: TPRequestOptions = {}
   ): Promise<T> {
     try {
       // Validate entity type and ID
@@ -136,6 +780,8 @@ export class TPService {
       if (!idValidation.isValid) {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
+      await this.assertInScope(validatedType, id, options.signal);
+      await this.assertRelationsInScope(validatedType, include?.join(','));
 
       // Build query using QueryBuilder
       const queryString = this.queryBuilder
@@ -148,8 +794,12 @@ export class TPService {
       const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
       
       // Make the request
-      return await this.httpClient.get<T>(`${endpoint}/${id}?${queryString}`);
+      return await this.httpClient.get<T>(`${endpoint}/${id}?${queryString}`, undefined, options.signal);
     } catch (error) {
+      // An unknown include is reported like a bad where clause
+      if (error instanceof TPError && error.type === TPErrorType.INVALID_QUERY) {
+        throw await this.withFieldSuggestions(type, error);
+      }
       if (error instanceof McpError) {
         throw error;
       }
@@ -171,6 +821,7 @@ export class TPService {
     try {
       // Validate entity type
       const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+      await this.assertAssignmentInScope(validatedType, data, true);
 
       // Get the appropriate endpoint
       const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
@@ -204,6 +855,8 @@ export class TPService {
       if (!idValidation.isValid) {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
+      await this.assertInScope(validatedType, id);
+      await this.assertAssignmentInScope(validatedType, data, false);
 
       // Get the appropriate endpoint
       const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
@@ -222,10 +875,153 @@ export class TPService {
     }
   }
 
+  /**
+   * Create many entities of one type using the bulk endpoint.
+   * Every row is validated first; invalid rows are reported and skipped, and
+   * one failing row never stops the others.
+   */
+  async bulkCreateEntities<T>(
+    type: string,
+    items: CreateEntityRequest[],
+    options: TPRequestOptions = {}
+  ): Promise<BulkResult<T>> {
+    const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+    const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
+    const refusals = await Promise.all(items.map(data => this.assignmentRefusal(validatedType, data, true)));
+
+    return this.runBulk<T>(
+      items.map((data, index) => ({
+        index,
+        body: data,
+        errors: [...this.entityValidator.validateCreateRequest(validatedType, data).errors, ...(refusals[index] ? [refusals[index]] : [])],
+        send: () => this.httpClient.post<T>(endpoint, data, undefined, options.signal)
+      })),
+      endpoint,
+      options
+    );
+  }
+
+  /**
+   * Update many entities of one type using the bulk endpoint, reporting each row's outcome
+   */
+  async bulkUpdateEntities<T>(
+    type: string,
+    items: BulkUpdateItem[],
+    options: TPRequestOptions = {}
+  ): Promise<BulkResult<T>> {
+    const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+    const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
+    const inScope = this.scope.restricted
+      ? await this.idsInScope(validatedType, items.map(item => item.id).filter(Number.isInteger), options.signal)
+      : undefined;
+    const refusals = await Promise.all(items.map(({ data }) => this.assignmentRefusal(validatedType, data, false)));
+
+    return this.runBulk<T>(
+      items.map(({ id, data }, index) => ({
+        index,
+        id,
+        // Items carrying an Id are updates
+        body: { Id: id, ...data },
+        errors: [
+          ...this.entityValidator.validateUpdateRequest(validatedType, id, data).errors,
+          ...(inScope && !inScope.has(id) ? [`${validatedType} ${id} was not found in the projects and teams this server is limited to`] : []),
+          ...(refusals[index] ? [refusals[index]] : [])
+        ],
+        send: () => this.httpClient.post<T>(`${endpoint}/${id}`, data, undefined, options.signal)
+      })),
+      endpoint,
+      options
+    );
+  }
+
+  /**
+   * Send valid rows in batches to {endpoint}/bulk. TargetProcess rejects a whole
+   * batch when one item is invalid, so a rejected batch is retried item by item
+   * to find out which rows succeed. Any other failure, such as a timeout or a
+   * server error, may come after the batch was applied, so its rows are
+   * reported as failed with an unknown outcome rather than sent again.
+   */
+  private async runBulk<T>(
+    rows: Array<{ index: number; id?: number; body: object; errors: string[]; send: () => Promise<T> }>,
+    endpoint: string,
+    options: TPRequestOptions
+  ): Promise<BulkResult<T>> {
+    const results: BulkItemResult<T>[] = rows
+      .filter(row => row.errors.length > 0)
+      .map(row => ({
+        index: row.index,
+        success: false,
+        id: row.id,
+        error: row.errors.join('; '),
+        errorCode: TPErrorType.VALIDATION
+      }));
+    const validRows = rows.filter(row => row.errors.length === 0);
+
+    for (let start = 0; start < validRows.length; start += BULK_BATCH_SIZE) {
+      throwIfAborted(options.signal);
+      const batch = validRows.slice(start, start + BULK_BATCH_SIZE);
+
+      try {
+        const response = await this.httpClient.post<ApiResponse<T> | T[]>(
+          `${endpoint}/bulk`,
+          batch.map(row => row.body),
+          undefined,
+          options.signal
+        );
+        const entities = Array.isArray(response) ? response : response.Items || [];
+        batch.forEach((row, i) => results.push(this.bulkSuccess(row.index, entities[i], row.id)));
+      } catch (error) {
+        throwIfAborted(options.signal);
+        const failure = toTPError(error);
+        if (failure.type !== TPErrorType.VALIDATION || failure.status !== 400) {
+          logger.warn(`Bulk request to ${endpoint} failed without a verdict on its ${batch.length} items:`, error);
+          batch.forEach(row => results.push({
+            index: row.index,
+            success: false,
+            id: row.id,
+            error: `${errorMessage(error)}. The item may have been saved anyway; check before retrying it.`,
+            errorCode: failure.type,
+            outcomeUnknown: true
+          }));
+          continue;
+        }
+        logger.warn(`Bulk request to ${endpoint} was rejected, retrying ${batch.length} items individually:`, error);
+
+        for (const row of batch) {
+          throwIfAborted(options.signal);
+          try {
+            results.push(this.bulkSuccess(row.index, await row.send(), row.id));
+          } catch (itemError) {
+            throwIfAborted(options.signal);
+            results.push({
+              index: row.index,
+              success: false,
+              id: row.id,
+              error: errorMessage(itemError),
+              errorCode: toTPError(itemError).type
+            });
+          }
+        }
+      }
+    }
+
+    results.sort((a, b) => a.index - b.index);
+    const succeeded = results.filter(result => result.success).length;
+    return { succeeded, failed: results.length - succeeded, results };
+  }
+
+  private bulkSuccess<T>(index: number, entity: T | undefined, id?: number): BulkItemResult<T> {
+    const entityId = (entity as { Id?: number } | undefined)?.Id ?? id;
+    return { index, success: true, ...(entityId !== undefined ? { id: entityId } : {}), ...(entity ? { entity } : {}) };
+  }
+
   /**
    * Get comments for an entity (delegates to CommentService)
    */
   async getComments(entityType: string, entityId: number): Promise<CommentData[]> {
+    if (this.scope.restricted) {
+      await this.assertInScope(await this.entityValidator.validateEntityTypeOrThrow(entityType), entityId);
+    }
     return this.commentService.getComments(entityType, entityId);
   }
 
@@ -233,6 +1029,7 @@ export class TPService {
    * Create a comment on an entity (delegates to CommentService)
    */
   async createComment(entityId: number, description: string, isPrivate?: boolean, parentCommentId?: number): Promise<CommentData> {
+    await this.assertGeneralInScope(entityId);
     return this.commentService.createComment({
       entityId,
       description,
@@ -245,6 +1042,10 @@ export class TPService {
    * Delete a comment by ID (delegates to CommentService)
    */
   async deleteComment(commentId: number): Promise<boolean> {
+    if (this.scope.restricted) {
+      const comment = await this.httpClient.get<CommentData>(`Comments/${commentId}?format=json&include=[General]`);
+      await this.assertGeneralInScope(comment.General?.Id);
+    }
     return this.commentService.deleteComment(commentId);
   }
 
@@ -279,16 +1080,17 @@ export class TPService {
   /**
    * Fetch detailed metadata about entity types and their properties
    */
-  async fetchMetadata(): Promise<any> {
+  async fetchMetadata(options: TPRequestOptions = {}): Promise<any> {
     try {
       // Step 1: Get basic entity types from /EntityTypes (fast, reliable)
-      const entityTypesData = await this.fetchEntityTypes();
+      const entityTypesData = await this.fetchEntityTypes(options);
       
       // Step 2: Try to get relationship metadata from /meta (may fail due to JSON issues)
       let metaData = null;
       try {
-        metaData = await this.fetchMetaEndpoint();
+        metaData = await this.fetchMetaEndpoint(options);
       } catch (error) {
+        throwIfAborted(options.signal);
         logger.warn('Failed to fetch /meta endpoint, using EntityTypes only:', error);
       }
       
@@ -309,7 +1111,7 @@ export class TPService {
   /**
    * Fetch entity types from /EntityTypes endpoint (faster, smaller response)
    */
-  async fetchEntityTypes(): Promise<any> {
+  async fetchEntityTypes(options: TPRequestOptions = {}): Promise<any> {
     try {
       const allItems: any[] = [];
       let skip = 0;
@@ -324,7 +1126,7 @@ export class TPService {
           .buildParams();
         queryString.append('skip', skip.toString());
 
-        const batch = await this.httpClient.get<{ Items: any[] }>(`EntityTypes?${queryString}`);
+        const batch = await this.httpClient.get<{ Items: any[] }>(`EntityTypes?${queryString}`, undefined, options.signal);
         
         if (batch.Items && batch.Items.length > 0) {
           allItems.push(...batch.Items);
@@ -369,13 +1171,9 @@ export class TPService {
           // Add all entity types from the API
           for (const item of entityTypesResponse.Items) {
             if (item.Name && typeof item.Name === 'string') {
+              // Custom types stay in this service's validator cache rather than the
+              // static registry, so one account's types never leak into another session
               entityTypes.add(item.Name);
-              
-              // Register custom entity types that aren't in the static registry
-              if (!EntityRegistry.isValidEntityType(item.Name)) {
-                logger.info(`Registering custom entity type: ${item.Name}`);
-                EntityRegistry.registerCustomEntityType(item.Name);
-              }
             }
           }
         } else {
@@ -396,6 +1194,66 @@ export class TPService {
     }
   }
 
+  /**
+   * Get entity types from the validator cache, fetching them on first use
+   */
+  async getCachedEntityTypes(): Promise<string[]> {
+    return await this.entityValidator.getCachedEntityTypes();
+  }
+
+  /**
+   * Check whether an entity type is valid for this TargetProcess account
+   */
+  async validateEntityType(entityType: string): Promise<boolean> {
+    const result = await this.entityValidator.validateEntityType(entityType);
+    return result.isValid;
+  }
+
+  /**
+   * Field names of an entity type (values, references and collections), from its meta endpoint
+   */
+  async getEntityFields(type: string, options: TPRequestOptions = {}): Promise<string[]> {
+    const validatedType = await this.entityValidator.validateEntityTypeOrThrow(type);
+    const cached = this.entityFields.get(validatedType);
+    if (cached) {
+      return cached;
+    }
+
+    const endpoint = this.entityValidator.getEndpointForEntityType(validatedType);
+    const meta = await this.httpClient.get<EntityMetaResponse>(`${endpoint}/meta?format=json`, undefined, options.signal);
+    const description = meta.ResourceMetadataPropertiesDescription ?? {};
+    const fields = [
+      description.ResourceMetadataPropertiesResourceValuesDescription,
+      description.ResourceMetadataPropertiesResourceReferencesDescription,
+      description.ResourceMetadataPropertiesResourceCollectionsDescription
+    ].flatMap(section => section?.Items?.map(item => item.Name) ?? []);
+
+    if (fields.length > 0) {
+      this.entityFields.set(validatedType, fields);
+    }
+    return fields;
+  }
+
+  /**
+   * Get the user the configured credentials authenticate as
+   */
+  async getLoggedUser(): Promise<any> {
+    try {
+      const queryString = this.queryBuilder
+        .reset()
+        .format('json')
+        .buildQueryString();
+
+      return await this.httpClient.get(`Users/LoggedUser?${queryString}`);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Failed to get logged in user: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Initialize the entity type cache on server startup
    */
@@ -406,14 +1264,16 @@ export class TPService {
   /**
    * Get attachment metadata information
    */
-  async getAttachmentInfo(attachmentId: number): Promise<any> {
+  async getAttachmentInfo(attachmentId: number, options: TPRequestOptions = {}): Promise<any> {
     try {
       const idValidation = this.entityValidator.validateEntityId(attachmentId);
       if (!idValidation.isValid) {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
 
-      return await this.httpClient.get(`Attachments/${attachmentId}`);
+      const info = await this.httpClient.get<{ General?: { Id: number } }>(`Attachments/${attachmentId}`, undefined, options.signal);
+      await this.assertGeneralInScope(info.General?.Id, options.signal);
+      return info;
     } catch (error) {
       if (error instanceof McpError) throw error;
       throw new McpError(
@@ -426,7 +1286,7 @@ export class TPService {
   /**
    * Download attachment content as base64
    */
-  async downloadAttachment(attachmentId: number): Promise<any> {
+  async downloadAttachment(attachmentId: number, options: TPRequestOptions = {}): Promise<any> {
     try {
       const idValidation = this.entityValidator.validateEntityId(attachmentId);
       if (!idValidation.isValid) {
@@ -434,10 +1294,13 @@ export class TPService {
       }
 
       // First get attachment metadata
-      const attachmentInfo = await this.getAttachmentInfo(attachmentId);
+      const attachmentInfo = await this.getAttachmentInfo(attachmentId, options);
       
       // Download the actual file content
-      const arrayBuffer = await this.httpClient.downloadBinary(attachmentInfo.Uri);
+      const arrayBuffer = await this.httpClient.downloadBinary(attachmentInfo.Uri, {
+        signal: options.signal,
+        onProgress: options.onDownloadProgress
+      });
 
       // Convert to base64
       const base64Content = Buffer.from(arrayBuffer).toString('base64');
@@ -466,26 +1329,20 @@ export class TPService {
   /**
    * Get headers for authentication (for backward compatibility)
    */
-  private getHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
+  private async getHeaders(): Promise<Record<string, string>> {
+    return {
       'Content-Type': 'application/json',
-      'Accept': 'application/json'
+      'Accept': 'application/json',
+      ...(await this.httpClient.authHeaders())
     };
-
-    if (this.httpClient.getAuthType() === 'basic') {
-      const authConfig = this.queryBuilder['authConfig'] as AuthConfig;
-      headers['Authorization'] = `Basic ${authConfig.token}`;
-    }
-
-    return headers;
   }
 
   /**
    * Private methods for metadata processing (simplified versions)
    */
-  private async fetchMetaEndpoint(): Promise<any> {
+  private async fetchMetaEndpoint(options: TPRequestOptions): Promise<any> {
     try {
-      return await this.httpClient.get('meta?format=json');
+      return await this.httpClient.get('meta?format=json', undefined, options.signal);
     } catch (error) {
       throw new McpError(
         ErrorCode.InvalidRequest,
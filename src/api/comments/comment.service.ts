@@ -2,6 +2,7 @@ import fetch, { Response } from 'node-fetch';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { ApiResponse } from '../client/api.types.js';
 import { EntityValidator } from '../validation/entity-validator.js';
+import { RetryOptions } from '../http/http-client.js';
 
 export interface CommentData {
   Id: number;
@@ -27,9 +28,14 @@ export interface CreateCommentRequest {
 }
 
 export interface CommentServiceDependencies {
-  executeWithRetry: <T>(operation: () => Promise<T>, context: string) => Promise<T>;
+  executeWithRetry: <T>(
+    operation: (signal?: AbortSignal) => Promise<T>,
+    context: string,
+    signal?: AbortSignal,
+    options?: RetryOptions
+  ) => Promise<T>;
   handleApiResponse: <T>(response: Response, context: string) => Promise<T>;
-  getHeaders: () => Record<string, string>;
+  getHeaders: () => Promise<Record<string, string>>;
   baseUrl: string;
   entityValidator: EntityValidator;
 }
@@ -59,10 +65,11 @@ export class CommentService {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const endpoint = this.deps.entityValidator.getEndpointForEntityType(validatedType);
         const response = await fetch(`${this.deps.baseUrl}/${endpoint}/${entityId}/Comments`, {
-          headers: this.deps.getHeaders()
+          headers: await this.deps.getHeaders(),
+          signal
         });
 
         const data = await this.deps.handleApiResponse<ApiResponse<CommentData>>(
@@ -122,21 +129,22 @@ export class CommentService {
         commentData.ParentId = request.parentCommentId;
       }
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const response = await fetch(`${this.deps.baseUrl}/Comments`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            ...this.deps.getHeaders()
+            ...(await this.deps.getHeaders())
           },
-          body: JSON.stringify(commentData)
+          body: JSON.stringify(commentData),
+          signal
         });
 
         return await this.deps.handleApiResponse<CommentData>(
           response,
           `create comment on entity ${request.entityId}`
         );
-      }, `create comment on entity ${request.entityId}`);
+      }, `create comment on entity ${request.entityId}`, undefined, { write: true });
     } catch (error) {
       if (error instanceof McpError) throw error;
       throw new McpError(
@@ -157,19 +165,19 @@ export class CommentService {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const response = await fetch(`${this.deps.baseUrl}/Comments/${commentId}`, {
           method: 'DELETE',
-          headers: this.deps.getHeaders()
+          headers: await this.deps.getHeaders(),
+          signal
         });
 
-        if (response.ok) {
-          return true;
-        } else {
-          const errorText = await this.extractErrorMessage(response);
-          throw new Error(`Failed to delete comment ${commentId}: ${response.status} - ${errorText}`);
+        if (!response.ok) {
+          // Throws the classified API error, so transient failures are retried
+          await this.deps.handleApiResponse(response, `delete comment ${commentId}`);
         }
-      }, `delete comment ${commentId}`);
+        return true;
+      }, `delete comment ${commentId}`, undefined, { write: true });
     } catch (error) {
       if (error instanceof McpError) throw error;
       throw new McpError(
@@ -199,21 +207,22 @@ export class CommentService {
         Description: description.trim()
       };
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const response = await fetch(`${this.deps.baseUrl}/Comments/${commentId}`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            ...this.deps.getHeaders()
+            ...(await this.deps.getHeaders())
           },
-          body: JSON.stringify(updateData)
+          body: JSON.stringify(updateData),
+          signal
         });
 
         return await this.deps.handleApiResponse<CommentData>(
           response,
           `update comment ${commentId}`
         );
-      }, `update comment ${commentId}`);
+      }, `update comment ${commentId}`, undefined, { write: true });
     } catch (error) {
       if (error instanceof McpError) throw error;
       throw new McpError(
@@ -234,9 +243,10 @@ export class CommentService {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const response = await fetch(`${this.deps.baseUrl}/Comments/${commentId}`, {
-          headers: this.deps.getHeaders()
+          headers: await this.deps.getHeaders(),
+          signal
         });
 
         return await this.deps.handleApiResponse<CommentData>(
@@ -264,9 +274,10 @@ export class CommentService {
         throw new McpError(ErrorCode.InvalidRequest, idValidation.errors.join('; '));
       }
 
-      return await this.deps.executeWithRetry(async () => {
+      return await this.deps.executeWithRetry(async signal => {
         const response = await fetch(`${this.deps.baseUrl}/Comments/${parentCommentId}/Replies`, {
-          headers: this.deps.getHeaders()
+          headers: await this.deps.getHeaders(),
+          signal
         });
 
         const data = await this.deps.handleApiResponse<ApiResponse<CommentData>>(
@@ -317,18 +328,6 @@ export class CommentService {
     return result;
   }
 
-  /**
-   * Extract error message from response
-   */
-  private async extractErrorMessage(response: Response): Promise<string> {
-    try {
-      const data = await response.json() as { Message?: string; ErrorMessage?: string; Description?: string };
-      return data.Message || data.ErrorMessage || data.Description || response.statusText;
-    } catch {
-      return response.statusText;
-    }
-  }
-
   /**
    * Check if a comment belongs to a specific entity
    */
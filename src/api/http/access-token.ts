@@ -0,0 +1,130 @@
+import fetch from 'node-fetch';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { URLSearchParams } from 'node:url';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+import { redactText } from '../../utils/redact.js';
+import { logger } from '../../utils/logger.js';
+import { TPError } from './http-error-handler.js';
+
+/**
+ * Source of bearer tokens that expire and can be renewed
+ */
+export interface AccessTokenProvider {
+  /** A token that is valid now, fetching a new one when needed */
+  getToken(): Promise<string>;
+  /** Forget a token the server rejected, so the next getToken fetches a new one */
+  invalidate(token: string): void;
+}
+
+export interface OAuthConfig {
+  /** Token endpoint of the identity provider */
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Uses the refresh_token grant when set, client_credentials otherwise */
+  refreshToken?: string;
+  scope?: string;
+  /** Time allowed for a token request, 30 seconds by default */
+  timeoutMs?: number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+// Renew tokens this long before they expire, so requests in flight don't fail
+const EXPIRY_MARGIN_MS = 60000;
+const DEFAULT_TOKEN_TIMEOUT_MS = 30000;
+
+/**
+ * OAuth2 access tokens from a token endpoint, renewed shortly before they
+ * expire or when TargetProcess rejects them. Concurrent requests share one
+ * refresh, and a rotated refresh token replaces the old one.
+ */
+export class OAuthTokenProvider implements AccessTokenProvider {
+  private token?: string;
+  private expiresAt = 0;
+  private refreshToken?: string;
+  private pending?: Promise<string>;
+
+  constructor(private readonly config: OAuthConfig, private readonly now: () => number = Date.now) {
+    this.refreshToken = config.refreshToken;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.token && this.now() < this.expiresAt - EXPIRY_MARGIN_MS) {
+      return this.token;
+    }
+    // Shared by every waiting request, so it is not tied to any one caller's signal
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return await this.pending;
+  }
+
+  invalidate(token: string): void {
+    if (token === this.token) {
+      this.token = undefined;
+      this.expiresAt = 0;
+    }
+  }
+
+  private async requestToken(): Promise<string> {
+    const body = new URLSearchParams({ client_id: this.config.clientId });
+    if (this.refreshToken) {
+      body.set('grant_type', 'refresh_token');
+      body.set('refresh_token', this.refreshToken);
+    } else {
+      body.set('grant_type', 'client_credentials');
+    }
+    if (this.config.clientSecret) body.set('client_secret', this.config.clientSecret);
+    if (this.config.scope) body.set('scope', this.config.scope);
+
+    // Every request waiting for the token waits on this one, so it must not hang
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TOKEN_TIMEOUT_MS;
+    let response: Awaited<ReturnType<typeof fetch>>;
+    let data: TokenResponse;
+    try {
+      response = await fetch(this.config.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+        body: body.toString(),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      data = await response.json().catch(() => ({})) as TokenResponse;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError' || (error as Error).name === 'TimeoutError') {
+        throw new TPError(
+          TPErrorType.NETWORK,
+          ErrorCode.RequestTimeout,
+          redactText(`OAuth token request timed out after ${timeoutMs}ms`),
+          { innerError: error as Error, isRetryable: true }
+        );
+      }
+      throw error;
+    }
+
+    if (!response.ok || !data.access_token) {
+      const reason = data.error_description || data.error || response.statusText;
+      throw new TPError(
+        TPErrorType.AUTHENTICATION,
+        ErrorCode.InvalidRequest,
+        redactText(`OAuth token request failed: ${response.status} - ${reason}`),
+        { status: response.status }
+      );
+    }
+
+    const expiresIn = Number(data.expires_in);
+    this.token = data.access_token;
+    this.expiresAt = expiresIn > 0 ? this.now() + expiresIn * 1000 : Infinity;
+    this.refreshToken = data.refresh_token ?? this.refreshToken;
+    logger.debug(`Obtained OAuth access token${expiresIn > 0 ? `, valid for ${expiresIn}s` : ''}`);
+    return data.access_token;
+  }
+}
@@ -1,24 +1,59 @@
-import fetch, { Response } from 'node-fetch';
+import fetch, { RequestInit, Response } from 'node-fetch';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { clearTimeout, setTimeout as startTimer } from 'node:timers';
 import { setTimeout } from 'node:timers/promises';
-import { URLSearchParams } from 'node:url';
+import { URL, URLSearchParams } from 'node:url';
+import { createCancelledError, throwIfAborted } from '../../utils/request-control.js';
+import { redactText } from '../../utils/redact.js';
+import { logger } from '../../utils/logger.js';
+import { IErrorContext, TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+import { ResponseCache } from './response-cache.js';
+import { recordApiCall, recordCacheHit } from './request-stats.js';
+import { RequestThrottle } from './request-throttle.js';
+import { HttpErrorHandler, TPError, parseRetryAfter } from './http-error-handler.js';
+import { AccessTokenProvider } from './access-token.js';
 
 export interface RetryConfig {
+  /** Attempts in total, including the first */
   maxRetries: number;
   delayMs: number;
   backoffFactor: number;
+  /** Longest wait between attempts, including waits asked for by Retry-After (default 30s) */
+  maxDelayMs?: number;
+  /**
+   * Time allowed for each attempt before it is aborted (default 60s, 0 disables).
+   * Reads are then retried, writes are not; downloads only time out while no bytes arrive.
+   */
+  timeoutMs?: number;
 }
 
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  delayMs: 1000,
+  backoffFactor: 2
+};
+
 export interface HttpClientConfig {
   baseUrl: string;
   retry?: RetryConfig;
+  /** Serve repeated GETs from this cache */
+  cache?: ResponseCache;
+  /** Rate and concurrency limits applied to every attempt */
+  throttle?: RequestThrottle;
 }
 
+export type AuthType = 'basic' | 'apikey' | 'bearer';
+
 export interface AuthConfig {
-  type: 'basic' | 'apikey';
+  type: AuthType;
+  /** Base64 username:password, API key or access token; unused with a token provider */
   token: string;
+  /** Supplies renewable bearer tokens, e.g. from OAuth */
+  tokenProvider?: AccessTokenProvider;
 }
 
+type AuthorizedRequestInit = Omit<RequestInit, 'headers' | 'signal'> & { headers?: Record<string, string> };
+
 export interface ApiErrorResponse {
   Message?: string;
   ErrorMessage?: string;
@@ -30,8 +65,27 @@ export interface HttpRequestOptions {
   headers?: Record<string, string>;
   body?: string;
   queryParams?: URLSearchParams;
+  signal?: AbortSignal;
+  /** Revalidate a cached GET response even while it is fresh */
+  fresh?: boolean;
+}
+
+export interface RetryOptions {
+  /** The request changes data, so it is only retried when it certainly was not applied */
+  write?: boolean;
+  /** Time out after timeoutMs without activity, reported through onActivity, rather than timeoutMs in total */
+  idleTimeout?: boolean;
+}
+
+type Attempt<T> = (signal?: AbortSignal, onActivity?: () => void) => Promise<T>;
+
+export interface DownloadOptions {
+  signal?: AbortSignal;
+  onProgress?: (receivedBytes: number, totalBytes?: number) => void;
 }
 
+const DEFAULT_TIMEOUT_MS = 60000;
+
 /**
  * HTTP client for TargetProcess API with retry logic and authentication
  * Handles all HTTP operations with configurable retry strategies
@@ -40,15 +94,17 @@ export class HttpClient {
   private readonly baseUrl: string;
   private readonly retryConfig: RetryConfig;
   private readonly authConfig: AuthConfig;
+  private readonly cache?: ResponseCache;
+  private readonly throttle?: RequestThrottle;
+  private readonly errorHandler: HttpErrorHandler;
 
   constructor(config: HttpClientConfig, authConfig: AuthConfig) {
     this.baseUrl = config.baseUrl;
     this.authConfig = authConfig;
-    this.retryConfig = config.retry || {
-      maxRetries: 3,
-      delayMs: 1000,
-      backoffFactor: 2
-    };
+    this.cache = config.cache;
+    this.throttle = config.throttle;
+    this.retryConfig = config.retry || DEFAULT_RETRY_CONFIG;
+    this.errorHandler = new HttpErrorHandler(this.retryConfig);
   }
 
   /**
@@ -59,78 +115,172 @@ export class HttpClient {
     options: HttpRequestOptions = {}
   ): Promise<T> {
     const url = this.buildUrl(endpoint, options.queryParams);
-    const headers = this.buildHeaders(options.headers);
-    
+    const method = options.method || 'GET';
+
     const requestOptions = {
-      method: options.method || 'GET',
-      headers,
+      method,
+      headers: options.headers,
       body: options.body
     };
 
-    return await this.executeWithRetry(async () => {
-      const response = await fetch(url, requestOptions);
-      return await this.handleApiResponse<T>(response, `${options.method || 'GET'} ${endpoint}`);
-    }, `${options.method || 'GET'} ${endpoint}`);
+    // Endpoints carry the access_token for API key auth; keep it out of error messages
+    const context = redactText(`${method} ${endpoint}`);
+
+    if (method === 'GET' && this.cache) {
+      return await this.cachedGet<T>(this.cache, url, options.headers, context, options.signal, options.fresh);
+    }
+
+    try {
+      return await this.executeWithRetry(async signal => {
+        const response = await this.authorizedFetch(url, requestOptions, signal);
+        return await this.handleApiResponse<T>(response, context, { operation: method, timestamp: new Date() });
+      }, context, options.signal, { write: method !== 'GET' });
+    } finally {
+      // Even a failed write may have been applied
+      if (method !== 'GET') {
+        await this.cache?.invalidate(url, options.body);
+      }
+    }
   }
 
   /**
-   * GET request
+   * GET through the response cache, revalidating expired entries, and any
+   * entry when fresh is set, with If-None-Match/If-Modified-Since when the
+   * server sent validators
    */
-  async get<T>(endpoint: string, queryParams?: URLSearchParams): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET', queryParams });
+  private async cachedGet<T>(
+    cache: ResponseCache,
+    url: string,
+    headers: Record<string, string> | undefined,
+    context: string,
+    signal?: AbortSignal,
+    fresh = false
+  ): Promise<T> {
+    const cached = await cache.lookup(url);
+    if (cached?.fresh && !fresh) {
+      recordCacheHit();
+      return JSON.parse(cached.entry.body) as T;
+    }
+
+    return await this.executeWithRetry(async attemptSignal => {
+      const response = await this.authorizedFetch(url, {
+        method: 'GET',
+        headers: { ...headers, ...cache.conditionalHeaders(cached?.entry) }
+      }, attemptSignal);
+
+      if (response.status === 304 && cached) {
+        recordCacheHit();
+        await cache.refresh(url, cached.entry);
+        return JSON.parse(cached.entry.body) as T;
+      }
+
+      const data = await this.handleApiResponse<T>(response, context, { operation: 'GET', timestamp: new Date() });
+      await cache.store(url, data, response.headers);
+      return data;
+    }, context, signal);
+  }
+
+  /**
+   * GET request; fresh skips cached responses that have not expired yet
+   */
+  async get<T>(endpoint: string, queryParams?: URLSearchParams, signal?: AbortSignal, fresh = false): Promise<T> {
+    return this.request<T>(endpoint, { method: 'GET', queryParams, signal, fresh });
   }
 
   /**
    * POST request
    */
-  async post<T>(endpoint: string, data?: any, queryParams?: URLSearchParams): Promise<T> {
+  async post<T>(endpoint: string, data?: any, queryParams?: URLSearchParams, signal?: AbortSignal): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
       queryParams,
-      headers: data ? { 'Content-Type': 'application/json' } : undefined
+      headers: data ? { 'Content-Type': 'application/json' } : undefined,
+      signal
     });
   }
 
   /**
    * PUT request
    */
-  async put<T>(endpoint: string, data?: any, queryParams?: URLSearchParams): Promise<T> {
+  async put<T>(endpoint: string, data?: any, queryParams?: URLSearchParams, signal?: AbortSignal): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
       queryParams,
-      headers: data ? { 'Content-Type': 'application/json' } : undefined
+      headers: data ? { 'Content-Type': 'application/json' } : undefined,
+      signal
     });
   }
 
   /**
    * DELETE request
    */
-  async delete<T>(endpoint: string, queryParams?: URLSearchParams): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE', queryParams });
+  async delete<T>(endpoint: string, queryParams?: URLSearchParams, signal?: AbortSignal): Promise<T> {
+    return this.request<T>(endpoint, { method: 'DELETE', queryParams, signal });
   }
 
   /**
-   * Execute operation with retry logic
+   * GET an absolute link returned by the API, such as a paging Next link.
+   * Only links under the configured base URL are followed, so credentials never leave the TargetProcess host.
+   */
+  async getLink<T>(link: string, signal?: AbortSignal, fresh = false): Promise<T> {
+    const base = new URL(this.baseUrl);
+    const url = new URL(link, base);
+    const basePath = base.pathname.replace(/\/$/, '');
+
+    if (url.host !== base.host || !url.pathname.toLowerCase().startsWith(basePath.toLowerCase())) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Refusing to follow link outside ${base.origin}${basePath}: ${redactText(link)}`
+      );
+    }
+
+    // Next links normally echo the original query, but don't rely on it for the API key
+    if (this.authConfig.type === 'apikey' && !url.searchParams.has('access_token')) {
+      url.searchParams.set('access_token', this.authConfig.token);
+    }
+
+    return this.request<T>(`${url.pathname.slice(basePath.length)}${url.search}`, { method: 'GET', signal, fresh });
+  }
+
+  /**
+   * Execute operation with retry logic.
+   * Each attempt waits for a throttle slot and holds it until the attempt settles.
+   * Only errors the error handler classifies as transient are retried, after the
+   * Retry-After wait or a jittered backoff; writes only when they were certainly
+   * not applied. Stops before the next attempt, and during the backoff wait,
+   * once the signal is aborted.
    */
   async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    context: string
+    operation: Attempt<T>,
+    context: string,
+    signal?: AbortSignal,
+    options: RetryOptions = {}
   ): Promise<T> {
     let lastError: Error | null = null;
-    let delay = this.retryConfig.delayMs;
+
+    recordApiCall();
 
     for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
+      throwIfAborted(signal);
+
       try {
-        return await operation();
+        const release = await this.throttle?.acquire(signal);
+        try {
+          return await this.runAttempt(operation, context, signal, options.idleTimeout);
+        } finally {
+          release?.();
+        }
       } catch (error) {
         lastError = error as Error;
 
-        // Don't retry on 400 (bad request) or 401 (unauthorized)
-        if (error instanceof McpError &&
-          (error.message.includes('status: 400') ||
-            error.message.includes('status: 401'))) {
+        // A cancelled request is never retried
+        if (signal?.aborted) {
+          throw createCancelledError();
+        }
+
+        if (!this.errorHandler.isRetryable(lastError, options.write)) {
           throw error;
         }
 
@@ -139,29 +289,83 @@ export class HttpClient {
         }
 
         // Wait before retrying
-        await setTimeout(delay);
-        delay *= this.retryConfig.backoffFactor;
+        const delay = this.errorHandler.getRetryDelay(lastError, attempt);
+        logger.debug(redactText(`Retrying ${context} in ${delay}ms after attempt ${attempt} failed: ${lastError.message}`));
+        try {
+          await setTimeout(delay, undefined, { signal });
+        } catch {
+          throw createCancelledError();
+        }
       }
     }
 
-    throw new McpError(
-      ErrorCode.InvalidRequest,
-      `Failed to ${context} after ${this.retryConfig.maxRetries} attempts: ${lastError?.message}`
+    const failure = this.errorHandler.handle(lastError!);
+    throw new TPError(
+      failure.type,
+      failure.code,
+      redactText(`Failed to ${context} after ${this.retryConfig.maxRetries} attempts: ${lastError?.message}`),
+      { status: failure instanceof TPError ? failure.status : undefined, innerError: lastError! }
     );
   }
 
   /**
-   * Handle API response with error parsing
+   * Run one attempt, aborting it once the per-attempt timeout passes, or with
+   * an idle timeout once that long passes without activity
+   */
+  private async runAttempt<T>(
+    operation: Attempt<T>,
+    context: string,
+    signal?: AbortSignal,
+    idleTimeout = false
+  ): Promise<T> {
+    const timeoutMs = this.retryConfig.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    if (timeoutMs <= 0) {
+      return await operation(signal);
+    }
+
+    const timeout = new AbortController();
+    let timer = startTimer(() => timeout.abort(), timeoutMs);
+    const onActivity = idleTimeout
+      ? () => {
+        clearTimeout(timer);
+        timer = startTimer(() => timeout.abort(), timeoutMs);
+      }
+      : undefined;
+
+    try {
+      return await operation(signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal, onActivity);
+    } catch (error) {
+      if (timeout.signal.aborted && !signal?.aborted) {
+        throw new TPError(
+          TPErrorType.NETWORK,
+          ErrorCode.RequestTimeout,
+          redactText(`${context} ${idleTimeout ? 'stalled for' : 'timed out after'} ${timeoutMs}ms`),
+          { innerError: error as Error, isRetryable: true }
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Handle API response with error parsing.
+   * Failures are thrown as TPErrors classified by status; errorContext.operation
+   * is the HTTP method, which tells a bad query apart from bad submitted data.
    */
   async handleApiResponse<T>(
     response: Response,
-    context: string
+    context: string,
+    errorContext?: IErrorContext
   ): Promise<T> {
     if (!response.ok) {
       const errorMessage = await this.extractErrorMessage(response);
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `${context} failed: ${response.status} - ${errorMessage}`
+      throw this.errorHandler.fromHttpError(
+        response.status,
+        `${context} failed: ${response.status} - ${errorMessage}`,
+        errorContext,
+        parseRetryAfter(response.headers.get('retry-after'))
       );
     }
     return await response.json() as T;
@@ -195,18 +399,50 @@ export class HttpClient {
   /**
    * Build headers with authentication
    */
-  private buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
-    const headers: Record<string, string> = {
+  private async buildHeaders(additionalHeaders?: Record<string, string>): Promise<Record<string, string>> {
+    return {
       'Accept': 'application/json',
-      ...additionalHeaders
+      ...additionalHeaders,
+      ...(await this.authHeaders())
     };
+  }
 
-    // Add authentication header for basic auth
-    if (this.authConfig.type === 'basic') {
-      headers['Authorization'] = `Basic ${this.authConfig.token}`;
+  /**
+   * Authorization header for basic and bearer auth. API keys travel as the
+   * access_token query parameter instead, so there is no header for them.
+   */
+  async authHeaders(): Promise<Record<string, string>> {
+    switch (this.authConfig.type) {
+      case 'basic':
+        return { 'Authorization': `Basic ${this.authConfig.token}` };
+      case 'bearer': {
+        const token = this.authConfig.tokenProvider
+          ? await this.authConfig.tokenProvider.getToken()
+          : this.authConfig.token;
+        return { 'Authorization': `Bearer ${token}` };
+      }
+      default:
+        return {};
     }
+  }
 
-    return headers;
+  /**
+   * Fetch with authentication headers. A renewable bearer token rejected with
+   * 401 may have been revoked or expired early, so it is renewed and the
+   * request sent once more.
+   */
+  private async authorizedFetch(url: string, init: AuthorizedRequestInit, signal?: AbortSignal): Promise<Response> {
+    const headers = await this.buildHeaders(init.headers);
+    const response = await fetch(url, { ...init, headers, signal });
+
+    const provider = this.authConfig.tokenProvider;
+    if (response.status !== 401 || !provider) {
+      return response;
+    }
+
+    logger.debug('Access token rejected, renewing it');
+    provider.invalidate(headers['Authorization'].slice('Bearer '.length));
+    return await fetch(url, { ...init, headers: await this.buildHeaders(init.headers), signal });
   }
 
   /**
@@ -225,30 +461,48 @@ export class HttpClient {
 
   /**
    * Download binary content (for attachments)
+   * Streams the body so callers can report bytes received. Large files take
+   * long, so the timeout only applies while no bytes arrive.
    */
-  async downloadBinary(url: string): Promise<ArrayBuffer> {
-    return await this.executeWithRetry(async () => {
-      const response = await fetch(url, {
-        headers: this.buildHeaders()
-      });
+  async downloadBinary(url: string, options: DownloadOptions = {}): Promise<ArrayBuffer> {
+    return await this.executeWithRetry(async (signal, onActivity) => {
+      const response = await this.authorizedFetch(url, {}, signal);
 
       if (!response.ok) {
         const errorMessage = await this.extractErrorMessage(response);
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Download failed: ${response.status} - ${errorMessage}`
+        throw this.errorHandler.fromHttpError(
+          response.status,
+          `Download failed: ${response.status} - ${errorMessage}`,
+          undefined,
+          parseRetryAfter(response.headers.get('retry-after'))
         );
       }
 
-      return await response.arrayBuffer();
-    }, `download binary from ${url}`);
+      if (!response.body) {
+        return await response.arrayBuffer();
+      }
+
+      const totalBytes = parseInt(response.headers.get('content-length') || '') || undefined;
+      const chunks: Buffer[] = [];
+      let receivedBytes = 0;
+      for await (const chunk of response.body) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string);
+        chunks.push(buffer);
+        receivedBytes += buffer.length;
+        onActivity?.();
+        options.onProgress?.(receivedBytes, totalBytes);
+      }
+
+      const content = Buffer.concat(chunks);
+      return content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+    }, `download binary from ${url}`, options.signal, { idleTimeout: true });
   }
 
   /**
    * Check if the client is configured properly
    */
   isConfigured(): boolean {
-    return !!(this.baseUrl && this.authConfig.token);
+    return !!(this.baseUrl && (this.authConfig.token || this.authConfig.tokenProvider));
   }
 
   /**
@@ -266,7 +520,7 @@ export class HttpClient {
   /**
    * Get authentication type
    */
-  getAuthType(): 'basic' | 'apikey' {
+  getAuthType(): AuthType {
     return this.authConfig.type;
   }
 
@@ -275,7 +529,7 @@ export class HttpClient {
    */
   withAuth(authConfig: AuthConfig): HttpClient {
     return new HttpClient(
-      { baseUrl: this.baseUrl, retry: this.retryConfig },
+      { baseUrl: this.baseUrl, retry: this.retryConfig, throttle: this.throttle },
       authConfig
     );
   }
@@ -0,0 +1,311 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  IErrorContext,
+  IErrorHandler,
+  ITPError,
+  TPErrorType
+} from '../../core/interfaces/error-handler.interface.js';
+import { logger } from '../../utils/logger.js';
+
+export interface TPErrorOptions {
+  /** HTTP status of the failed response, if there was one */
+  status?: number;
+  context?: IErrorContext;
+  innerError?: Error;
+  isRetryable?: boolean;
+  /** Milliseconds the server asked us to wait before retrying */
+  retryAfter?: number;
+  /** Replaces the default recovery suggestions for the error type */
+  suggestions?: string[];
+}
+
+export interface RetryPolicy {
+  delayMs: number;
+  backoffFactor: number;
+  /** Longest wait between attempts, including waits asked for by Retry-After */
+  maxDelayMs?: number;
+}
+
+// Connection failures reported by Node before any response arrives
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET'
+]);
+
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// What an agent can do about each kind of failure
+const RECOVERY_SUGGESTIONS: Record<TPErrorType, string[]> = {
+  [TPErrorType.VALIDATION]: [
+    'Check the arguments against the tool\'s input schema and the entity\'s required fields.',
+    'inspect_object with action get_properties describes an entity type.'
+  ],
+  [TPErrorType.INVALID_QUERY]: [
+    'Check the where clause syntax, e.g. EntityState.Name eq \'Open\' and Project.Id eq 123.',
+    'Make sure every field in where, include and orderBy exists on the entity type.'
+  ],
+  [TPErrorType.AUTHENTICATION]: [
+    'Check the TargetProcess credentials (TP_ACCESS_TOKEN, the TP_OAUTH_* settings, TP_API_KEY, or TP_USERNAME and TP_PASSWORD); they may have expired.'
+  ],
+  [TPErrorType.AUTHORIZATION]: [
+    'The TargetProcess user is not allowed to do this. Try a project the user belongs to, or ask an administrator for access.'
+  ],
+  [TPErrorType.NOT_FOUND]: [
+    'Check the entity type and id; search_entities can find the entity by name.'
+  ],
+  [TPErrorType.CONFLICT]: [
+    'The entity changed since it was read. Fetch it again and reapply the change.'
+  ],
+  [TPErrorType.RATE_LIMIT]: [
+    'TargetProcess is throttling requests. Wait before retrying, and prefer fewer, larger requests such as the bulk tools or aggregate_entities.'
+  ],
+  [TPErrorType.NETWORK]: [
+    'TargetProcess did not respond in time. Retry shortly, or narrow the request if it keeps timing out.'
+  ],
+  [TPErrorType.CONFIGURATION]: [
+    'Check the server configuration: TP_DOMAIN and the TargetProcess credentials.'
+  ],
+  [TPErrorType.INTERNAL]: [
+    'The request failed unexpectedly. Retry once, and report the error if it persists.'
+  ]
+};
+
+/**
+ * Message of any thrown value, without the "MCP error <code>: " prefix McpError adds
+ */
+export function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^MCP error -?\d+: /, '');
+}
+
+/**
+ * Error raised for a failed TargetProcess request, classified by type and
+ * carrying what the retry logic needs to know about it. The type is reported
+ * to agents as the error code, together with the recovery suggestions.
+ */
+export class TPError extends McpError implements ITPError {
+  declare readonly code: ErrorCode;
+  readonly type: TPErrorType;
+  readonly status?: number;
+  readonly context?: IErrorContext;
+  readonly innerError?: Error;
+  readonly isRetryable: boolean;
+  readonly retryAfter?: number;
+  readonly suggestions: string[];
+
+  constructor(type: TPErrorType, code: ErrorCode, message: string, options: TPErrorOptions = {}) {
+    // McpError prefixes the code itself; don't repeat it when wrapping another McpError
+    super(code, errorMessage(message));
+    this.name = 'TPError';
+    this.type = type;
+    this.status = options.status;
+    this.context = options.context;
+    this.innerError = options.innerError;
+    this.isRetryable = options.isRetryable ?? false;
+    this.retryAfter = options.retryAfter;
+    this.suggestions = options.suggestions ?? RECOVERY_SUGGESTIONS[type];
+  }
+
+  /**
+   * The same error with a different message, e.g. prefixed with what the tool was doing
+   */
+  withMessage(message: string): TPError {
+    return new TPError(this.type, this.code, message, this.options());
+  }
+
+  /**
+   * The same error with more specific suggestions ahead of the generic ones
+   */
+  withSuggestions(suggestions: string[]): TPError {
+    return new TPError(this.type, this.code, this.message, {
+      ...this.options(),
+      suggestions: [...suggestions, ...this.suggestions]
+    });
+  }
+
+  private options(): TPErrorOptions {
+    return {
+      status: this.status,
+      context: this.context,
+      innerError: this.innerError,
+      isRetryable: this.isRetryable,
+      retryAfter: this.retryAfter,
+      suggestions: this.suggestions
+    };
+  }
+}
+
+/**
+ * Classify any thrown value. HTTP failures are already TPErrors; connection
+ * failures count as network errors, and McpErrors keep their code.
+ */
+export function toTPError(error: unknown, context?: IErrorContext): TPError {
+  if (error instanceof TPError) {
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new TPError(TPErrorType.INTERNAL, ErrorCode.InternalError, String(error), { context });
+  }
+
+  if (isNetworkError(error)) {
+    return new TPError(TPErrorType.NETWORK, ErrorCode.InternalError, `Network error: ${error.message}`, {
+      context,
+      innerError: error,
+      isRetryable: true
+    });
+  }
+
+  if (error instanceof McpError) {
+    // Tools and validators report bad input as InvalidParams or InvalidRequest
+    const type = error.code === ErrorCode.InvalidParams || error.code === ErrorCode.InvalidRequest
+      ? TPErrorType.VALIDATION
+      : error.code === ErrorCode.RequestTimeout ? TPErrorType.NETWORK : TPErrorType.INTERNAL;
+    return new TPError(type, error.code, error.message, { context, innerError: error });
+  }
+
+  return new TPError(TPErrorType.INTERNAL, ErrorCode.InternalError, error.message, { context, innerError: error });
+}
+
+// Connection failures that happen before anything is sent
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+function notApplied(error: ITPError): boolean {
+  const status = error instanceof TPError ? error.status : undefined;
+  if (status === 429 || (status === 503 && error.retryAfter !== undefined)) {
+    return true;
+  }
+  const code = (error.innerError as (Error & { code?: string }) | undefined)?.code;
+  return status === undefined && code !== undefined && NOT_SENT_ERROR_CODES.has(code);
+}
+
+function isNetworkError(error: Error): boolean {
+  const { code, type } = error as Error & { code?: string; type?: string };
+  // node-fetch reports connection failures as FetchError with type 'system'
+  if (error.name === 'FetchError' && type !== 'invalid-json') return true;
+  return code !== undefined && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classifies HTTP and network failures and decides how long to wait before retrying.
+ *
+ * Only throttling (429), request timeouts (408), transient server errors and
+ * network failures are retried; other client errors fail straight away.
+ */
+export class HttpErrorHandler implements IErrorHandler {
+  constructor(private readonly policy: RetryPolicy) {}
+
+  handle(error: Error, context?: IErrorContext): ITPError {
+    return toTPError(error, context);
+  }
+
+  logError(error: ITPError): void {
+    const status = error instanceof TPError && error.status ? ` (HTTP ${error.status})` : '';
+    const message = `${error.type} error${status}: ${error.message}`;
+    if (error.isRetryable) {
+      logger.warn(message);
+    } else {
+      logger.error(message);
+    }
+  }
+
+  /**
+   * A 400 on a read means the query itself is wrong; on a write, the submitted data
+   */
+  fromHttpError(status: number, message: string, context?: IErrorContext, retryAfter?: number): ITPError {
+    const type = status === 400 && context?.operation === 'GET'
+      ? TPErrorType.INVALID_QUERY
+      : this.typeForStatus(status);
+    const error = new TPError(type, ErrorCode.InvalidRequest, message, {
+      status,
+      context,
+      retryAfter,
+      isRetryable: status === 408 || status === 429 || (status >= 500 && status !== 501 && status !== 505)
+    });
+
+    return retryAfter !== undefined
+      ? error.withSuggestions([`TargetProcess asked to wait ${Math.ceil(retryAfter / 1000)}s before retrying.`])
+      : error;
+  }
+
+  validationError(message: string, context?: IErrorContext): ITPError {
+    return new TPError(TPErrorType.VALIDATION, ErrorCode.InvalidParams, message, { context });
+  }
+
+  notFoundError(entityType: string, id: number): ITPError {
+    return new TPError(TPErrorType.NOT_FOUND, ErrorCode.InvalidRequest, `${entityType} ${id} not found`, {
+      status: 404,
+      context: { entityType, entityId: id, timestamp: new Date() }
+    });
+  }
+
+  /**
+   * Retrying is pointless when the server asks us to wait longer than we are willing to.
+   * A write is only retried when it certainly was not applied: the connection
+   * was never made, or the server refused it with 429, or 503 and Retry-After.
+   * After a timeout, a reset connection or another server error it may have
+   * been, and sending it again could apply it twice.
+   */
+  isRetryable(error: Error, write = false): boolean {
+    const tpError = this.handle(error);
+    if (!tpError.isRetryable) return false;
+    if (write && !notApplied(tpError)) return false;
+    return tpError.retryAfter === undefined || tpError.retryAfter <= this.maxDelayMs;
+  }
+
+  /**
+   * Honour Retry-After when given; otherwise back off exponentially with jitter,
+   * so clients throttled together don't all retry at the same moment
+   */
+  getRetryDelay(error: Error, attempt: number): number {
+    const { retryAfter } = this.handle(error);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.maxDelayMs);
+    }
+
+    const backoff = Math.min(this.policy.delayMs * this.policy.backoffFactor ** (attempt - 1), this.maxDelayMs);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  private get maxDelayMs(): number {
+    return this.policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  }
+
+  private typeForStatus(status: number): TPErrorType {
+    switch (status) {
+      case 401: return TPErrorType.AUTHENTICATION;
+      case 403: return TPErrorType.AUTHORIZATION;
+      case 404: return TPErrorType.NOT_FOUND;
+      case 409:
+      case 412: return TPErrorType.CONFLICT;
+      case 429: return TPErrorType.RATE_LIMIT;
+      case 408:
+      case 502:
+      case 503:
+      case 504: return TPErrorType.NETWORK;
+      default: return status >= 500 ? TPErrorType.INTERNAL : TPErrorType.VALIDATION;
+    }
+  }
+}
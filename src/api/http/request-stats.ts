@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { OperationResult } from '../../core/interfaces/semantic-operation.interface.js';
+
+/**
+ * API calls and cache hits made while running one tool call
+ */
+export interface RequestStats {
+  apiCalls: number;
+  cacheHits: number;
+}
+
+const currentStats = new AsyncLocalStorage<RequestStats>();
+
+/**
+ * Run fn and count the API calls and cache hits it causes.
+ * Concurrent tool calls are counted separately.
+ */
+export async function trackRequestStats<T>(fn: () => Promise<T>): Promise<{ result: T; stats: RequestStats }> {
+  const stats: RequestStats = { apiCalls: 0, cacheHits: 0 };
+  const result = await currentStats.run(stats, fn);
+  return { result, stats };
+}
+
+/**
+ * The tool call the current code runs on behalf of, if any.
+ * Used as the fairness key when requests are queued.
+ */
+export function currentRequestScope(): object | undefined {
+  return currentStats.getStore();
+}
+
+export function recordApiCall(): void {
+  const stats = currentStats.getStore();
+  if (stats) stats.apiCalls++;
+}
+
+export function recordCacheHit(): void {
+  const stats = currentStats.getStore();
+  if (stats) stats.cacheHits++;
+}
+
+/**
+ * Run an operation and record its execution time, API calls and cache hits in its metadata
+ */
+export async function trackOperation(execute: () => Promise<OperationResult>): Promise<OperationResult> {
+  const startTime = Date.now();
+  const { result, stats } = await trackRequestStats(execute);
+  result.metadata = {
+    executionTime: result.metadata?.executionTime ?? Date.now() - startTime,
+    apiCallsCount: stats.apiCalls,
+    cacheHits: stats.cacheHits
+  };
+  return result;
+}
@@ -0,0 +1,234 @@
+import { setTimeout, clearTimeout } from 'node:timers';
+import { createCancelledError } from '../../utils/request-control.js';
+import { logger } from '../../utils/logger.js';
+import { currentRequestScope } from './request-stats.js';
+
+export interface RequestThrottleConfig {
+  /** Sustained request rate; 0 disables rate limiting */
+  requestsPerSecond: number;
+  /** Requests that may start at once after an idle period (defaults to requestsPerSecond) */
+  burst?: number;
+  /** Requests in flight at once; 0 disables the limit */
+  maxConcurrent: number;
+}
+
+export interface RequestThrottleMetrics {
+  inFlight: number;
+  queued: number;
+  maxQueued: number;
+  /** Requests that had to wait for a slot */
+  delayedRequests: number;
+  averageWaitMs: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+// Requests made outside a tool call (startup discovery, subscriptions) share one queue
+const BACKGROUND_CALLER = {};
+
+const throttles = new Map<string, RequestThrottle>();
+
+export const DEFAULT_THROTTLE_CONFIG: RequestThrottleConfig = {
+  requestsPerSecond: 10,
+  maxConcurrent: 6
+};
+
+/**
+ * Token-bucket rate limiter combined with a max-in-flight semaphore.
+ *
+ * Waiting requests are queued per tool call and served round-robin, so one
+ * call that fans out into hundreds of requests cannot starve the others.
+ */
+export class RequestThrottle {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private queued = 0;
+  private maxQueued = 0;
+  private delayedRequests = 0;
+  private totalWaitMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Insertion order is the round-robin order
+  private readonly queues = new Map<object, Waiter[]>();
+  private readonly capacity: number;
+
+  constructor(private readonly config: RequestThrottleConfig) {
+    this.capacity = Math.max(1, config.burst ?? config.requestsPerSecond);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Throttle shared by every session talking to the same TargetProcess domain,
+   * since the tenant's limits apply to all of them together. The first
+   * configuration registered for a domain wins.
+   */
+  static forDomain(domain: string, config: RequestThrottleConfig): RequestThrottle {
+    let throttle = throttles.get(domain);
+    if (!throttle) {
+      throttle = new RequestThrottle(config);
+      throttles.set(domain, throttle);
+    }
+    return throttle;
+  }
+
+  /**
+   * Metrics summed over every domain throttle, for health reporting. The
+   * domains are left out, since the health check needs no credentials.
+   */
+  static totalMetrics(): RequestThrottleMetrics {
+    const all = [...throttles.values()];
+    const delayedRequests = all.reduce((sum, throttle) => sum + throttle.delayedRequests, 0);
+    const totalWaitMs = all.reduce((sum, throttle) => sum + throttle.totalWaitMs, 0);
+    return {
+      inFlight: all.reduce((sum, throttle) => sum + throttle.inFlight, 0),
+      queued: all.reduce((sum, throttle) => sum + throttle.queued, 0),
+      maxQueued: Math.max(0, ...all.map(throttle => throttle.maxQueued)),
+      delayedRequests,
+      averageWaitMs: delayedRequests > 0 ? Math.round(totalWaitMs / delayedRequests) : 0
+    };
+  }
+
+  /**
+   * Wait for a request slot. Call the returned function once the request has finished.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(createCancelledError());
+    }
+    if (this.queued === 0 && this.canStart()) {
+      return Promise.resolve(this.start());
+    }
+
+    const caller = currentRequestScope() ?? BACKGROUND_CALLER;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(caller, waiter);
+        reject(createCancelledError());
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const waiters = this.queues.get(caller) ?? [];
+      waiters.push(waiter);
+      this.queues.set(caller, waiters);
+      this.queued++;
+      this.maxQueued = Math.max(this.maxQueued, this.queued);
+      logger.debug(`TargetProcess request queued (${this.queued} waiting, ${this.inFlight} in flight)`);
+
+      this.drain();
+    });
+  }
+
+  getMetrics(): RequestThrottleMetrics {
+    return {
+      inFlight: this.inFlight,
+      queued: this.queued,
+      maxQueued: this.maxQueued,
+      delayedRequests: this.delayedRequests,
+      averageWaitMs: this.delayedRequests > 0 ? Math.round(this.totalWaitMs / this.delayedRequests) : 0
+    };
+  }
+
+  private canStart(): boolean {
+    this.refill();
+    const belowConcurrency = this.config.maxConcurrent <= 0 || this.inFlight < this.config.maxConcurrent;
+    const hasToken = this.config.requestsPerSecond <= 0 || this.tokens >= 1;
+    return belowConcurrency && hasToken;
+  }
+
+  private start(): () => void {
+    this.inFlight++;
+    if (this.config.requestsPerSecond > 0) {
+      this.tokens -= 1;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Start queued requests while there is capacity, taking one from each caller in turn
+   */
+  private drain(): void {
+    while (this.queued > 0 && this.canStart()) {
+      const [caller, waiters] = this.queues.entries().next().value as [object, Waiter[]];
+      const waiter = waiters.shift()!;
+      this.queues.delete(caller);
+      if (waiters.length > 0) {
+        this.queues.set(caller, waiters);
+      }
+      this.queued--;
+
+      waiter.cleanup();
+      this.delayedRequests++;
+      this.totalWaitMs += Date.now() - waiter.enqueuedAt;
+      waiter.resolve(this.start());
+    }
+
+    // Out of tokens rather than slots: wake up when the next token is due
+    const waitingForToken = this.queued > 0 &&
+      (this.config.maxConcurrent <= 0 || this.inFlight < this.config.maxConcurrent);
+    if (waitingForToken && !this.timer) {
+      const delay = Math.ceil(((1 - this.tokens) / this.config.requestsPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.max(delay, 1));
+      this.timer.unref();
+    }
+  }
+
+  private refill(): void {
+    if (this.config.requestsPerSecond <= 0) return;
+
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.config.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private remove(caller: object, waiter: Waiter): void {
+    const waiters = this.queues.get(caller);
+    const index = waiters?.indexOf(waiter) ?? -1;
+    if (!waiters || index < 0) return;
+
+    waiters.splice(index, 1);
+    if (waiters.length === 0) {
+      this.queues.delete(caller);
+    }
+    this.queued--;
+    waiter.cleanup();
+  }
+
+  /**
+   * Stop the pending wake-up timer and reject anything still queued
+   */
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const waiters of this.queues.values()) {
+      waiters.forEach(waiter => {
+        waiter.cleanup();
+        waiter.reject(new Error('Request throttle closed'));
+      });
+    }
+    this.queues.clear();
+    this.queued = 0;
+  }
+}
@@ -0,0 +1,361 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { URL } from 'node:url';
+import { logger } from '../../utils/logger.js';
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  /** Responses kept in memory per domain; the least recently used are evicted first */
+  maxEntries: number;
+  /** TTL for collections without their own entry in ttls */
+  defaultTtlMs: number;
+  /** TTL per collection (first path segment, e.g. EntityStates); 0 disables caching it */
+  ttls?: Record<string, number>;
+  /** Also persist responses to this directory so they survive restarts */
+  directory?: string;
+}
+
+export interface CacheEntry {
+  /** Response body as JSON text, so callers always get their own copy */
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  expiresAt: number;
+  /** Lower-cased first path segment, used for invalidation */
+  collection: string;
+  entityId?: number;
+  /** Lower-cased collection listed under the entity, e.g. tasks for UserStories/5/Tasks */
+  nested?: string;
+}
+
+/**
+ * What invalidation needs to know about an entry, without its body
+ */
+export type CacheEntryInfo = Pick<CacheEntry, 'collection' | 'entityId' | 'nested' | 'expiresAt'>;
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove every entry matching the predicate */
+  deleteWhere(predicate: (entry: CacheEntryInfo) => boolean): Promise<void>;
+}
+
+// Reference data changes rarely; everything else uses the default TTL
+const DEFAULT_TTLS: Record<string, number> = {
+  entitytypes: 3600000,
+  meta: 3600000,
+  processes: 600000,
+  entitystates: 600000,
+  priorities: 600000,
+  severities: 600000,
+  roles: 600000
+};
+
+// Lists spanning every kind of work item, made stale by a write to any of them
+const SPANNING_COLLECTIONS = new Set(['generals', 'assignables']);
+
+const domainStores = new Map<string, CacheStore[]>();
+
+function createStores(config: ResponseCacheConfig): CacheStore[] {
+  return [
+    new MemoryCacheStore(config.maxEntries),
+    ...(config.directory ? [new FileCacheStore(config.directory)] : [])
+  ];
+}
+
+function entryInfo({ collection, entityId, nested, expiresAt }: CacheEntry): CacheEntryInfo {
+  return { collection, entityId, nested, expiresAt };
+}
+
+/**
+ * Ids of the entities a write body refers to, such as the user story of a new
+ * task or the assignable of a time record, whose totals the write may change
+ */
+function referencedIds(body?: string): Set<number> {
+  const ids = new Set<number>();
+  let data: unknown;
+  try {
+    data = body ? JSON.parse(body) : undefined;
+  } catch {
+    return ids;
+  }
+  for (const item of Array.isArray(data) ? data : [data]) {
+    if (!item || typeof item !== 'object') continue;
+    for (const value of Object.values(item)) {
+      const id = (value as { Id?: unknown } | null)?.Id;
+      if (typeof id === 'number') ids.add(id);
+    }
+  }
+  return ids;
+}
+
+export const DEFAULT_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: true,
+  maxEntries: 500,
+  defaultTtlMs: 30000
+};
+
+/**
+ * In-memory LRU store. Map iteration order doubles as recency order.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async deleteWhere(predicate: (entry: CacheEntryInfo) => boolean): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry)) this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * On-disk store with one JSON file per response, named by a hash of the key.
+ * What each file holds is indexed in memory, read from the files once, so
+ * invalidating only removes files rather than reading them all.
+ */
+export class FileCacheStore implements CacheStore {
+  private ready: Promise<unknown> | null = null;
+  private index: Promise<Map<string, CacheEntryInfo>> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.fileFor(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    await this.ready;
+    const file = this.fileFor(key);
+    await writeFile(file, JSON.stringify(entry), { mode: 0o600 });
+    (await this.loadIndex()).set(file, entryInfo(entry));
+  }
+
+  async deleteWhere(predicate: (entry: CacheEntryInfo) => boolean): Promise<void> {
+    const index = await this.loadIndex();
+    const now = Date.now();
+    const stale = [...index].filter(([, info]) => predicate(info) || info.expiresAt < now).map(([file]) => file);
+    for (const file of stale) {
+      index.delete(file);
+    }
+    await Promise.all(stale.map(file => rm(file, { force: true })));
+  }
+
+  private loadIndex(): Promise<Map<string, CacheEntryInfo>> {
+    this.index ??= this.readIndex();
+    return this.index;
+  }
+
+  /**
+   * Index the files left by an earlier run, dropping unreadable ones
+   */
+  private async readIndex(): Promise<Map<string, CacheEntryInfo>> {
+    const index = new Map<string, CacheEntryInfo>();
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return index;
+    }
+
+    await Promise.all(files.filter(file => file.endsWith('.json')).map(async file => {
+      const filePath = path.join(this.directory, file);
+      try {
+        index.set(filePath, entryInfo(JSON.parse(await readFile(filePath, 'utf8')) as CacheEntry));
+      } catch {
+        await rm(filePath, { force: true });
+      }
+    }));
+    return index;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * Cache for GET responses, keyed by URL and the caller's credentials.
+ *
+ * Expired entries with an ETag or Last-Modified are revalidated with a
+ * conditional request instead of being refetched. Any write to an entity
+ * drops the cached responses for that entity, through whichever collection
+ * they were read, for its collection lists and the Generals and Assignables
+ * lists, for lists of its type nested under other entities, and for the
+ * entities the write refers to. Sessions on the same domain share their
+ * stores (see storesFor), so a write drops what any of them cached.
+ */
+export class ResponseCache {
+  private readonly stores: CacheStore[];
+  private readonly basePath: string;
+  private readonly identity: string;
+  private readonly ttls: Record<string, number>;
+
+  constructor(
+    private readonly config: ResponseCacheConfig,
+    baseUrl: string,
+    authToken: string,
+    stores?: CacheStore[]
+  ) {
+    this.stores = stores ?? createStores(config);
+    this.basePath = new URL(baseUrl).pathname.replace(/\/$/, '').toLowerCase();
+    // Never keep the credential itself in a key that may be written to disk
+    this.identity = createHash('sha256').update(authToken).digest('hex').slice(0, 16);
+    this.ttls = { ...DEFAULT_TTLS };
+    for (const [collection, ttl] of Object.entries(config.ttls ?? {})) {
+      this.ttls[collection.toLowerCase()] = ttl;
+    }
+  }
+
+  /**
+   * Stores shared by every session talking to the same TargetProcess API, so
+   * that a write in one session invalidates what the others cached. Keys
+   * keep the identities apart. The first configuration registered wins.
+   */
+  static storesFor(baseUrl: string, config: ResponseCacheConfig): CacheStore[] {
+    let stores = domainStores.get(baseUrl);
+    if (!stores) {
+      stores = createStores(config);
+      domainStores.set(baseUrl, stores);
+    }
+    return stores;
+  }
+
+  /**
+   * Find a cached response; fresh is false once its TTL has passed
+   */
+  async lookup(url: string): Promise<{ entry: CacheEntry; fresh: boolean } | undefined> {
+    const key = this.keyFor(url);
+
+    for (const [tier, store] of this.stores.entries()) {
+      const entry = await store.get(key);
+      if (!entry) continue;
+
+      // Promote entries found on disk into memory
+      for (const faster of this.stores.slice(0, tier)) {
+        await faster.set(key, entry);
+      }
+      return { entry, fresh: entry.expiresAt > Date.now() };
+    }
+    return undefined;
+  }
+
+  /**
+   * Headers for revalidating an expired entry
+   */
+  conditionalHeaders(entry?: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) headers['If-None-Match'] = entry.etag;
+    if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  async store(url: string, data: unknown, headers: { get(name: string): string | null }): Promise<void> {
+    const { collection, entityId, nested } = this.parse(url);
+    const ttl = this.ttls[collection] ?? this.config.defaultTtlMs;
+    if (ttl <= 0 || /no-store/i.test(headers.get('cache-control') || '')) {
+      return;
+    }
+
+    await this.save(url, {
+      body: JSON.stringify(data),
+      etag: headers.get('etag') || undefined,
+      lastModified: headers.get('last-modified') || undefined,
+      expiresAt: Date.now() + ttl,
+      collection,
+      ...(entityId !== undefined ? { entityId } : {}),
+      ...(nested ? { nested } : {})
+    });
+  }
+
+  /**
+   * Extend an entry the server confirmed is unchanged (304 Not Modified)
+   */
+  async refresh(url: string, entry: CacheEntry): Promise<void> {
+    const ttl = this.ttls[entry.collection] ?? this.config.defaultTtlMs;
+    await this.save(url, { ...entry, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Drop responses made stale by a write to url with the given body: the
+   * entity itself and any list of its collection, or the whole collection for
+   * creates and bulk writes, along with the lists and entities that include it
+   */
+  async invalidate(url: string, body?: string): Promise<void> {
+    const { collection, entityId } = this.parse(url);
+    const referenced = referencedIds(body);
+    const isStale = (entry: CacheEntryInfo) =>
+      (entry.collection === collection &&
+        (entityId === undefined || entry.entityId === undefined || entry.entityId === entityId)) ||
+      // Ids are shared by every kind of work item, so Bugs/7 is also Generals/7
+      (entityId !== undefined && entry.entityId === entityId) ||
+      (SPANNING_COLLECTIONS.has(entry.collection) && entry.entityId === undefined) ||
+      entry.nested === collection ||
+      (entry.entityId !== undefined && referenced.has(entry.entityId));
+
+    for (const store of this.stores) {
+      try {
+        await store.deleteWhere(isStale);
+      } catch (error) {
+        logger.warn('Failed to invalidate cached responses:', error);
+      }
+    }
+  }
+
+  private async save(url: string, entry: CacheEntry): Promise<void> {
+    const key = this.keyFor(url);
+    for (const store of this.stores) {
+      try {
+        await store.set(key, entry);
+      } catch (error) {
+        // A full or read-only disk should not fail the request
+        logger.warn('Failed to store cached response:', error);
+      }
+    }
+  }
+
+  private keyFor(url: string): string {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('access_token');
+    parsed.searchParams.sort();
+    return `${this.identity}:${parsed.pathname.toLowerCase()}?${parsed.searchParams.toString()}`;
+  }
+
+  private parse(url: string): { collection: string; entityId?: number; nested?: string } {
+    const pathname = new URL(url).pathname.toLowerCase();
+    const relative = pathname.startsWith(this.basePath) ? pathname.slice(this.basePath.length) : pathname;
+    const [collection = '', id, nested] = relative.split('/').filter(Boolean);
+    return /^\d+$/.test(id || '') ? { collection, entityId: Number(id), nested } : { collection };
+  }
+}
@@ -1,5 +1,9 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { URLSearchParams } from 'node:url';
+import { TPError } from '../http/http-error-handler.js';
+import { TPErrorType } from '../../core/interfaces/error-handler.interface.js';
+import { WhereClauseError, normalizeWhere, parseWhere, serializeWhere } from './where-parser.js';
+import { WhereFilter, compileFilter } from './where-filter.js';
 
 type OrderByOption = string | { field: string; direction: 'asc' | 'desc' };
 
@@ -7,15 +11,37 @@ export interface QueryOptions {
   where?: string;
   include?: string[];
   take?: number;
+  skip?: number;
   orderBy?: string[];
   format?: string;
 }
 
 export interface AuthConfig {
-  type: 'basic' | 'apikey';
+  type: 'basic' | 'apikey' | 'bearer';
   token: string;
 }
 
+/**
+ * Parse a where clause and return it in normalized form. Syntax errors are
+ * reported with their position and a marker under the offending token.
+ */
+export function validateWhereClause(where: string): string {
+  try {
+    return normalizeWhere(where);
+  } catch (error) {
+    if (!(error instanceof WhereClauseError)) throw error;
+
+    const marker = `${where}\n${' '.repeat(error.position)}^`;
+    const invalid = new TPError(
+      TPErrorType.INVALID_QUERY,
+      ErrorCode.InvalidParams,
+      `Invalid where clause at position ${error.position + 1}: ${error.message}\n${marker}`,
+      { context: { position: error.position, timestamp: new Date() } }
+    );
+    throw error.hint ? invalid.withSuggestions([error.hint]) : invalid;
+  }
+}
+
 /**
  * Builder for constructing TargetProcess API queries with validation
  * Handles query parameter formatting, validation, and URL construction
@@ -38,6 +64,21 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add a structured filter, combined with any where clause already set
+   */
+  filter(filter?: WhereFilter): QueryBuilder {
+    if (filter) {
+      const compiled = compileFilter(filter);
+      this.queryOptions.where = serializeWhere(
+        this.queryOptions.where
+          ? { kind: 'and', operands: [parseWhere(this.queryOptions.where), compiled] }
+          : compiled
+      );
+    }
+    return this;
+  }
+
   /**
    * Set include parameters with validation
    */
@@ -58,6 +99,16 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Set skip (offset) parameter
+   */
+  skip(offset: number): QueryBuilder {
+    if (offset > 0) {
+      this.queryOptions.skip = offset;
+    }
+    return this;
+  }
+
   /**
    * Set orderBy parameters
    */
@@ -90,6 +141,11 @@ export class QueryBuilder {
       params.append('take', this.queryOptions.take.toString());
     }
 
+    // Add skip parameter
+    if (this.queryOptions.skip) {
+      params.append('skip', this.queryOptions.skip.toString());
+    }
+
     // Add where clause
     if (this.queryOptions.where) {
       params.append('where', this.queryOptions.where);
@@ -148,6 +204,11 @@ export class QueryBuilder {
       parts.push(`take=${this.queryOptions.take}`);
     }
 
+    // Add skip
+    if (this.queryOptions.skip) {
+      parts.push(`skip=${this.queryOptions.skip}`);
+    }
+
     // Add where (encode it)
     if (this.queryOptions.where) {
       parts.push(`where=${encodeURIComponent(this.queryOptions.where)}`);
@@ -189,39 +250,6 @@ export class QueryBuilder {
     return new QueryBuilder(this.authConfig);
   }
 
-  /**
-   * Formats a value for use in a where clause based on its type
-   */
-  private formatWhereValue(value: unknown): string {
-    if (value === null) {
-      return 'null';
-    }
-
-    if (typeof value === 'boolean') {
-      return value.toString().toLowerCase();
-    }
-
-    if (value instanceof Date) {
-      return `'${value.toISOString().split('T')[0]}'`;
-    }
-
-    if (Array.isArray(value)) {
-      return `[${value.map(v => this.formatWhereValue(v)).join(',')}]`;
-    }
-
-    // Handle strings
-    const strValue = String(value);
-
-    // Remove any existing quotes
-    const unquoted = strValue.replace(/^['"]|['"]$/g, '');
-
-    // Escape single quotes by doubling them
-    const escaped = unquoted.replace(/'/g, "''");
-
-    // Always wrap in single quotes as per TargetProcess API requirements
-    return `'${escaped}'`;
-  }
-
   /**
    * Formats a field name for use in a where clause
    */
@@ -239,71 +267,7 @@ export class QueryBuilder {
    * Validates and formats a where clause according to TargetProcess rules
    */
   private validateWhereClause(where: string): string {
-    try {
-      // Handle empty/null cases
-      if (!where || !where.trim()) {
-        throw new McpError(ErrorCode.InvalidRequest, 'Empty where clause');
-      }
-
-      // Split on 'and' while preserving quoted strings
-      const conditions: string[] = [];
-      let currentCondition = '';
-      let inQuote = false;
-      let quoteChar = '';
-
-      for (let i = 0; i < where.length; i++) {
-        const char = where[i];
-
-        if ((char === "'" || char === '"') && where[i - 1] !== '\\') {
-          if (!inQuote) {
-            inQuote = true;
-            quoteChar = char;
-          } else if (char === quoteChar) {
-            inQuote = false;
-          }
-        }
-
-        if (!inQuote && where.slice(i, i + 4).toLowerCase() === ' and') {
-          conditions.push(currentCondition.trim());
-          currentCondition = '';
-          i += 3; // Skip 'and'
-          continue;
-        }
-
-        currentCondition += char;
-      }
-      conditions.push(currentCondition.trim());
-
-      return conditions.map(condition => {
-        // Handle null checks
-        if (/\bis\s+null\b/i.test(condition)) {
-          const field = condition.split(/\bis\s+null\b/i)[0].trim();
-          return `${this.formatWhereField(field)} is null`;
-        }
-        if (/\bis\s+not\s+null\b/i.test(condition)) {
-          const field = condition.split(/\bis\s+not\s+null\b/i)[0].trim();
-          return `${this.formatWhereField(field)} is not null`;
-        }
-
-        // Match field and operator while preserving quoted values
-        const match = condition.match(/^([^\s]+)\s+(eq|ne|gt|gte|lt|lte|in|contains|not\s+contains)\s+(.+)$/i);
-        if (!match) {
-          throw new McpError(ErrorCode.InvalidRequest, `Invalid condition format: ${condition}`);
-        }
-
-        const [, field, operator, value] = match;
-        const formattedField = this.formatWhereField(field);
-        const formattedValue = this.formatWhereValue(value.trim());
-
-        return `${formattedField} ${operator.toLowerCase()} ${formattedValue}`;
-      }).join(' and ');
-    } catch (error) {
-      if (error instanceof McpError) throw error;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Invalid where clause: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+    return validateWhereClause(where);
   }
 
   /**
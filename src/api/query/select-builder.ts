@@ -0,0 +1,203 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+export type AggregateFunction = 'count' | 'sum' | 'average' | 'min' | 'max';
+
+export interface SelectItemOptions {
+  /** API v2 filter applied to the collection, e.g. entityState.isFinal==false */
+  where?: string;
+  /** Name of the computed field in the result */
+  alias?: string;
+}
+
+type SelectItem =
+  | { kind: 'field'; path: string; alias?: string }
+  | { kind: 'aggregate'; fn: AggregateFunction; collection: string; field?: string; where?: string; alias?: string }
+  | { kind: 'collection'; collection: string; select: SelectBuilder; where?: string; alias?: string }
+  | { kind: 'expression'; expression: string; alias: string };
+
+const PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check that brackets in an API v2 expression are balanced outside string literals,
+ * so a user supplied fragment cannot close the select or where it is embedded in
+ */
+export function assertBalancedExpression(expression: string, label: string): void {
+  const closing: Record<string, string> = { '(': ')', '{': '}', '[': ']' };
+  const stack: string[] = [];
+  let quoteChar = '';
+
+  for (const char of expression) {
+    if (quoteChar) {
+      if (char === quoteChar) quoteChar = '';
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quoteChar = char;
+    } else if (closing[char]) {
+      stack.push(closing[char]);
+    } else if (char === ')' || char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        throw new McpError(ErrorCode.InvalidRequest, `Unbalanced '${char}' in ${label}: ${expression}`);
+      }
+    }
+  }
+
+  if (quoteChar || stack.length > 0) {
+    throw new McpError(ErrorCode.InvalidRequest, `Unterminated ${quoteChar ? 'string' : 'bracket'} in ${label}: ${expression}`);
+  }
+}
+
+/**
+ * Builder for API v2 select projections
+ *
+ * new SelectBuilder()
+ *   .fields('id', 'name')
+ *   .count('bugs')
+ *   .count('tasks', { where: 'entityState.isFinal==false', alias: 'openTasks' })
+ *   .build()
+ * // {id,name,bugs.count,openTasks:tasks.where(entityState.isFinal==false).count}
+ */
+export class SelectBuilder {
+  private readonly items: SelectItem[] = [];
+
+  /**
+   * Select a field or a path through references, e.g. entityState.name
+   */
+  field(path: string, alias?: string): SelectBuilder {
+    this.items.push({ kind: 'field', path: this.validatePath(path), alias: this.validateAlias(alias) });
+    return this;
+  }
+
+  fields(...paths: string[]): SelectBuilder {
+    paths.forEach(path => this.field(path));
+    return this;
+  }
+
+  /**
+   * Count the items of a collection, optionally filtered
+   */
+  count(collection: string, options: SelectItemOptions = {}): SelectBuilder {
+    return this.aggregate('count', collection, undefined, options);
+  }
+
+  /**
+   * Sum, average, min or max of a numeric field across a collection
+   */
+  aggregate(
+    fn: AggregateFunction,
+    collection: string,
+    field?: string,
+    options: SelectItemOptions = {}
+  ): SelectBuilder {
+    if (fn !== 'count' && !field) {
+      throw new McpError(ErrorCode.InvalidRequest, `Aggregate ${fn} on ${collection} requires a field`);
+    }
+    this.items.push({
+      kind: 'aggregate',
+      fn,
+      collection: this.validatePath(collection),
+      field: field ? this.validatePath(field) : undefined,
+      where: this.validateWhere(options.where),
+      alias: this.validateAlias(options.alias)
+    });
+    return this;
+  }
+
+  /**
+   * Select fields of each item in a nested collection
+   */
+  collection(
+    collection: string,
+    build: (select: SelectBuilder) => SelectBuilder,
+    options: SelectItemOptions = {}
+  ): SelectBuilder {
+    const select = build(new SelectBuilder());
+    if (select.isEmpty()) {
+      throw new McpError(ErrorCode.InvalidRequest, `Nested select for ${collection} is empty`);
+    }
+    this.items.push({
+      kind: 'collection',
+      collection: this.validatePath(collection),
+      select,
+      where: this.validateWhere(options.where),
+      alias: this.validateAlias(options.alias)
+    });
+    return this;
+  }
+
+  /**
+   * Select a computed expression the builder has no method for, e.g. effort-timeSpent
+   */
+  expression(alias: string, expression: string): SelectBuilder {
+    if (!expression.trim()) {
+      throw new McpError(ErrorCode.InvalidRequest, `Empty expression for ${alias}`);
+    }
+    assertBalancedExpression(expression, 'select expression');
+    this.items.push({ kind: 'expression', alias: this.validateAlias(alias)!, expression: expression.trim() });
+    return this;
+  }
+
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  /**
+   * Build the select parameter value
+   */
+  build(): string {
+    if (this.isEmpty()) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Select must contain at least one field');
+    }
+    return `{${this.items.map(item => this.formatItem(item)).join(',')}}`;
+  }
+
+  private formatItem(item: SelectItem): string {
+    switch (item.kind) {
+      case 'field':
+        return this.withAlias(item.path, item.alias);
+      case 'expression':
+        return this.withAlias(item.expression, item.alias);
+      case 'aggregate': {
+        const source = this.filteredCollection(item.collection, item.where);
+        const call = item.fn === 'count' ? 'count' : `${item.fn}(${item.field})`;
+        return this.withAlias(`${source}.${call}`, item.alias);
+      }
+      case 'collection': {
+        const source = this.filteredCollection(item.collection, item.where);
+        return this.withAlias(`${source}.select(${item.select.build()})`, item.alias);
+      }
+    }
+  }
+
+  private filteredCollection(collection: string, where?: string): string {
+    return where ? `${collection}.where(${where})` : collection;
+  }
+
+  private withAlias(expression: string, alias?: string): string {
+    return alias ? `${alias}:${expression}` : expression;
+  }
+
+  private validatePath(path: string): string {
+    const trimmed = path.trim();
+    if (!PATH_PATTERN.test(trimmed)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Invalid select field: ${path}`);
+    }
+    return trimmed;
+  }
+
+  private validateAlias(alias?: string): string | undefined {
+    if (alias !== undefined && !ALIAS_PATTERN.test(alias)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Invalid select alias: ${alias}`);
+    }
+    return alias;
+  }
+
+  private validateWhere(where?: string): string | undefined {
+    if (!where?.trim()) {
+      return undefined;
+    }
+    assertBalancedExpression(where, 'collection filter');
+    return where.trim();
+  }
+}
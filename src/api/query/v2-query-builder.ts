@@ -0,0 +1,153 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { URLSearchParams } from 'node:url';
+import { AuthConfig } from './query-builder.js';
+import { SelectBuilder, assertBalancedExpression } from './select-builder.js';
+
+export interface V2QueryOptions {
+  select?: string;
+  where?: string;
+  filter?: string;
+  result?: string;
+  orderBy?: string[];
+  take?: number;
+  skip?: number;
+}
+
+/**
+ * Builder for TargetProcess API v2 queries (/api/v2/{type}?select=...&where=...)
+ *
+ * API v2 expressions use their own syntax (entityState.isFinal==false), so
+ * where clauses are passed through as written rather than reformatted like v1.
+ */
+export class V2QueryBuilder {
+  private queryOptions: V2QueryOptions = {};
+  private authConfig: AuthConfig;
+
+  constructor(authConfig: AuthConfig) {
+    this.authConfig = authConfig;
+  }
+
+  /**
+   * Set the projection, either built or as a {field,...} expression
+   */
+  select(select: string | SelectBuilder): V2QueryBuilder {
+    if (select instanceof SelectBuilder) {
+      this.queryOptions.select = select.build();
+    } else if (select?.trim()) {
+      this.queryOptions.select = this.validateSelect(select.trim());
+    }
+    return this;
+  }
+
+  /**
+   * Set the API v2 where expression
+   */
+  where(whereClause: string): V2QueryBuilder {
+    if (whereClause?.trim()) {
+      assertBalancedExpression(whereClause, 'where clause');
+      this.queryOptions.where = whereClause.trim();
+    }
+    return this;
+  }
+
+  /**
+   * AND a further condition into the where expression. The existing
+   * expression is parenthesized, and is balanced, so it cannot escape it.
+   */
+  andWhere(condition?: string): V2QueryBuilder {
+    if (condition?.trim()) {
+      this.queryOptions.where = this.queryOptions.where
+        ? `(${this.queryOptions.where}) and (${condition.trim()})`
+        : condition.trim();
+    }
+    return this;
+  }
+
+  /**
+   * Set the filter parameter (TargetProcess filter DSL, e.g. ?AssignedUser is Me)
+   */
+  filter(filter: string): V2QueryBuilder {
+    if (filter?.trim()) {
+      this.queryOptions.filter = filter.trim();
+    }
+    return this;
+  }
+
+  /**
+   * Aggregate over the whole result instead of returning items, e.g. {total:count}
+   */
+  result(result: string): V2QueryBuilder {
+    if (result?.trim()) {
+      assertBalancedExpression(result, 'result expression');
+      this.queryOptions.result = result.trim();
+    }
+    return this;
+  }
+
+  /**
+   * Set orderBy fields; API v2 accepts a direction, e.g. createDate desc
+   */
+  orderBy(fields: string[]): V2QueryBuilder {
+    if (fields?.length) {
+      this.queryOptions.orderBy = fields;
+    }
+    return this;
+  }
+
+  take(limit: number): V2QueryBuilder {
+    if (limit > 0) {
+      this.queryOptions.take = limit;
+    }
+    return this;
+  }
+
+  skip(offset: number): V2QueryBuilder {
+    if (offset > 0) {
+      this.queryOptions.skip = offset;
+    }
+    return this;
+  }
+
+  /**
+   * Build URLSearchParams for the query
+   */
+  buildParams(): URLSearchParams {
+    const params = new URLSearchParams();
+    const { select, where, filter, result, orderBy, take, skip } = this.queryOptions;
+
+    if (select) params.append('select', select);
+    if (where) params.append('where', where);
+    if (filter) params.append('filter', filter);
+    if (result) params.append('result', result);
+    if (orderBy?.length) params.append('orderBy', orderBy.map(field => field.trim()).join(','));
+    if (take) params.append('take', take.toString());
+    if (skip) params.append('skip', skip.toString());
+
+    if (this.authConfig.type === 'apikey') {
+      params.append('access_token', this.authConfig.token);
+    }
+
+    return params;
+  }
+
+  buildQueryString(): string {
+    return this.buildParams().toString();
+  }
+
+  /**
+   * Reset the builder for reuse
+   */
+  reset(): V2QueryBuilder {
+    this.queryOptions = {};
+    return this;
+  }
+
+  private validateSelect(select: string): string {
+    const wrapped = select.startsWith('{') ? select : `{${select}}`;
+    assertBalancedExpression(wrapped, 'select');
+    if (!wrapped.endsWith('}') || wrapped === '{}') {
+      throw new McpError(ErrorCode.InvalidRequest, `Invalid select: ${select}`);
+    }
+    return wrapped;
+  }
+}
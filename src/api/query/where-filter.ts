@@ -0,0 +1,106 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ComparisonOperator, WhereNode, WhereValue } from './where-parser.js';
+
+/**
+ * Structured alternative to a where string, e.g.
+ *
+ *   { and: [
+ *     { field: 'EntityState.Name', op: 'eq', value: 'Open' },
+ *     { or: [{ field: 'Priority.Importance', op: 'lte', value: 2 }, { field: 'AssignedUser', op: 'isNull' }] }
+ *   ] }
+ *
+ * Values are quoted and escaped when compiled, so agents never write quotes themselves.
+ */
+export const FILTER_OPERATORS = [
+  'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'notContains', 'in', 'isNull', 'isNotNull'
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterScalar = string | number | boolean;
+
+export interface FilterCondition {
+  field: string;
+  op: FilterOperator;
+  /** Omitted for isNull/isNotNull, a list for in; null with eq/ne means isNull/isNotNull */
+  value?: FilterScalar | FilterScalar[] | null;
+}
+
+export type WhereFilter = { and: WhereFilter[] } | { or: WhereFilter[] } | FilterCondition;
+
+const FIELD_PATTERN = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*$/;
+const MACRO_PATTERN = /^@[A-Za-z]\w*$/;
+
+function invalidFilter(path: string, message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Invalid filter at ${path}: ${message}`);
+}
+
+function compileScalar(value: unknown, path: string): WhereValue {
+  switch (typeof value) {
+    case 'string':
+      // Macros such as @Today are the only values written unquoted
+      return MACRO_PATTERN.test(value) ? { type: 'macro', name: value.slice(1) } : { type: 'string', value };
+    case 'number':
+      if (!Number.isFinite(value)) break;
+      return { type: 'number', value };
+    case 'boolean':
+      return { type: 'boolean', value };
+  }
+  throw invalidFilter(path, `value must be a string, number or boolean, got ${JSON.stringify(value)}`);
+}
+
+function compileCondition(condition: FilterCondition, path: string): WhereNode {
+  const { op, value } = condition;
+  if (!FIELD_PATTERN.test(condition.field)) {
+    throw invalidFilter(path, `"${condition.field}" is not a field name; use names like EntityState.Name`);
+  }
+  const field = { path: condition.field.split('.'), position: 0 };
+
+  if (op === 'isNull' || op === 'isNotNull') {
+    return { kind: 'null', field, negated: op === 'isNotNull' };
+  }
+  if (value === null && (op === 'eq' || op === 'ne')) {
+    return { kind: 'null', field, negated: op === 'ne' };
+  }
+  if (value === undefined || value === null) {
+    throw invalidFilter(path, `${op} needs a value`);
+  }
+
+  if (op === 'in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw invalidFilter(path, 'in needs a non-empty list of values');
+    }
+    return {
+      kind: 'comparison',
+      field,
+      operator: 'in',
+      value: { type: 'list', items: value.map((item, index) => compileScalar(item, `${path}.value[${index}]`)) }
+    };
+  }
+  if (Array.isArray(value)) {
+    throw invalidFilter(path, `${op} takes a single value; use in for a list`);
+  }
+  if ((op === 'contains' || op === 'notContains') && typeof value !== 'string') {
+    throw invalidFilter(path, `${op} needs a text value`);
+  }
+
+  const operator: ComparisonOperator = op === 'notContains' ? 'not contains' : op;
+  return { kind: 'comparison', field, operator, value: compileScalar(value, `${path}.value`) };
+}
+
+/**
+ * Compile a structured filter into a where-clause AST, see serializeWhere
+ */
+export function compileFilter(filter: WhereFilter, path = 'filter'): WhereNode {
+  if ('and' in filter || 'or' in filter) {
+    const kind = 'and' in filter ? 'and' : 'or';
+    const operands = 'and' in filter ? filter.and : filter.or;
+    if (!Array.isArray(operands) || operands.length === 0) {
+      throw invalidFilter(path, `${kind} needs at least one condition`);
+    }
+
+    const compiled = operands.map((operand, index) => compileFilter(operand, `${path}.${kind}[${index}]`));
+    return compiled.length === 1 ? compiled[0] : { kind, operands: compiled };
+  }
+  return compileCondition(filter, path);
+}
@@ -0,0 +1,552 @@
+/**
+ * Parser for the TargetProcess v1 where-clause language:
+ *
+ *   EntityState.Name eq 'Open' and (Priority.Importance lte 2 or AssignedUser is null)
+ *   CreateDate gte @Today and Project.Id in (1, 2, 3)
+ *   ModifyDate gt Today.AddDays(-7) and EntityState.Name ne 'Done'
+ *
+ * Produces an AST that can be checked against entity metadata and serialized
+ * back in normalized form: symbolic operators become keywords (== to eq),
+ * strings are single-quoted and nested groups are parenthesized.
+ */
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'not contains' | 'in';
+
+export type WhereValue =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  /** ISO date written without quotes, e.g. 2024-01-31 */
+  | { type: 'date'; value: string }
+  /** Built-in macro such as @Today or @User */
+  | { type: 'macro'; name: string }
+  /** Date function such as Today, Today.AddDays(-7) or ThisWeek.StartDate */
+  | { type: 'dateFunction'; expression: string }
+  | { type: 'list'; items: WhereValue[] };
+
+export interface WhereField {
+  path: string[];
+  /** Offset of the field in the original clause */
+  position: number;
+}
+
+export interface WhereComparison {
+  kind: 'comparison';
+  field: WhereField;
+  operator: ComparisonOperator;
+  value: WhereValue;
+}
+
+export interface WhereNullCheck {
+  kind: 'null';
+  field: WhereField;
+  negated: boolean;
+}
+
+export interface WhereLogical {
+  kind: 'and' | 'or';
+  operands: WhereNode[];
+}
+
+export type WhereNode = WhereComparison | WhereNullCheck | WhereLogical;
+
+/**
+ * Syntax error with the offset in the clause where parsing failed
+ */
+export class WhereClauseError extends Error {
+  constructor(message: string, readonly position: number, readonly hint?: string) {
+    super(message);
+    this.name = 'WhereClauseError';
+  }
+}
+
+type TokenType = 'word' | 'string' | 'number' | 'date' | 'macro' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** Unescaped content of string tokens */
+  value?: string;
+  position: number;
+}
+
+const SYMBOL_OPERATORS: Record<string, ComparisonOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'ne',
+  '<>': 'ne',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte'
+};
+
+const KEYWORD_OPERATORS = new Set(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']);
+
+// Words that end a field name; anything else is joined to it ("Business Value" -> BusinessValue)
+const RESERVED_WORDS = new Set([...KEYWORD_OPERATORS, 'and', 'or', 'not', 'is', 'null', 'true', 'false']);
+
+// Date functions written as a single word, and those taking a number of days, months or years
+const DATE_FUNCTIONS = /^(?:Today|(?:This|Last|Next)(?:Week|Month|Year)\.(?:StartDate|EndDate))$/;
+const DATE_OFFSET_FUNCTIONS = /^Today\.Add(?:Days|Weeks|Months|Years)$/;
+
+const OPERATOR_HINT = 'Use a field, an operator (eq, ne, gt, gte, lt, lte, contains, not contains, in, is null, is not null) and a value, e.g. EntityState.Name eq \'Open\'.';
+
+const SYMBOLS = ['==', '!=', '<>', '>=', '<=', '&&', '||', '=', '>', '<', '(', ')', '[', ']', ','];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= input.length) {
+          throw new WhereClauseError('unterminated string', start, `Close the string with ${char}.`);
+        }
+        if (input[i] === '\\' && input[i + 1] === char) {
+          value += char;
+          i += 2;
+        } else if (input[i] === char && input[i + 1] === char) {
+          value += char;
+          i += 2;
+        } else if (input[i] === char) {
+          i++;
+          break;
+        } else {
+          value += input[i++];
+        }
+      }
+      tokens.push({ type: 'string', text: input.slice(start, i), value, position: start });
+      continue;
+    }
+
+    const rest = input.slice(i);
+    const date = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?Z?)?/.exec(rest);
+    if (date) {
+      tokens.push({ type: 'date', text: date[0], position: i });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?(?![\w.])/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const macro = /^@[A-Za-z]\w*/.exec(rest);
+    if (macro) {
+      tokens.push({ type: 'macro', text: macro[0], position: i });
+      i += macro[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*/.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+    if (symbol) {
+      tokens.push({ type: 'symbol', text: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+
+    throw new WhereClauseError(`unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'end', text: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): WhereNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new WhereClauseError(
+        `unexpected ${this.describe(token)}`,
+        token.position,
+        token.text === ')' ? 'Remove the unmatched closing parenthesis.' : 'Join conditions with and / or.'
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): WhereNode {
+    const operands = [this.parseAnd()];
+    while (this.acceptWord('or') || this.acceptSymbol('||')) {
+      operands.push(this.parseAnd());
+    }
+    return this.logical('or', operands);
+  }
+
+  private parseAnd(): WhereNode {
+    const operands = [this.parsePrimary()];
+    while (this.acceptWord('and') || this.acceptSymbol('&&')) {
+      operands.push(this.parsePrimary());
+    }
+    return this.logical('and', operands);
+  }
+
+  private parsePrimary(): WhereNode {
+    const open = this.peek();
+    if (this.acceptSymbol('(')) {
+      const node = this.parseOr();
+      if (!this.acceptSymbol(')')) {
+        throw new WhereClauseError(
+          `expected ) to close the group opened at position ${open.position + 1}, found ${this.describe(this.peek())}`,
+          this.peek().position
+        );
+      }
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): WhereNode {
+    const field = this.parseField();
+
+    if (this.acceptWord('is')) {
+      const negated = this.acceptWord('not');
+      this.expectWord('null', `expected null after 'is${negated ? ' not' : ''}'`);
+      return { kind: 'null', field, negated };
+    }
+
+    const operator = this.parseOperator(field);
+    const value = operator === 'in' ? this.parseList() : this.parseValue(operator);
+
+    if (value === null) {
+      // "eq null" and "ne null" mean the same as "is null" and "is not null"
+      if (operator !== 'eq' && operator !== 'ne') {
+        throw new WhereClauseError(`null can only be compared with eq or ne`, this.previous().position);
+      }
+      return { kind: 'null', field, negated: operator === 'ne' };
+    }
+    if (operator.endsWith('contains') && value.type !== 'string') {
+      throw new WhereClauseError(`${operator} needs a quoted text value`, this.previous().position, 'e.g. Name contains \'login\'');
+    }
+    return { kind: 'comparison', field, operator, value };
+  }
+
+  private parseField(): WhereField {
+    const token = this.peek();
+    if (token.type !== 'word' || RESERVED_WORDS.has(token.text.toLowerCase())) {
+      throw new WhereClauseError(`expected a field name, found ${this.describe(token)}`, token.position, OPERATOR_HINT);
+    }
+    this.index++;
+
+    // Field names with spaces, such as custom fields, are written without them
+    let name = token.text;
+    while (this.peek().type === 'word' && !RESERVED_WORDS.has(this.peek().text.toLowerCase())) {
+      name += this.peek().text;
+      this.index++;
+    }
+
+    return { path: name.split('.'), position: token.position };
+  }
+
+  private parseOperator(field: WhereField): ComparisonOperator {
+    const token = this.peek();
+    if (token.type === 'symbol' && SYMBOL_OPERATORS[token.text]) {
+      this.index++;
+      return SYMBOL_OPERATORS[token.text];
+    }
+    if (token.type === 'word') {
+      const word = token.text.toLowerCase();
+      if (KEYWORD_OPERATORS.has(word)) {
+        this.index++;
+        return word as ComparisonOperator;
+      }
+      if (word === 'not' && this.tokens[this.index + 1]?.text.toLowerCase() === 'contains') {
+        this.index += 2;
+        return 'not contains';
+      }
+    }
+    throw new WhereClauseError(
+      `expected an operator after ${field.path.join('.')}, found ${this.describe(token)}`,
+      token.position,
+      OPERATOR_HINT
+    );
+  }
+
+  /**
+   * A single value, or null for the null literal
+   */
+  private parseValue(operator: string): WhereValue | null {
+    const token = this.peek();
+    switch (token.type) {
+      case 'string':
+        this.index++;
+        return { type: 'string', value: token.value ?? '' };
+      case 'number':
+        this.index++;
+        return { type: 'number', value: Number(token.text) };
+      case 'date':
+        this.index++;
+        return { type: 'date', value: token.text };
+      case 'macro':
+        this.index++;
+        return { type: 'macro', name: token.text.slice(1) };
+      case 'word': {
+        const word = token.text.toLowerCase();
+        if (word === 'true' || word === 'false') {
+          this.index++;
+          return { type: 'boolean', value: word === 'true' };
+        }
+        if (word === 'null') {
+          this.index++;
+          return null;
+        }
+        if (!RESERVED_WORDS.has(word)) {
+          const dateFunction = this.parseDateFunction();
+          if (dateFunction) {
+            return dateFunction;
+          }
+          throw new WhereClauseError(
+            `unquoted text ${token.text}`,
+            token.position,
+            `Quote text values: ${operator} '${token.text}'.`
+          );
+        }
+        break;
+      }
+    }
+    throw new WhereClauseError(`expected a value after ${operator}, found ${this.describe(token)}`, token.position);
+  }
+
+  private parseDateFunction(): WhereValue | null {
+    const token = this.peek();
+    if (DATE_FUNCTIONS.test(token.text)) {
+      this.index++;
+      return { type: 'dateFunction', expression: token.text };
+    }
+    if (!DATE_OFFSET_FUNCTIONS.test(token.text)) {
+      return null;
+    }
+    const [open, offset, close] = this.tokens.slice(this.index + 1, this.index + 4);
+    if (open?.text !== '(' || offset?.type !== 'number' || close?.text !== ')') {
+      throw new WhereClauseError(`expected a number in parentheses after ${token.text}`, open.position, `e.g. ${token.text}(-7)`);
+    }
+    this.index += 4;
+    return { type: 'dateFunction', expression: `${token.text}(${offset.text})` };
+  }
+
+  private parseList(): WhereValue {
+    const open = this.peek();
+    const close = open.text === '[' ? ']' : ')';
+    if (!this.acceptSymbol('(') && !this.acceptSymbol('[')) {
+      throw new WhereClauseError(`expected a list after in, found ${this.describe(open)}`, open.position, 'e.g. Id in (1, 2, 3)');
+    }
+
+    const items: WhereValue[] = [];
+    do {
+      const value = this.parseValue('in');
+      if (value === null) {
+        throw new WhereClauseError('null is not allowed in a list', this.previous().position, 'Use is null instead.');
+      }
+      items.push(value);
+    } while (this.acceptSymbol(','));
+
+    if (!this.acceptSymbol(close)) {
+      throw new WhereClauseError(`expected , or ${close} in the list, found ${this.describe(this.peek())}`, this.peek().position);
+    }
+    return { type: 'list', items };
+  }
+
+  private logical(kind: 'and' | 'or', operands: WhereNode[]): WhereNode {
+    if (operands.length === 1) {
+      return operands[0];
+    }
+    // Flatten (a and b) and c into one node
+    return { kind, operands: operands.flatMap(operand => (operand.kind === kind ? (operand as WhereLogical).operands : [operand])) };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.index - 1)];
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek();
+    if (token.type === 'word' && token.text.toLowerCase() === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.text === symbol) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectWord(word: string, message: string): void {
+    if (!this.acceptWord(word)) {
+      throw new WhereClauseError(`${message}, found ${this.describe(this.peek())}`, this.peek().position);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'the end of the clause' : `'${token.text}'`;
+  }
+}
+
+/**
+ * Parse a where clause, throwing WhereClauseError on invalid syntax
+ */
+export function parseWhere(input: string): WhereNode {
+  if (!input.trim()) {
+    throw new WhereClauseError('empty where clause', 0);
+  }
+  return new Parser(tokenize(input)).parse();
+}
+
+function serializeValue(value: WhereValue): string {
+  switch (value.type) {
+    case 'string':
+      return `'${value.value.replace(/'/g, '\'\'')}'`;
+    case 'number':
+      return String(value.value);
+    case 'boolean':
+      return String(value.value);
+    case 'date':
+      return `'${value.value}'`;
+    case 'macro':
+      return `@${value.name}`;
+    case 'dateFunction':
+      return value.expression;
+    case 'list':
+      return `(${value.items.map(serializeValue).join(',')})`;
+  }
+}
+
+function serializeField(field: WhereField): string {
+  const name = field.path.join('.');
+  // Custom fields are queried by their cf_ alias
+  return name.startsWith('CustomField.') ? `cf_${name.slice('CustomField.'.length)}` : name;
+}
+
+/**
+ * Write an AST back as a where clause, parenthesizing every nested group
+ */
+export function serializeWhere(node: WhereNode): string {
+  switch (node.kind) {
+    case 'comparison':
+      return `${serializeField(node.field)} ${node.operator} ${serializeValue(node.value)}`;
+    case 'null':
+      return `${serializeField(node.field)} is ${node.negated ? 'not null' : 'null'}`;
+    default:
+      return node.operands
+        .map(operand => (operand.kind === 'and' || operand.kind === 'or' ? `(${serializeWhere(operand)})` : serializeWhere(operand)))
+        .join(` ${node.kind} `);
+  }
+}
+
+const V2_OPERATORS: Partial<Record<ComparisonOperator, string>> = {
+  eq: '==', ne: '!=', gt: '>', gte: '>=', lt: '<', lte: '<='
+};
+
+function v2Value(value: WhereValue): string | undefined {
+  switch (value.type) {
+    case 'string':
+      return value.value.includes('\'') ? undefined : `'${value.value}'`;
+    case 'number':
+    case 'boolean':
+      return String(value.value);
+    case 'list': {
+      const items = value.items.map(v2Value);
+      return items.every(item => item !== undefined) ? `[${items.join(',')}]` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function v2Field(field: WhereField): string | undefined {
+  if (field.path[0] === 'CustomField') {
+    return undefined;
+  }
+  return field.path.map(part => part.charAt(0).toLowerCase() + part.slice(1)).join('.');
+}
+
+/**
+ * Write an AST as an API v2 where expression, e.g. entityState.isFinal==false.
+ * Undefined when part of it has no v2 equivalent here: custom fields, dates,
+ * macros, not contains, or text with quotes in it.
+ */
+export function toV2Where(node: WhereNode): string | undefined {
+  switch (node.kind) {
+    case 'comparison': {
+      const field = v2Field(node.field);
+      const value = v2Value(node.value);
+      if (field === undefined || value === undefined) {
+        return undefined;
+      }
+      if (node.operator === 'contains') {
+        return `${field}.contains(${value})`;
+      }
+      if (node.operator === 'in') {
+        return `${field} in ${value}`;
+      }
+      const operator = V2_OPERATORS[node.operator];
+      return operator ? `${field}${operator}${value}` : undefined;
+    }
+    case 'null': {
+      const field = v2Field(node.field);
+      return field === undefined ? undefined : `${field}${node.negated ? '!=' : '=='}null`;
+    }
+    default: {
+      const operands = node.operands.map(toV2Where);
+      return operands.every(operand => operand !== undefined)
+        ? operands.map(operand => `(${operand})`).join(` ${node.kind} `)
+        : undefined;
+    }
+  }
+}
+
+/**
+ * Every field the clause refers to, in order of appearance
+ */
+export function whereFields(node: WhereNode): WhereField[] {
+  switch (node.kind) {
+    case 'comparison':
+    case 'null':
+      return [node.field];
+    default:
+      return node.operands.flatMap(whereFields);
+  }
+}
+
+/**
+ * Parse and re-serialize a where clause in normalized form
+ */
+export function normalizeWhere(input: string): string {
+  return serializeWhere(parseWhere(input));
+}
@@ -0,0 +1,65 @@
+import { WhereNode, whereFields } from './where-parser.js';
+
+export interface UnknownWhereField {
+  /** Field path as written in the clause */
+  field: string;
+  /** Offset of the field in the clause */
+  position: number;
+  /** Closest valid field names */
+  candidates: string[];
+}
+
+/**
+ * Fields of the clause whose first segment is not a field of the entity type.
+ * Nested segments (Project.Name) belong to other types and are not checked.
+ */
+export function findUnknownFields(node: WhereNode, fields: string[]): UnknownWhereField[] {
+  const known = new Set(fields.map(field => field.toLowerCase()));
+
+  return whereFields(node)
+    .filter(field => {
+      const root = field.path[0];
+      // Custom fields are not part of the entity metadata
+      return !/^(cf_|CustomFields?$)/i.test(root) && !known.has(root.toLowerCase());
+    })
+    .map(field => ({
+      field: field.path.join('.'),
+      position: field.position,
+      candidates: similarFields(field.path[0], fields)
+    }));
+}
+
+/**
+ * Up to three field names that look like a misspelling of name
+ */
+export function similarFields(name: string, fields: string[]): string[] {
+  const wanted = name.toLowerCase();
+
+  return fields
+    .map(field => {
+      const candidate = field.toLowerCase();
+      const contains = wanted.length >= 3 && (candidate.includes(wanted) || wanted.includes(candidate));
+      const distance = contains ? 0 : editDistance(wanted, candidate);
+      return { field, distance };
+    })
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance || a.field.length - b.field.length)
+    .slice(0, 3)
+    .map(({ field }) => field);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,6 +1,7 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { EntityRegistry, EntityCategory } from '../../core/entity-registry.js';
 import { logger } from '../../utils/logger.js';
+import { CreateEntityRequest, UpdateEntityRequest } from '../client/api.types.js';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -148,6 +149,49 @@ export class EntityValidator {
     };
   }
 
+  /**
+   * Validate the data for a new entity before sending it.
+   * Assignable entities (stories, bugs, tasks...) must belong to a project.
+   */
+  validateCreateRequest(entityType: string, data: CreateEntityRequest): ValidationResult {
+    const errors: string[] = [];
+
+    if (typeof data?.Name !== 'string' || !data.Name.trim()) {
+      errors.push('Name is required');
+    }
+    if (this.isAssignableEntityType(entityType) && data?.Project?.Id === undefined) {
+      errors.push(`Project is required for ${entityType}`);
+    }
+    errors.push(...this.validateReferences(data));
+
+    return { isValid: errors.length === 0, validatedType: entityType, errors };
+  }
+
+  /**
+   * Validate an update before sending it
+   */
+  validateUpdateRequest(entityType: string, id: unknown, data: UpdateEntityRequest): ValidationResult {
+    const errors = [...this.validateEntityId(id).errors];
+
+    const fields = Object.values(data || {}).filter(value => value !== undefined);
+    if (fields.length === 0) {
+      errors.push('No fields to update');
+    }
+    errors.push(...this.validateReferences(data));
+
+    return { isValid: errors.length === 0, validatedType: entityType, errors };
+  }
+
+  /**
+   * Referenced entities such as { Project: { Id: 1 } } need a valid Id
+   */
+  private validateReferences(data: Record<string, any> | undefined): string[] {
+    return Object.entries(data || {})
+      .filter(([, value]) => value && typeof value === 'object' && !Array.isArray(value) && 'Id' in value)
+      .filter(([, value]) => !this.validateEntityId(value.Id).isValid)
+      .map(([field]) => `${field}.Id must be a positive integer`);
+  }
+
   /**
    * Get valid entity types using the configured callback or static registry
    */
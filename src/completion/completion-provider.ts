@@ -0,0 +1,170 @@
+import { TPService } from '../api/client/tp.service.js';
+import { TPContextInfo } from '../context/context-builder.js';
+import { EntityRegistry } from '../core/entity-registry.js';
+
+// MCP caps a completion response at 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+type ArgumentKind = 'entityType' | 'projectId' | 'projectName' | 'state' | 'userId' | 'userName';
+
+interface Candidate {
+  value: string;
+  /** Extra text the query may match, e.g. a project name for an id value */
+  label?: string;
+}
+
+/**
+ * Answers completion/complete requests from the session's discovered TargetProcess context.
+ *
+ * Arguments are recognized by name, so any prompt or resource template argument
+ * called `type`, `entityType`, `projectId`, `state`, `userId` and so on completes
+ * the same way. Values are ranked with fuzzy prefix matching.
+ */
+export class CompletionProvider {
+  constructor(
+    private readonly service: TPService,
+    private readonly getContext: () => TPContextInfo | null
+  ) {}
+
+  async complete(
+    ref: CompletionReference,
+    argumentName: string,
+    value: string,
+    otherArguments: Record<string, string> = {}
+  ): Promise<CompletionResult> {
+    const kind = this.classifyArgument(ref, argumentName);
+    if (!kind) {
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    const candidates = await this.getCandidates(kind, otherArguments);
+    const matches = rankCompletions(candidates, value);
+
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES
+    };
+  }
+
+  private classifyArgument(ref: CompletionReference, name: string): ArgumentKind | null {
+    // Resource template ids are free-form; only the type segment completes
+    if (ref.type === 'ref/resource') {
+      return name === 'type' ? 'entityType' : null;
+    }
+
+    const lower = name.toLowerCase();
+    const isId = lower.endsWith('id');
+
+    if (lower === 'type' || lower === 'entitytype') return 'entityType';
+    if (lower.startsWith('project')) return isId ? 'projectId' : 'projectName';
+    if (lower.includes('state') || lower.includes('status')) return 'state';
+    if (/user|assignee|owner/.test(lower)) return isId ? 'userId' : 'userName';
+    return null;
+  }
+
+  private async getCandidates(kind: ArgumentKind, otherArguments: Record<string, string>): Promise<Candidate[]> {
+    const context = this.getContext();
+
+    switch (kind) {
+      case 'entityType': {
+        let types: string[];
+        try {
+          types = await this.service.getCachedEntityTypes();
+        } catch {
+          types = context?.entityTypes.length ? context.entityTypes : EntityRegistry.getAllEntityTypes();
+        }
+        return types.map(type => ({ value: type }));
+      }
+      case 'projectId':
+        return (context?.projects || []).map(project => ({ value: String(project.id), label: project.name }));
+      case 'projectName':
+        return (context?.projects || []).map(project => ({ value: project.name, label: project.abbreviation }));
+      case 'state': {
+        // Narrow to the entity type being filled in alongside, when known
+        const entityType = otherArguments.type || otherArguments.entityType;
+        const states = (context?.entityStates || []).filter(state =>
+          !entityType || !state.entityType || state.entityType.toLowerCase() === entityType.toLowerCase()
+        );
+        return states.map(state => ({ value: state.name }));
+      }
+      case 'userId':
+        return (context?.users || []).map(user => ({ value: String(user.id), label: `${user.fullName} ${user.login}` }));
+      case 'userName':
+        return (context?.users || []).map(user => ({ value: user.login, label: user.fullName }));
+    }
+  }
+}
+
+/**
+ * Rank candidates against a partial value.
+ *
+ * Whole-value prefix matches come first, then matches at the start of a word
+ * (including camelCase words, so "story" finds "UserStory"), then values that
+ * contain the typed characters in order. Non-matching values are dropped.
+ */
+export function rankCompletions(candidates: Candidate[], query: string): string[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  const seen = new Set<string>();
+  const scored: Array<{ value: string; score: number }> = [];
+
+  for (const candidate of candidates) {
+    if (seen.has(candidate.value)) {
+      continue;
+    }
+    seen.add(candidate.value);
+
+    const score = Math.max(
+      scoreMatch(candidate.value, normalizedQuery),
+      candidate.label ? scoreMatch(candidate.label, normalizedQuery) : 0
+    );
+    if (score > 0) {
+      scored.push({ value: candidate.value, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.value.length - b.value.length || a.value.localeCompare(b.value))
+    .map(entry => entry.value);
+}
+
+function scoreMatch(text: string, query: string): number {
+  if (!query) {
+    return 1;
+  }
+
+  const lower = text.toLowerCase();
+  if (lower.startsWith(query)) {
+    return 3;
+  }
+
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s_\-./]+/);
+  if (words.some(word => word.startsWith(query))) {
+    return 2;
+  }
+
+  // Characters in order, e.g. "usst" for "UserStory"
+  let position = 0;
+  for (const char of lower) {
+    if (char === query[position]) {
+      position++;
+      if (position === query.length) {
+        return 1;
+      }
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,265 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { DEFAULT_PAGINATION_CONFIG } from '../api/client/tp.service.js';
+import { DEFAULT_CACHE_CONFIG } from '../api/http/response-cache.js';
+import { DEFAULT_THROTTLE_CONFIG } from '../api/http/request-throttle.js';
+import { DEFAULT_SUBSCRIPTION_OPTIONS, MIN_POLL_INTERVAL_MS } from '../resources/subscription-manager.js';
+import { DEFAULT_TRANSPORT_SETTINGS, TRANSPORT_MODES } from '../transport/http-transport.js';
+
+const FLAG_VALUES: Record<string, boolean> = {
+  true: true, yes: true, '1': true,
+  false: false, no: false, '0': false
+};
+
+// Environment variables are strings, so numbers and flags are coerced
+const flag = z.preprocess(
+  value => typeof value === 'string' ? FLAG_VALUES[value.trim().toLowerCase()] ?? value : value,
+  z.boolean()
+);
+const numeric = <T extends z.ZodType>(schema: T) => z.preprocess(
+  value => typeof value === 'string' ? (value.trim() === '' ? undefined : Number(value)) : value,
+  schema
+);
+const count = numeric(z.number().int().nonnegative());
+const positiveCount = numeric(z.number().int().positive());
+const rate = numeric(z.number().nonnegative());
+const text = z.string().trim().min(1);
+
+const authSchema = z.discriminatedUnion('type', [
+  z.strictObject({
+    type: z.literal('basic'),
+    credentials: z.strictObject({ username: text, password: text })
+  }),
+  z.strictObject({ type: z.literal('apikey'), apiKey: text }),
+  z.strictObject({ type: z.literal('bearer'), accessToken: text }),
+  z.strictObject({
+    type: z.literal('oauth'),
+    oauth: z.strictObject({
+      tokenUrl: z.url(),
+      clientId: text,
+      clientSecret: text.optional(),
+      refreshToken: text.optional(),
+      scope: text.optional()
+    })
+  })
+]);
+
+const connectionSchema = z.strictObject({
+  domain: text.regex(/^[A-Za-z0-9.-]+(?::\d+)?$/, 'Use the host name only, e.g. company.tpondemand.com'),
+  timeout: count.optional(),
+  retryAttempts: positiveCount.optional(),
+  retryDelay: count.optional(),
+  backoffFactor: numeric(z.number().min(1)).optional()
+});
+
+const toolRule = z.union([
+  text,
+  z.strictObject({
+    tool: text,
+    operations: z.array(text).min(1).optional(),
+    entityTypes: z.array(text).min(1).optional()
+  })
+]);
+
+const toolPolicyFields = {
+  readOnly: flag.default(false),
+  allow: z.array(toolRule).optional(),
+  deny: z.array(toolRule).default([])
+};
+
+/**
+ * Contents of a policy file
+ */
+export const toolPolicySchema = z.strictObject(toolPolicyFields);
+
+const idList = z.array(positiveCount).min(1);
+
+const scopeSchema = z.strictObject({
+  projectIds: idList.optional(),
+  teamIds: idList.optional()
+});
+
+const instanceName = z.string().regex(/^[A-Za-z][\w-]*$/, 'Use letters, digits, - and _, starting with a letter');
+
+export const DEFAULT_INSTANCE = 'default';
+
+export const appConfigSchema = z.strictObject({
+  auth: authSchema.optional(),
+  connection: connectionSchema,
+  cache: z.strictObject({
+    enabled: flag.default(DEFAULT_CACHE_CONFIG.enabled),
+    ttl: count.default(DEFAULT_CACHE_CONFIG.defaultTtlMs),
+    maxSize: positiveCount.default(DEFAULT_CACHE_CONFIG.maxEntries),
+    ttls: z.record(z.string(), count).default({}),
+    directory: text.optional()
+  }).prefault({}),
+  logging: z.strictObject({
+    level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    format: z.enum(['json', 'text']).optional(),
+    destination: z.enum(['console', 'file']).optional(),
+    filePath: text.optional()
+  }).prefault({}),
+  throttle: z.strictObject({
+    requestsPerSecond: rate.default(DEFAULT_THROTTLE_CONFIG.requestsPerSecond),
+    burst: rate.optional(),
+    maxConcurrent: count.default(DEFAULT_THROTTLE_CONFIG.maxConcurrent)
+  }).prefault({}),
+  search: z.strictObject({
+    maxResults: positiveCount.default(DEFAULT_PAGINATION_CONFIG.maxResults),
+    presetsFile: text.optional()
+  }).prefault({}),
+  subscriptions: z.strictObject({
+    // Shorter intervals are raised to the minimum rather than refused, as they always were
+    pollIntervalMs: numeric(z.number().int().positive().transform(ms => Math.max(ms, MIN_POLL_INTERVAL_MS)))
+      .default(DEFAULT_SUBSCRIPTION_OPTIONS.pollIntervalMs),
+    maxWatchedItems: count.default(DEFAULT_SUBSCRIPTION_OPTIONS.maxWatchedItems),
+    batchSize: positiveCount.default(DEFAULT_SUBSCRIPTION_OPTIONS.batchSize)
+  }).prefault({}),
+  transport: z.strictObject({
+    mode: z.preprocess(
+      value => typeof value === 'string' ? value.toLowerCase() : value,
+      z.enum(TRANSPORT_MODES)
+    ).default(DEFAULT_TRANSPORT_SETTINGS.mode),
+    port: numeric(z.number().int().min(1).max(65535)).default(DEFAULT_TRANSPORT_SETTINGS.port),
+    host: text.default(DEFAULT_TRANSPORT_SETTINGS.host),
+    path: text.regex(/^\//, 'Start the path with /').default(DEFAULT_TRANSPORT_SETTINGS.path),
+    sessionTimeoutMs: count.default(DEFAULT_TRANSPORT_SETTINGS.sessionTimeoutMs),
+    allowedOrigins: z.array(text).optional()
+  }).prefault({}),
+  user: z.strictObject({
+    role: text.default('default'),
+    id: positiveCount.optional(),
+    email: text.optional()
+  }).prefault({}),
+  personalities: z.strictObject({
+    path: text.optional()
+  }).prefault({}),
+  features: z.record(z.string(), flag).default({}),
+  policy: z.strictObject({ ...toolPolicyFields, file: text.optional() }).prefault({}),
+  scope: scopeSchema.prefault({}),
+  primaryInstance: instanceName.default(DEFAULT_INSTANCE),
+  instances: z.record(instanceName, z.strictObject({ connection: connectionSchema, auth: authSchema, scope: scopeSchema.optional() })).default({})
+}).superRefine((config, ctx) => {
+  // Without server-wide credentials every session must authenticate itself
+  if (!config.auth && !config.features.requireSessionAuth) {
+    ctx.addIssue({ code: 'custom', path: ['auth'], message: 'No TargetProcess credentials configured' });
+  }
+  if (config.instances[config.primaryInstance]) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['instances', config.primaryInstance],
+      message: `${config.primaryInstance} already names the primary instance (auth and connection)`
+    });
+  }
+});
+
+/**
+ * Validated configuration, with defaults filled in
+ */
+export type AppConfig = z.output<typeof appConfigSchema>;
+
+/**
+ * Unvalidated settings from one source, in the shape of IAppConfig
+ */
+export type ConfigValues = Record<string, unknown>;
+
+export interface ConfigIssue {
+  /** Where the offending value was set: an environment variable or file and key */
+  key: string;
+  message: string;
+}
+
+/**
+ * Configuration that failed validation. The message lists every problem,
+ * one per line, by environment variable or config file key.
+ */
+export class ConfigValidationError extends McpError {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      ErrorCode.InternalError,
+      `Invalid configuration:\n${issues.map(issue => `  ${issue.key}: ${issue.message}`).join('\n')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Dotted paths of the values an issue is about; unknown keys are reported one by one
+ */
+export function issuePaths(issue: z.core.$ZodIssue): string[] {
+  const path = issue.path.map(String);
+  if (issue.code === 'unrecognized_keys') {
+    return issue.keys.map(key => [...path, key].join('.'));
+  }
+  return [path.join('.')];
+}
+
+/**
+ * Validate values from a single source, naming offending keys with describeKey
+ */
+export function parseConfig<T extends z.ZodType>(
+  schema: T,
+  values: ConfigValues,
+  describeKey: (path: string) => string
+): z.output<T> {
+  const result = schema.safeParse(values);
+  if (!result.success) {
+    throw new ConfigValidationError(result.error.issues.flatMap(issue =>
+      issuePaths(issue).map(path => ({
+        key: describeKey(path),
+        message: issue.code === 'unrecognized_keys' ? 'Unknown setting' : issue.message
+      }))
+    ));
+  }
+  return result.data;
+}
+
+/**
+ * Values of override win over those of base, key by key. Credentials are
+ * taken as a whole so a username never pairs with another source's password.
+ */
+export function mergeConfigValues(base: ConfigValues, override: ConfigValues): ConfigValues {
+  const merged: ConfigValues = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] = key !== 'auth' && isPlainObject(current) && isPlainObject(value)
+      ? mergeConfigValues(current, value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Whether a dotted path holds a value
+ */
+export function hasConfigValue(values: ConfigValues, path: string): boolean {
+  let current: unknown = values;
+  for (const segment of path.split('.')) {
+    // Lists are indexed by position, e.g. scope.projectIds.0
+    const container = isPlainObject(current) || Array.isArray(current) ? current as Record<string, unknown> : undefined;
+    if (container?.[segment] === undefined) {
+      return false;
+    }
+    current = container[segment];
+  }
+  return true;
+}
+
+/**
+ * Set a dotted path, creating the objects along it
+ */
+export function setConfigValue(values: ConfigValues, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let current = values;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(current[segment])) {
+      current[segment] = {};
+    }
+    current = current[segment] as ConfigValues;
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+function isPlainObject(value: unknown): value is ConfigValues {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
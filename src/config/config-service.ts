@@ -0,0 +1,386 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { TPServiceConfig } from '../api/client/tp.service.js';
+import { EntityScope } from '../api/client/entity-scope.js';
+import { DEFAULT_RETRY_CONFIG } from '../api/http/http-client.js';
+import {
+  IAuthConfig,
+  ICacheConfig,
+  IConfigService,
+  IConnectionConfig,
+  ILoggingConfig,
+  IUserConfig
+} from '../core/interfaces/config.interface.js';
+import { SessionBaseConfig } from '../session/session-credentials.js';
+import { logger } from '../utils/logger.js';
+import {
+  AppConfig,
+  ConfigValidationError,
+  ConfigValues,
+  appConfigSchema,
+  hasConfigValue,
+  issuePaths,
+  mergeConfigValues,
+  parseConfig,
+  toolPolicySchema
+} from './config-schema.js';
+import { ToolPolicy } from '../core/tool-policy.js';
+import { SubscriptionOptions } from '../resources/subscription-manager.js';
+import { BUILT_IN_PRESETS, SearchPresetRegistry, presetFileSchema } from '../tools/search/presets.js';
+import { TransportOptions, resolveTransportOptions } from '../transport/http-transport.js';
+import { EnvConfigLoader } from './env-config-loader.js';
+import { ConfigFile, FileConfigLoader } from './file-config-loader.js';
+
+interface LoadedConfig {
+  config: AppConfig;
+  file: ConfigFile | null;
+  policy: ToolPolicy;
+  presets: SearchPresetRegistry;
+}
+
+/**
+ * Server configuration from environment variables and a config file.
+ *
+ * Environment variables take precedence over the file, key by key, and
+ * the file over built-in defaults. Credentials are the exception: when
+ * the environment names any, the file's credentials are ignored.
+ */
+export class ConfigService implements IConfigService {
+  private loaded: LoadedConfig | null = null;
+
+  constructor(
+    private readonly envLoader: EnvConfigLoader = new EnvConfigLoader(),
+    private readonly fileLoader: FileConfigLoader = new FileConfigLoader()
+  ) {}
+
+  /**
+   * Load and validate the configuration, throwing ConfigValidationError
+   * with every invalid setting when it cannot be used
+   */
+  static async load(env: typeof process.env = process.env): Promise<ConfigService> {
+    const service = new ConfigService(new EnvConfigLoader(env), new FileConfigLoader(env));
+    await service.reload();
+    return service;
+  }
+
+  getConfig(): AppConfig {
+    return this.current().config;
+  }
+
+  /**
+   * Server-wide credentials. Throws when sessions must bring their own.
+   */
+  getAuthConfig(): IAuthConfig {
+    const { auth } = this.getConfig();
+    if (!auth) {
+      throw new McpError(ErrorCode.InternalError, 'No server-wide TargetProcess credentials are configured');
+    }
+    return auth;
+  }
+
+  hasAuthConfig(): boolean {
+    return this.getConfig().auth !== undefined;
+  }
+
+  getConnectionConfig(): IConnectionConfig {
+    return this.getConfig().connection;
+  }
+
+  getCacheConfig(): ICacheConfig {
+    return this.getConfig().cache;
+  }
+
+  getLoggingConfig(): ILoggingConfig {
+    return this.getConfig().logging;
+  }
+
+  getUserConfig(): IUserConfig {
+    return this.getConfig().user;
+  }
+
+  /**
+   * Directory of personality JSON files, when not the bundled one
+   */
+  getPersonalitiesPath(): string | undefined {
+    return this.getConfig().personalities.path;
+  }
+
+  /**
+   * Which tools agents may call, from the policy settings and policy file
+   */
+  getToolPolicy(): ToolPolicy {
+    return this.current().policy;
+  }
+
+  /**
+   * Built-in search presets plus those of the presets file, with the
+   * presets of each team for sessions limited to it
+   */
+  getSearchPresets(): SearchPresetRegistry {
+    return this.current().presets;
+  }
+
+  getSubscriptionOptions(): SubscriptionOptions {
+    return this.getConfig().subscriptions;
+  }
+
+  /**
+   * Transport settings, with --transport, --port and --host from the command line taking precedence
+   */
+  getTransportOptions(argv: string[] = process.argv): TransportOptions {
+    return resolveTransportOptions(this.getConfig().transport, argv);
+  }
+
+  isFeatureEnabled(feature: string): boolean {
+    return this.getConfig().features[feature] ?? false;
+  }
+
+  /**
+   * Settings TPService takes besides credentials
+   */
+  getServiceBaseConfig(): SessionBaseConfig {
+    return this.serviceBaseConfig(this.getConfig().connection, this.getConfig().scope);
+  }
+
+  /**
+   * TPService configuration with the server-wide credentials
+   */
+  getServiceConfig(): TPServiceConfig {
+    const { auth } = this.getConfig();
+    if (!auth) {
+      throw new McpError(ErrorCode.InternalError, 'No server-wide TargetProcess credentials are configured');
+    }
+    return withCredentials(this.getServiceBaseConfig(), auth);
+  }
+
+  /**
+   * Name of the instance of the top-level auth and connection, used when a tool call names none
+   */
+  getPrimaryInstance(): string {
+    return this.getConfig().primaryInstance;
+  }
+
+  /**
+   * The primary instance followed by the further instances
+   */
+  getInstanceNames(): string[] {
+    const { primaryInstance, instances } = this.getConfig();
+    return [primaryInstance, ...Object.keys(instances)];
+  }
+
+  /**
+   * TPService configuration of a named instance. Cache, throttle and search
+   * settings are shared by all instances; the scope is, unless the instance sets its own.
+   */
+  getInstanceServiceConfig(name: string): TPServiceConfig {
+    if (name === this.getPrimaryInstance()) {
+      return this.getServiceConfig();
+    }
+    const instance = Object.hasOwn(this.getConfig().instances, name) ? this.getConfig().instances[name] : undefined;
+    if (!instance) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown instance: ${name}. Configured instances: ${this.getInstanceNames().join(', ')}`
+      );
+    }
+    return withCredentials(this.serviceBaseConfig(instance.connection, instance.scope ?? this.getConfig().scope), instance.auth);
+  }
+
+  private serviceBaseConfig(connection: AppConfig['connection'], scope: AppConfig['scope']): SessionBaseConfig {
+    const { cache, throttle, search } = this.getConfig();
+    const retryConfigured = [connection.timeout, connection.retryAttempts, connection.retryDelay, connection.backoffFactor]
+      .some(value => value !== undefined);
+
+    return {
+      domain: connection.domain,
+      retry: retryConfigured ? {
+        maxRetries: connection.retryAttempts ?? DEFAULT_RETRY_CONFIG.maxRetries,
+        delayMs: connection.retryDelay ?? DEFAULT_RETRY_CONFIG.delayMs,
+        backoffFactor: connection.backoffFactor ?? DEFAULT_RETRY_CONFIG.backoffFactor,
+        timeoutMs: connection.timeout
+      } : undefined,
+      pagination: { maxResults: search.maxResults },
+      cache: {
+        enabled: cache.enabled,
+        maxEntries: cache.maxSize,
+        defaultTtlMs: cache.ttl,
+        ttls: cache.ttls,
+        directory: cache.directory
+      },
+      throttle: {
+        requestsPerSecond: throttle.requestsPerSecond,
+        burst: throttle.burst ?? throttle.requestsPerSecond * 2,
+        maxConcurrent: throttle.maxConcurrent
+      },
+      scope: scope.projectIds || scope.teamIds ? scope : undefined
+    };
+  }
+
+  /**
+   * Check the current environment and config file without applying them
+   */
+  async validate(): Promise<boolean> {
+    try {
+      await this.resolve();
+      return true;
+    } catch (error) {
+      logger.warn(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Read the environment and config file again. On failure the previous
+   * configuration stays in effect and the error is thrown.
+   */
+  async reload(): Promise<void> {
+    this.loaded = await this.resolve();
+  }
+
+  /**
+   * One line per setting group saying what is in effect and where it came from,
+   * without secrets
+   */
+  describe(): string[] {
+    const { config, file, policy, presets } = this.current();
+    const env = this.envLoader.read();
+    const source = (key: string) => {
+      if (hasConfigValue(env, key)) {
+        return this.envLoader.variableFor(key) ?? 'environment';
+      }
+      return file && hasConfigValue(file.values, key) ? file.path : 'default';
+    };
+
+    const features = Object.entries(config.features).filter(([, enabled]) => enabled).map(([name]) => name);
+    return [
+      `TargetProcess domain: ${config.connection.domain} (${source('connection.domain')})`,
+      config.auth
+        ? `Authentication: ${config.auth.type} (${hasConfigValue(env, 'auth') ? 'environment' : file?.path})`
+        : 'Authentication: per session only',
+      `User role: ${config.user.role} (${source('user.role')})`,
+      `Response cache: ${config.cache.enabled ? `on, ${config.cache.ttl}ms` : 'off'} (${source('cache')})`,
+      `Features: ${features.length > 0 ? features.join(', ') : 'none'}`,
+      `Scope: ${new EntityScope(config.scope).describe()} (${source('scope')})`,
+      `Tool policy: ${policy.readOnly ? 'read-only' : 'read-write'}${config.policy.file ? ` with rules from ${config.policy.file}` : ''}`,
+      `Search presets: ${presets.names().length}${config.search.presetsFile ? `, including those in ${config.search.presetsFile}` : ' built-in'}${presets.teamIds().length > 0 ? `, plus those of teams ${presets.teamIds().join(', ')}` : ''}`,
+      `Transport: ${config.transport.mode} (${source('transport.mode')})`,
+      `Instances: ${this.getInstanceNames().map(name => name === config.primaryInstance ? `${name} (primary)` : name).join(', ')}`
+    ];
+  }
+
+  private current(): LoadedConfig {
+    if (!this.loaded) {
+      throw new McpError(ErrorCode.InternalError, 'Configuration has not been loaded');
+    }
+    return this.loaded;
+  }
+
+  private async resolve(): Promise<LoadedConfig> {
+    const env = this.envLoader.read();
+    const file = await this.fileLoader.read();
+    const result = appConfigSchema.safeParse(mergeConfigValues(file?.values ?? {}, env));
+
+    if (!result.success) {
+      throw new ConfigValidationError(result.error.issues.flatMap(issue =>
+        issuePaths(issue).map(key => ({
+          key: this.describeKey(key, env, file),
+          message: issue.code === 'unrecognized_keys' ? 'Unknown setting' : this.describeMessage(key, issue.message, env, file)
+        }))
+      ));
+    }
+    return {
+      config: result.data,
+      file,
+      policy: await this.loadPolicy(result.data.policy),
+      presets: await this.loadPresets(result.data.search.presetsFile)
+    };
+  }
+
+  /**
+   * The built-in presets, to which the presets file adds or replaces some
+   */
+  private async loadPresets(file: string | undefined): Promise<SearchPresetRegistry> {
+    if (!file) {
+      return new SearchPresetRegistry();
+    }
+
+    const location = path.resolve(file);
+    try {
+      const json = JSON.parse(await readFile(location, 'utf8'));
+      const { presets, teams } = parseConfig(presetFileSchema, json, key => `${location}: ${key}`);
+      return new SearchPresetRegistry({ ...BUILT_IN_PRESETS, ...presets }, teams);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) throw error;
+      throw new ConfigValidationError([{ key: location, message: error instanceof Error ? error.message : String(error) }]);
+    }
+  }
+
+  /**
+   * Combine the policy settings with the policy file: either can make the
+   * server read-only, deny rules add up, and the file's allow list wins
+   */
+  private async loadPolicy(settings: AppConfig['policy']): Promise<ToolPolicy> {
+    if (!settings.file) {
+      return new ToolPolicy(settings);
+    }
+
+    const location = path.resolve(settings.file);
+    let json: unknown;
+    try {
+      json = JSON.parse(await readFile(location, 'utf8'));
+    } catch (error) {
+      throw new ConfigValidationError([{ key: location, message: error instanceof Error ? error.message : String(error) }]);
+    }
+    const filePolicy = parseConfig(toolPolicySchema, json as ConfigValues, key => `${location}: ${key}`);
+
+    return new ToolPolicy({
+      readOnly: settings.readOnly || filePolicy.readOnly,
+      allow: filePolicy.allow ?? settings.allow,
+      deny: [...settings.deny, ...filePolicy.deny]
+    });
+  }
+
+  /**
+   * The environment variable or file key an invalid value came from
+   */
+  private describeKey(key: string, env: ConfigValues, file: ConfigFile | null): string {
+    // Credentials come from a single source, so a missing one belongs to it too
+    const section = key.split('.')[0];
+    const fromEnv = hasConfigValue(env, key) || (section === 'auth' && hasConfigValue(env, 'auth'));
+    const variable = this.envLoader.variableFor(key);
+    if (fromEnv && variable) {
+      return variable;
+    }
+    if (file && (hasConfigValue(file.values, key) || hasConfigValue(file.values, section))) {
+      return this.fileLoader.describeKey(file, key);
+    }
+    return variable ? `${key} (${variable})` : key;
+  }
+
+  private describeMessage(key: string, message: string, env: ConfigValues, file: ConfigFile | null): string {
+    if (key === 'auth' && !hasConfigValue(env, 'auth') && !(file && hasConfigValue(file.values, 'auth'))) {
+      const locations = file ? file.path : this.fileLoader.getConfigPaths().join(', ');
+      return `${message}. Set TP_ACCESS_TOKEN, TP_API_KEY or TP_USERNAME and TP_PASSWORD, ` +
+        `set MCP_REQUIRE_SESSION_AUTH=true, or add credentials to a config file (${locations})`;
+    }
+    const domainKey = 'connection.domain';
+    if ((key === 'connection' || key === domainKey) && !hasConfigValue(env, domainKey) && !(file && hasConfigValue(file.values, domainKey))) {
+      return 'Required; set TP_DOMAIN or connection.domain in a config file';
+    }
+    return message.endsWith('received undefined') ? 'Required' : message;
+  }
+}
+
+function withCredentials(base: SessionBaseConfig, auth: NonNullable<AppConfig['auth']>): TPServiceConfig {
+  switch (auth.type) {
+    case 'bearer':
+      return { ...base, accessToken: auth.accessToken };
+    case 'oauth':
+      return { ...base, oauth: auth.oauth };
+    case 'apikey':
+      return { ...base, apiKey: auth.apiKey };
+    case 'basic':
+      return { ...base, credentials: auth.credentials };
+  }
+}
@@ -0,0 +1,167 @@
+import { IAppConfig, IAuthConfig, IEnvConfigLoader } from '../core/interfaces/config.interface.js';
+import { ConfigValues, appConfigSchema, parseConfig, setConfigValue } from './config-schema.js';
+
+/**
+ * Config key set by each environment variable
+ */
+export const ENV_CONFIG_KEYS: Record<string, string> = {
+  TP_DOMAIN: 'connection.domain',
+  TP_ACCESS_TOKEN: 'auth.accessToken',
+  TP_OAUTH_TOKEN_URL: 'auth.oauth.tokenUrl',
+  TP_OAUTH_CLIENT_ID: 'auth.oauth.clientId',
+  TP_OAUTH_CLIENT_SECRET: 'auth.oauth.clientSecret',
+  TP_OAUTH_REFRESH_TOKEN: 'auth.oauth.refreshToken',
+  TP_OAUTH_SCOPE: 'auth.oauth.scope',
+  TP_API_KEY: 'auth.apiKey',
+  TP_USERNAME: 'auth.credentials.username',
+  TP_PASSWORD: 'auth.credentials.password',
+  TP_USER_ROLE: 'user.role',
+  TP_USER_ID: 'user.id',
+  TP_USER_EMAIL: 'user.email',
+  TP_PERSONALITIES_DIR: 'personalities.path',
+  TP_SEARCH_MAX_RESULTS: 'search.maxResults',
+  TP_SEARCH_PRESETS_FILE: 'search.presetsFile',
+  TP_CACHE_ENABLED: 'cache.enabled',
+  TP_CACHE_TTL_MS: 'cache.ttl',
+  TP_CACHE_TTLS: 'cache.ttls',
+  TP_CACHE_MAX_ENTRIES: 'cache.maxSize',
+  TP_CACHE_DIR: 'cache.directory',
+  TP_RATE_LIMIT_PER_SECOND: 'throttle.requestsPerSecond',
+  TP_RATE_LIMIT_BURST: 'throttle.burst',
+  TP_MAX_CONCURRENT_REQUESTS: 'throttle.maxConcurrent',
+  MCP_REQUIRE_SESSION_AUTH: 'features.requireSessionAuth',
+  MCP_ALLOW_SHARED_SESSION: 'features.allowSharedSession',
+  TP_READ_ONLY: 'policy.readOnly',
+  TP_POLICY_FILE: 'policy.file',
+  TP_SCOPE_PROJECT_IDS: 'scope.projectIds',
+  TP_SCOPE_TEAM_IDS: 'scope.teamIds',
+  MCP_SUBSCRIPTION_POLL_INTERVAL_MS: 'subscriptions.pollIntervalMs',
+  MCP_SUBSCRIPTION_MAX_ITEMS: 'subscriptions.maxWatchedItems',
+  MCP_SUBSCRIPTION_BATCH_SIZE: 'subscriptions.batchSize',
+  MCP_TRANSPORT: 'transport.mode',
+  // PORT is the platform convention; MCP_HTTP_PORT, read after it, wins
+  PORT: 'transport.port',
+  MCP_HTTP_PORT: 'transport.port',
+  MCP_HTTP_HOST: 'transport.host',
+  MCP_HTTP_PATH: 'transport.path',
+  MCP_HTTP_SESSION_TIMEOUT_MS: 'transport.sessionTimeoutMs',
+  MCP_HTTP_ALLOWED_ORIGINS: 'transport.allowedOrigins'
+};
+
+// Variables holding comma-separated lists
+const LIST_VARIABLES = ['TP_SCOPE_PROJECT_IDS', 'TP_SCOPE_TEAM_IDS', 'MCP_HTTP_ALLOWED_ORIGINS'];
+
+// Variables of each authentication method, the ones it cannot do without first
+const AUTH_VARIABLES: Record<IAuthConfig['type'], string[]> = {
+  bearer: ['TP_ACCESS_TOKEN'],
+  oauth: ['TP_OAUTH_TOKEN_URL', 'TP_OAUTH_CLIENT_ID', 'TP_OAUTH_CLIENT_SECRET', 'TP_OAUTH_REFRESH_TOKEN', 'TP_OAUTH_SCOPE'],
+  apikey: ['TP_API_KEY'],
+  basic: ['TP_USERNAME', 'TP_PASSWORD']
+};
+
+const REQUIRED_AUTH_VARIABLES: Record<IAuthConfig['type'], string[]> = {
+  bearer: ['TP_ACCESS_TOKEN'],
+  oauth: ['TP_OAUTH_TOKEN_URL', 'TP_OAUTH_CLIENT_ID'],
+  apikey: ['TP_API_KEY'],
+  basic: ['TP_USERNAME', 'TP_PASSWORD']
+};
+
+/**
+ * Configuration from TP_* environment variables.
+ *
+ * Credentials come from the first method with any variable set, in order:
+ * access token, OAuth client, API key, username and password. Only that
+ * method's variables are read, so a half-configured method is reported
+ * instead of silently falling back to another one.
+ */
+export class EnvConfigLoader implements IEnvConfigLoader {
+  constructor(private readonly env: typeof process.env = process.env) {}
+
+  async load(): Promise<IAppConfig> {
+    return parseConfig(appConfigSchema, this.read(), key => this.variableFor(key) ?? key);
+  }
+
+  async exists(): Promise<boolean> {
+    return Object.keys(ENV_CONFIG_KEYS).some(name => this.value(name) !== undefined);
+  }
+
+  getRequiredVars(): string[] {
+    return ['TP_DOMAIN', ...REQUIRED_AUTH_VARIABLES[this.authType() ?? 'basic']];
+  }
+
+  validateEnv(): boolean {
+    if (this.getRequiredVars().some(name => this.value(name) === undefined)) {
+      return false;
+    }
+    try {
+      parseConfig(appConfigSchema, this.read(), key => key);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Settings the environment sets, unvalidated
+   */
+  read(): ConfigValues {
+    const values: ConfigValues = {};
+    const authType = this.authType();
+    const authVariables = authType ? AUTH_VARIABLES[authType] : [];
+    if (authType) {
+      setConfigValue(values, 'auth.type', authType);
+    }
+
+    for (const [name, key] of Object.entries(ENV_CONFIG_KEYS)) {
+      const value = this.value(name);
+      if (value === undefined || (key.startsWith('auth.') && !authVariables.includes(name))) {
+        continue;
+      }
+      setConfigValue(
+        values,
+        key,
+        name === 'TP_CACHE_TTLS' ? parseTtls(value) : LIST_VARIABLES.includes(name) ? value.split(',').map(item => item.trim()) : value
+      );
+    }
+    return values;
+  }
+
+  /**
+   * Environment variable behind a config key, for keys set from the environment
+   */
+  variableFor(key: string): string | undefined {
+    const entries = Object.entries(ENV_CONFIG_KEYS);
+    // An exact match, preferring a variable that is set (MCP_HTTP_PORT over PORT), then the variable
+    // holding a whole map or list (TP_CACHE_TTLS), then one inside an object
+    return (
+      [...entries].reverse().find(([name, path]) => path === key && this.value(name) !== undefined) ??
+      entries.find(([, path]) => path === key) ??
+      entries.find(([, path]) => key.startsWith(`${path}.`)) ??
+      entries.find(([name, path]) => path.startsWith(`${key}.`) && this.value(name) !== undefined)
+    )?.[0];
+  }
+
+  private authType(): IAuthConfig['type'] | undefined {
+    return (Object.keys(AUTH_VARIABLES) as Array<IAuthConfig['type']>)
+      .find(type => AUTH_VARIABLES[type].some(name => this.value(name) !== undefined));
+  }
+
+  // Empty variables count as unset, as they did before validation
+  private value(name: string): string | undefined {
+    return this.env[name]?.trim() || undefined;
+  }
+}
+
+/**
+ * "EntityStates=600000,Users=0" as a map of collection to TTL
+ */
+function parseTtls(value: string): Record<string, string> {
+  const ttls: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const [collection, ttl] = pair.split('=').map(part => part.trim());
+    if (collection) {
+      ttls[collection] = ttl ?? '';
+    }
+  }
+  return ttls;
+}
@@ -0,0 +1,150 @@
+import { access, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { IAppConfig, IFileConfigLoader } from '../core/interfaces/config.interface.js';
+import { ConfigValidationError, ConfigValues, appConfigSchema, parseConfig } from './config-schema.js';
+
+export interface ConfigFile {
+  path: string;
+  values: ConfigValues;
+  /** Written in the flat TPServiceConfig format ({ domain, apiKey, ... }) */
+  legacy: boolean;
+}
+
+// Keys of the flat format, by the config key they became
+const LEGACY_KEYS: Array<[string, string]> = [
+  ['auth.', ''],
+  ['connection.domain', 'domain'],
+  ['connection.timeout', 'retry.timeoutMs'],
+  ['connection.retryAttempts', 'retry.maxRetries'],
+  ['connection.retryDelay', 'retry.delayMs'],
+  ['connection.backoffFactor', 'retry.backoffFactor'],
+  ['search.maxResults', 'pagination.maxResults'],
+  ['cache.ttl', 'cache.defaultTtlMs'],
+  ['cache.maxSize', 'cache.maxEntries']
+];
+
+// Top-level keys that only the flat format has
+const LEGACY_ONLY_KEYS = ['domain', 'apiKey', 'credentials', 'accessToken', 'oauth', 'retry', 'pagination'];
+
+/**
+ * Configuration from a JSON file: the one named by CONFIG_PATH, otherwise
+ * the first of targetprocess.json and config/targetprocess.json in the
+ * working directory, ~/.targetprocess.json and ~/.config/targetprocess/config.json.
+ */
+export class FileConfigLoader implements IFileConfigLoader {
+  constructor(
+    private readonly env: typeof process.env = process.env,
+    private readonly cwd: string = process.cwd()
+  ) {}
+
+  async load(): Promise<IAppConfig> {
+    const file = await this.read();
+    if (!file) {
+      throw new ConfigValidationError([{ key: 'config file', message: `None found in ${this.getConfigPaths().join(', ')}` }]);
+    }
+    return parseConfig(appConfigSchema, file.values, key => this.describeKey(file, key));
+  }
+
+  async exists(): Promise<boolean> {
+    return (await this.findConfigFile()) !== null;
+  }
+
+  getConfigPaths(): string[] {
+    if (this.env.CONFIG_PATH) {
+      return [path.resolve(this.cwd, this.env.CONFIG_PATH)];
+    }
+
+    const home = this.env.HOME || this.env.USERPROFILE || '';
+    return [
+      path.join(this.cwd, 'targetprocess.json'),
+      path.join(this.cwd, 'config', 'targetprocess.json'),
+      path.join(home, '.targetprocess.json'),
+      path.join(home, '.config', 'targetprocess', 'config.json')
+    ];
+  }
+
+  async findConfigFile(): Promise<string | null> {
+    for (const location of this.getConfigPaths()) {
+      try {
+        await access(location);
+        return location;
+      } catch {
+        // Try the next location
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Settings of the config file, unvalidated; null when there is no file.
+   * A CONFIG_PATH that does not exist or a file that is not JSON is an error.
+   */
+  async read(): Promise<ConfigFile | null> {
+    const location = await this.findConfigFile();
+    if (!location) {
+      if (this.env.CONFIG_PATH) {
+        throw new ConfigValidationError([{ key: 'CONFIG_PATH', message: `${this.getConfigPaths()[0]} does not exist` }]);
+      }
+      return null;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await readFile(location, 'utf8'));
+    } catch (error) {
+      throw new ConfigValidationError([{ key: location, message: error instanceof Error ? error.message : String(error) }]);
+    }
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+      throw new ConfigValidationError([{ key: location, message: 'Expected a JSON object' }]);
+    }
+
+    const values = json as ConfigValues;
+    const legacy = LEGACY_ONLY_KEYS.some(key => key in values);
+    return { path: location, values: legacy ? fromServiceConfig(values) : values, legacy };
+  }
+
+  /**
+   * File and key a config key was read from, as the user wrote it
+   */
+  describeKey(file: ConfigFile, key: string): string {
+    if (!file.legacy) {
+      return `${file.path}: ${key}`;
+    }
+    const match = LEGACY_KEYS.find(([current]) => key === current || key.startsWith(current.endsWith('.') ? current : `${current}.`));
+    return `${file.path}: ${match ? match[1] + key.slice(match[0].length) : key}`;
+  }
+}
+
+/**
+ * Convert the flat format that TPService takes into the sections of IAppConfig
+ */
+function fromServiceConfig(config: ConfigValues): ConfigValues {
+  const { domain, apiKey, credentials, accessToken, oauth, retry, pagination, cache, ...rest } = config as Record<string, any>;
+
+  const auth =
+    accessToken !== undefined ? { type: 'bearer', accessToken } :
+    oauth !== undefined ? { type: 'oauth', oauth } :
+    apiKey !== undefined ? { type: 'apikey', apiKey } :
+    credentials !== undefined ? { type: 'basic', credentials } :
+    undefined;
+
+  return {
+    ...rest,
+    auth,
+    connection: {
+      domain,
+      timeout: retry?.timeoutMs,
+      retryAttempts: retry?.maxRetries,
+      retryDelay: retry?.delayMs,
+      backoffFactor: retry?.backoffFactor
+    },
+    search: pagination && { maxResults: pagination.maxResults },
+    cache: cache && {
+      enabled: cache.enabled,
+      ttl: cache.defaultTtlMs,
+      maxSize: cache.maxEntries,
+      ttls: cache.ttls,
+      directory: cache.directory
+    }
+  };
+}
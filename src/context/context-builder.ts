@@ -38,6 +38,10 @@ export class TPContextBuilder {
       users: []
     };
 
+    // Projects come back limited to the server scope; programs are not, so they are taken from those projects
+    const scoped = this.service.getScope().restricted;
+    const scopedPrograms = new Map<number, string>();
+
     // Fetch projects with error handling
     try {
       const projectsResult = await this.service.searchEntities<any>(
@@ -55,6 +59,11 @@ export class TPContextBuilder {
           entityState: project.EntityState?.Name || 'Unknown',
           program: project.Program?.Name
         }));
+        for (const { Program: program } of projectsResult) {
+          if (program?.Id !== undefined) {
+            scopedPrograms.set(program.Id, program.Name);
+          }
+        }
       }
     } catch (error) {
       logger.error('Failed to fetch projects for context:', error);
@@ -62,12 +71,14 @@ export class TPContextBuilder {
 
     // Fetch programs with error handling
     try {
-      const programsResult = await this.service.searchEntities<any>(
-        'Program',
-        undefined,
-        undefined,
-        20
-      );
+      const programsResult = scoped
+        ? [...scopedPrograms].map(([Id, Name]) => ({ Id, Name }))
+        : await this.service.searchEntities<any>(
+          'Program',
+          undefined,
+          undefined,
+          20
+        );
 
       if (programsResult && Array.isArray(programsResult)) {
         context.programs = programsResult.map((program: any) => ({
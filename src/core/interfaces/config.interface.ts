@@ -7,12 +7,22 @@
  * Authentication configuration
  */
 export interface IAuthConfig {
-  type: 'basic' | 'apikey';
+  type: 'basic' | 'apikey' | 'bearer' | 'oauth';
   credentials?: {
     username: string;
     password: string;
   };
   apiKey?: string;
+  /** Access token sent as a bearer token */
+  accessToken?: string;
+  /** OAuth2 client that obtains bearer tokens */
+  oauth?: {
+    tokenUrl: string;
+    clientId: string;
+    clientSecret?: string;
+    refreshToken?: string;
+    scope?: string;
+  };
 }
 
 /**
@@ -23,6 +33,7 @@ export interface IConnectionConfig {
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  backoffFactor?: number;
 }
 
 /**
@@ -32,6 +43,35 @@ export interface ICacheConfig {
   enabled: boolean;
   ttl?: number;
   maxSize?: number;
+  /** TTL per collection, e.g. EntityStates */
+  ttls?: Record<string, number>;
+  /** Directory that cached responses are also written to */
+  directory?: string;
+}
+
+/**
+ * Client-side request limits
+ */
+export interface IThrottleConfig {
+  requestsPerSecond: number;
+  burst?: number;
+  maxConcurrent: number;
+}
+
+/**
+ * Search configuration
+ */
+export interface ISearchConfig {
+  maxResults: number;
+}
+
+/**
+ * User the server acts for
+ */
+export interface IUserConfig {
+  role: string;
+  id?: number;
+  email?: string;
 }
 
 /**
@@ -44,14 +84,72 @@ export interface ILoggingConfig {
   filePath?: string;
 }
 
+/**
+ * Tools a policy rule applies to: a tool name, or a tool limited to some
+ * operations (comment delete) or entity types (update_entity on Epic)
+ */
+export type IToolRule = string | {
+  tool: string;
+  operations?: string[];
+  entityTypes?: string[];
+};
+
+/**
+ * Which tools and semantic operations agents may call
+ */
+export interface IToolPolicyConfig {
+  /** Refuse every call that changes data */
+  readOnly: boolean;
+  /** When set, only these may be called */
+  allow?: IToolRule[];
+  deny: IToolRule[];
+}
+
+/**
+ * Projects and teams the server may see; every project and team when neither is set
+ */
+export interface IScopeConfig {
+  projectIds?: number[];
+  teamIds?: number[];
+}
+
+/**
+ * A further TargetProcess instance the server can reach
+ */
+export interface IInstanceConfig {
+  connection: IConnectionConfig;
+  auth: IAuthConfig;
+  /** Replaces the top-level scope for this instance */
+  scope?: IScopeConfig;
+}
+
 /**
  * Complete application configuration
  */
 export interface IAppConfig {
-  auth: IAuthConfig;
+  /** Server-wide credentials; omitted when every session brings its own */
+  auth?: IAuthConfig;
   connection: IConnectionConfig;
   cache?: ICacheConfig;
   logging?: ILoggingConfig;
+  throttle?: IThrottleConfig;
+  search?: ISearchConfig;
+  user?: IUserConfig;
+  personalities?: {
+    /** Directory of personality JSON files */
+    path?: string;
+  };
+  policy?: Partial<IToolPolicyConfig> & {
+    /** JSON file with further rules */
+    file?: string;
+  };
+  scope?: IScopeConfig;
+  /** Name tools use for the instance of auth and connection */
+  primaryInstance?: string;
+  /** Further instances by name, chosen with a tool's instance argument */
+  instances?: {
+    [name: string]: IInstanceConfig;
+  };
   features?: {
     [key: string]: boolean;
   };
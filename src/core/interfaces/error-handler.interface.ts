@@ -6,15 +6,16 @@
 import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 
 /**
- * Custom error types
+ * Custom error types. The values are the error codes reported to agents.
  */
 export enum TPErrorType {
   VALIDATION = 'VALIDATION',
+  INVALID_QUERY = 'INVALID_QUERY',
   AUTHENTICATION = 'AUTHENTICATION',
-  AUTHORIZATION = 'AUTHORIZATION',
+  AUTHORIZATION = 'FORBIDDEN',
   NOT_FOUND = 'NOT_FOUND',
   CONFLICT = 'CONFLICT',
-  RATE_LIMIT = 'RATE_LIMIT',
+  RATE_LIMIT = 'RATE_LIMITED',
   NETWORK = 'NETWORK',
   CONFIGURATION = 'CONFIGURATION',
   INTERNAL = 'INTERNAL'
@@ -43,6 +44,8 @@ export interface ITPError extends Error {
   innerError?: Error;
   isRetryable?: boolean;
   retryAfter?: number;
+  /** Concrete next steps for the caller, e.g. the valid fields for a bad where clause */
+  suggestions?: string[];
 }
 
 /**
@@ -77,7 +80,7 @@ export interface IErrorHandler {
   /**
    * Check if error is retryable
    */
-  isRetryable(error: Error): boolean;
+  isRetryable(error: Error, write?: boolean): boolean;
   
   /**
    * Get retry delay for error
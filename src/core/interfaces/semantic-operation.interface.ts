@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * Execution context provided to all semantic operations
@@ -82,6 +83,26 @@ export interface ExecutionContext {
     maxResults: number;
     timeout: number;
   };
+
+  /**
+   * Progress reporting and cancellation for the MCP request running this operation
+   */
+  request?: RequestControl;
+}
+
+/**
+ * Per-request controls handed to long-running operations
+ */
+export interface RequestControl {
+  /**
+   * Aborted when the client cancels the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Report progress to the client. A no-op unless the client sent a progress token.
+   */
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
 }
 
 /**
@@ -136,6 +157,8 @@ export interface SemanticOperation<TParams = any> {
     requiredPersonalities: string[];
     examples: string[];
     tags?: string[];
+    /** MCP behavior hints for the generated tool (read-only, destructive, idempotent) */
+    annotations?: ToolAnnotations;
   };
 
   /**
@@ -271,6 +294,7 @@ export interface IPersonalityLoader {
     personalityId: string,
     userData: any,
     workspaceData?: any,
-    conversationData?: any
+    conversationData?: any,
+    configData?: any
   ): ExecutionContext;
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { OperationResult } from './interfaces/semantic-operation.interface.js';
+import { JsonObjectSchema } from '../entities/entity-schemas.js';
+
+/**
+ * Structured form of an OperationResult, returned as structuredContent by
+ * semantic tools alongside the formatted text
+ */
+export interface OperationOutput {
+  [key: string]: unknown;
+  data: unknown[];
+  suggestions: string[];
+  affectedEntities: NonNullable<OperationResult['affectedEntities']>;
+  metadata?: OperationResult['metadata'];
+}
+
+export const operationOutputJsonSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    data: {
+      type: 'array',
+      description: 'Structured payloads produced by the operation, such as entity lists or summaries'
+    },
+    suggestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Suggested next actions'
+    },
+    affectedEntities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          type: { type: 'string' },
+          action: { type: 'string', enum: ['created', 'updated', 'deleted'] }
+        },
+        required: ['id', 'type', 'action']
+      }
+    },
+    metadata: {
+      type: 'object',
+      properties: {
+        executionTime: { type: 'number' },
+        apiCallsCount: { type: 'number' },
+        cacheHits: { type: 'number' }
+      }
+    }
+  },
+  required: ['data', 'suggestions', 'affectedEntities']
+};
+
+/**
+ * Extract the structured parts of an operation result
+ */
+export function toOperationOutput(result: Partial<OperationResult>): OperationOutput {
+  const output: OperationOutput = {
+    data: (result.content || [])
+      .filter(content => content.type === 'structured-data' && content.data !== undefined)
+      .map(content => content.data),
+    suggestions: result.suggestions || [],
+    affectedEntities: result.affectedEntities || []
+  };
+
+  if (result.metadata) {
+    output.metadata = result.metadata;
+  }
+  return output;
+}
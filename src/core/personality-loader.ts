@@ -31,6 +31,18 @@ export class PersonalityLoader implements IPersonalityLoader {
     this.loadPersonalities();
   }
 
+  /**
+   * Replace the loaded personalities with those in another directory
+   */
+  loadFrom(configPath: string): void {
+    if (configPath === this.configPath) {
+      return;
+    }
+    this.configPath = configPath;
+    this.personalities.clear();
+    this.loadPersonalities();
+  }
+
   private loadPersonalities(): void {
     // Try to load from JSON files first
     if (existsSync(this.configPath)) {
@@ -163,6 +175,9 @@ export class PersonalityLoader implements IPersonalityLoader {
     conversationData?: {
       recentEntities?: Array<{ id: number; type: string }>;
       lastOperation?: string;
+    },
+    configData?: {
+      apiUrl?: string;
     }
   ): ExecutionContext {
     const personality = this.getPersonality(personalityId);
@@ -198,7 +213,7 @@ export class PersonalityLoader implements IPersonalityLoader {
         intent: ''
       },
       config: {
-        apiUrl: process.env.TP_DOMAIN || '',
+        apiUrl: configData?.apiUrl || '',
         maxResults: 100,
         timeout: 30000
       }
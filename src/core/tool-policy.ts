@@ -0,0 +1,130 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPError } from '../api/http/http-error-handler.js';
+import { IToolPolicyConfig, IToolRule } from './interfaces/config.interface.js';
+import { TPErrorType } from './interfaces/error-handler.interface.js';
+
+/**
+ * What the policy needs to know about a tool: its name and whether it only reads
+ */
+export interface PolicyTool {
+  name: string;
+  annotations?: { readOnlyHint?: boolean };
+}
+
+// Operations of tools that also write, which only read
+const READ_ONLY_OPERATIONS: Record<string, string[]> = {
+  comment: ['show', 'analyze']
+};
+
+// Bulk tools that make the same change as a single-entity tool, which rules on that tool also cover
+const BULK_TOOLS: Record<string, string> = {
+  bulk_create_entities: 'create_entity',
+  bulk_update_entities: 'update_entity'
+};
+
+/**
+ * Decides which tools and semantic operations agents may call.
+ *
+ * A call is refused when the server is read-only and the tool writes, when
+ * an allow list is set and no rule on it matches, or when a deny rule
+ * matches. Tools refused whatever their arguments are also left out of
+ * tools/list; tools refused only for some operations or entity types stay
+ * listed and are refused per call. A rule on create_entity or update_entity
+ * also covers the bulk tool that does the same for many entities.
+ */
+export class ToolPolicy {
+  constructor(private readonly config: IToolPolicyConfig = { readOnly: false, deny: [] }) {}
+
+  get readOnly(): boolean {
+    return this.config.readOnly;
+  }
+
+  /**
+   * Whether any call of the tool can be allowed
+   */
+  isListed(tool: PolicyTool): boolean {
+    return this.refusal(tool) === null;
+  }
+
+  /**
+   * Throw a FORBIDDEN error when the policy refuses this call
+   */
+  check(tool: PolicyTool, args: Record<string, unknown>): void {
+    const reason = this.refusal(tool, args);
+    if (reason) {
+      throw new TPError(TPErrorType.AUTHORIZATION, ErrorCode.InvalidRequest, reason, {
+        context: { operation: tool.name, timestamp: new Date() },
+        suggestions: [
+          'The server policy does not allow this call. Use another tool from tools/list, or ask the server administrator to change the policy.'
+        ]
+      });
+    }
+  }
+
+  /**
+   * Why the call is refused, or null. Without arguments, only rules that
+   * apply to every call of the tool count.
+   */
+  private refusal(tool: PolicyTool, args?: Record<string, unknown>): string | null {
+    const operation = typeof args?.operation === 'string' ? args.operation : undefined;
+    const call = args ? describeCall(tool.name, operation, entityTypeOf(args)) : tool.name;
+
+    if (this.config.readOnly && tool.annotations?.readOnlyHint !== true) {
+      const readOperations = READ_ONLY_OPERATIONS[tool.name];
+      if (!readOperations || (args && !readOperations.includes(operation ?? ''))) {
+        return `${call} changes data, and this server is read-only`;
+      }
+    }
+
+    if (this.config.allow && !this.config.allow.some(rule => matches(rule, tool.name, args))) {
+      return `${call} is not on the server's list of allowed tools`;
+    }
+
+    // Deny rules limited to some calls cannot hide the tool
+    if (this.config.deny.some(rule => matches(rule, tool.name, args) && (args !== undefined || appliesToEveryCall(rule)))) {
+      return `${call} is blocked by the server policy`;
+    }
+    return null;
+  }
+}
+
+function appliesToEveryCall(rule: IToolRule): boolean {
+  return typeof rule === 'string' || (!rule.operations && !rule.entityTypes);
+}
+
+/**
+ * Whether a rule covers the call; without arguments, whether it covers any call of the tool
+ */
+function matches(rule: IToolRule, toolName: string, args?: Record<string, unknown>): boolean {
+  if (typeof rule === 'string') {
+    return sameTool(rule, toolName);
+  }
+  if (!sameTool(rule.tool, toolName)) {
+    return false;
+  }
+  if (!args) {
+    return true;
+  }
+
+  const operation = typeof args.operation === 'string' ? args.operation : undefined;
+  const entityType = entityTypeOf(args)?.toLowerCase();
+  return (!rule.operations || (operation !== undefined && rule.operations.includes(operation))) &&
+    (!rule.entityTypes || (entityType !== undefined && rule.entityTypes.some(type => type.toLowerCase() === entityType)));
+}
+
+// Semantic operations are listed in snake_case, so complete-task and complete_task are the same tool
+function sameTool(ruleTool: string, toolName: string): boolean {
+  const rule = ruleTool.replace(/-/g, '_');
+  const name = toolName.replace(/-/g, '_');
+  return rule === name || (Object.hasOwn(BULK_TOOLS, name) && rule === BULK_TOOLS[name]);
+}
+
+// Core tools name the entity type "type", the comment tool "entityType"
+function entityTypeOf(args: Record<string, unknown>): string | undefined {
+  const type = args.type ?? args.entityType;
+  return typeof type === 'string' ? type : undefined;
+}
+
+function describeCall(toolName: string, operation?: string, entityType?: string): string {
+  return [toolName, operation && `operation ${operation}`, entityType && `on ${entityType}`].filter(Boolean).join(' ');
+}
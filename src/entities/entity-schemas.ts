@@ -0,0 +1,191 @@
+/**
+ * JSON Schemas for entities returned by the TargetProcess API
+ *
+ * These mirror BaseEntityData and AssignableEntityData and are used as MCP tool
+ * output schemas. The fields present depend on the type and the requested
+ * includes, so only Id is required, any field may be null and unlisted fields
+ * are allowed.
+ */
+
+export interface JsonObjectSchema {
+  type: 'object';
+  properties: Record<string, object>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+function nullableObject(properties: Record<string, object>): object {
+  return { type: ['object', 'null'], properties, additionalProperties: true };
+}
+
+const entityReferenceProperties = {
+  Id: { type: 'number' },
+  Name: nullableString
+};
+
+export const entityReferenceJsonSchema = nullableObject(entityReferenceProperties);
+
+const customFieldJsonSchema = {
+  type: 'object',
+  properties: {
+    Name: { type: 'string' },
+    Type: { type: 'string' },
+    Value: {}
+  },
+  additionalProperties: true
+};
+
+const userJsonSchema = nullableObject({
+  ...entityReferenceProperties,
+  FirstName: nullableString,
+  LastName: nullableString,
+  Login: nullableString
+});
+
+/**
+ * Fields shared by every entity (BaseEntityData)
+ */
+export const baseEntityProperties: Record<string, object> = {
+  Id: { type: 'number' },
+  Name: nullableString,
+  Description: nullableString,
+  StartDate: nullableString,
+  EndDate: nullableString,
+  CreateDate: nullableString,
+  ModifyDate: nullableString,
+  LastCommentDate: nullableString,
+  Tags: { type: ['array', 'string', 'null'] },
+  CustomFields: { type: ['array', 'null'], items: customFieldJsonSchema },
+  ResourceType: nullableString
+};
+
+/**
+ * Fields of UserStory, Bug, Task and Feature (AssignableEntityData)
+ */
+export const assignableEntityProperties: Record<string, object> = {
+  NumericPriority: nullableNumber,
+  Effort: nullableNumber,
+  EffortCompleted: nullableNumber,
+  EffortToDo: nullableNumber,
+  Progress: nullableNumber,
+  TimeSpent: nullableNumber,
+  TimeRemain: nullableNumber,
+  LastStateChangeDate: nullableString,
+  PlannedStartDate: nullableString,
+  PlannedEndDate: nullableString,
+  InitialEstimate: nullableNumber,
+  EntityState: nullableObject({ ...entityReferenceProperties, NumericPriority: nullableNumber }),
+  Priority: nullableObject({ ...entityReferenceProperties, Importance: nullableNumber }),
+  Project: nullableObject({
+    ...entityReferenceProperties,
+    Process: entityReferenceJsonSchema
+  }),
+  Owner: userJsonSchema,
+  Team: entityReferenceJsonSchema,
+  ResponsibleTeam: entityReferenceJsonSchema
+};
+
+/**
+ * Any entity: the base fields, plus the assignable fields when the type has them
+ */
+export const entityJsonSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    ...baseEntityProperties,
+    ...assignableEntityProperties
+  },
+  required: ['Id'],
+  additionalProperties: true
+};
+
+/**
+ * An item of an API v2 select query. Field names follow the select, e.g. {id,name,bugsCount}
+ */
+export const projectionJsonSchema = {
+  type: 'object',
+  description: 'Fields requested with select',
+  additionalProperties: true
+};
+
+/**
+ * A page of entities returned by a search, or projections when select was used
+ */
+export const entityListJsonSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    items: { type: 'array', items: { anyOf: [entityJsonSchema, projectionJsonSchema] } },
+    count: { type: 'number', description: 'Number of items returned' },
+    skip: { type: 'number', description: 'Items skipped before this page' },
+    hasMore: { type: 'boolean', description: 'Whether more matching items follow this page' },
+    nextSkip: { type: 'number', description: 'skip value for the next page' },
+    total: { type: 'number', description: 'Matching items, when requested with includeTotal' },
+    totalIsExact: { type: 'boolean', description: 'False when total is a lower bound' }
+  },
+  required: ['items', 'count']
+};
+
+const aggregateSumsJsonSchema = {
+  type: 'object',
+  description: 'Totals of the requested fields, e.g. { "Effort": 42 }',
+  additionalProperties: { type: 'number' }
+};
+
+/**
+ * Counts and totals computed over the entities matching a query
+ */
+export const entityAggregateJsonSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    count: { type: 'number', description: 'Matching items' },
+    sums: aggregateSumsJsonSchema,
+    groupBy: { type: 'string' },
+    groups: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: nullableNumber,
+          name: { type: 'string' },
+          count: { type: 'number' },
+          sums: aggregateSumsJsonSchema
+        },
+        required: ['id', 'name', 'count', 'sums']
+      }
+    },
+    exact: { type: 'boolean', description: 'False when counting stopped at TP_SEARCH_MAX_RESULTS, so values are lower bounds' }
+  },
+  required: ['type', 'count', 'sums', 'exact']
+};
+
+/**
+ * Per-row outcome of a bulk create or update
+ */
+export const bulkResultJsonSchema: JsonObjectSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    succeeded: { type: 'number' },
+    failed: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'number', description: 'Position of the row in the request' },
+          success: { type: 'boolean' },
+          id: { type: 'number' },
+          entity: entityJsonSchema,
+          error: { type: 'string' },
+          errorCode: { type: 'string' },
+          outcomeUnknown: { type: 'boolean', description: 'The row may have been saved despite the error; check before retrying it' }
+        },
+        required: ['index', 'success']
+      }
+    }
+  },
+  required: ['type', 'succeeded', 'failed', 'results']
+};
@@ -1,10 +1,12 @@
 #!/usr/bin/env node
 import 'dotenv/config';
+import { ConfigService } from './config/config-service.js';
 import { TargetProcessServer } from './server.js';
 import { logger } from './utils/logger.js';
 
-const server = new TargetProcessServer();
-server.run().catch((error) => {
-  logger.error('Server failed to start:', error);
-  process.exit(1);
-});
+ConfigService.load()
+  .then(config => new TargetProcessServer(config).run())
+  .catch((error) => {
+    logger.error('Server failed to start:', error);
+    process.exit(1);
+  });
@@ -2,10 +2,12 @@ import { z } from 'zod';
 import { 
   SemanticOperation, 
   ExecutionContext, 
-  OperationResult 
+  OperationResult,
+  RequestControl
 } from '../../core/interfaces/semantic-operation.interface.js';
 import { TPService } from '../../api/client/tp.service.js';
 import { logger } from '../../utils/logger.js';
+import { throwIfAborted } from '../../utils/request-control.js';
 
 export const analyzeAttachmentSchema = z.object({
   attachmentId: z.coerce.number().describe('ID of the attachment to analyze'),
@@ -44,7 +46,8 @@ export class AnalyzeAttachmentOperation implements SemanticOperation<AnalyzeAtta
         'Get secure image data for attachment 67890',
         'Analyze screenshot attachment with metadata'
       ],
-      tags: ['attachment', 'image', 'analysis', 'security']
+      tags: ['attachment', 'image', 'analysis', 'security'],
+      annotations: { readOnlyHint: true, openWorldHint: true }
     };
   }
 
@@ -60,7 +63,8 @@ export class AnalyzeAttachmentOperation implements SemanticOperation<AnalyzeAtta
       const validatedParams = analyzeAttachmentSchema.parse(params);
       
       // Step 1: Get attachment metadata
-      const attachmentInfo = await this.service.getAttachmentInfo(validatedParams.attachmentId);
+      const signal = context.request?.signal;
+      const attachmentInfo = await this.service.getAttachmentInfo(validatedParams.attachmentId, { signal });
       if (!attachmentInfo) {
         return this.createErrorResult('Attachment not found', validatedParams.attachmentId, startTime);
       }
@@ -75,13 +79,16 @@ export class AnalyzeAttachmentOperation implements SemanticOperation<AnalyzeAtta
       const processedAttachment = await this.securelyProcessAttachment(
         validatedParams.attachmentId,
         attachmentInfo,
-        validatedParams
+        validatedParams,
+        context.request
       );
 
       // Step 4: Generate analysis result
       return this.createSuccessResult(processedAttachment, attachmentInfo, validatedParams, startTime);
 
     } catch (error) {
+      // Let cancellation reach the client as a cancelled request, not an analysis failure
+      throwIfAborted(context.request?.signal);
       logger.error('Attachment analysis error:', error);
       return this.createErrorResult(
         error instanceof Error ? error.message : 'Unknown error occurred',
@@ -142,10 +149,16 @@ export class AnalyzeAttachmentOperation implements SemanticOperation<AnalyzeAtta
   private async securelyProcessAttachment(
     attachmentId: number,
     attachmentInfo: any,
-    params: AnalyzeAttachmentParams
+    params: AnalyzeAttachmentParams,
+    request?: RequestControl
   ): Promise<any> {
     // Download attachment securely
-    const downloadResult = await this.service.downloadAttachment(attachmentId);
+    const downloadResult = await this.service.downloadAttachment(attachmentId, {
+      signal: request?.signal,
+      onDownloadProgress: request && ((receivedBytes, totalBytes) => {
+        void request.reportProgress(receivedBytes, totalBytes ?? attachmentInfo.Size, 'Downloading attachment');
+      })
+    });
     
     if (!downloadResult.base64Content) {
       throw new Error('Failed to download attachment content');
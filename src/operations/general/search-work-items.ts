@@ -1,6 +1,7 @@
 import { SemanticOperation, ExecutionContext } from '../../core/interfaces/semantic-operation.interface.js';
 import { TPService } from '../../api/client/tp.service.js';
 import { logger } from '../../utils/logger.js';
+import { throwIfAborted } from '../../utils/request-control.js';
 import { z } from 'zod';
 
 const SearchWorkItemsParams = z.object({
@@ -29,7 +30,8 @@ export class SearchWorkItemsOperation implements SemanticOperation<SearchWorkIte
       'find all work items about authentication',
       'show items in project 123'
     ],
-    tags: ['search', 'find', 'query', 'work items']
+    tags: ['search', 'find', 'query', 'work items'],
+    annotations: { readOnlyHint: true, openWorldHint: true }
   };
 
   inputSchema = SearchWorkItemsParams;
@@ -46,14 +48,17 @@ export class SearchWorkItemsOperation implements SemanticOperation<SearchWorkIte
       }
 
       // Search each entity type sequentially (not concurrently) to avoid issues
-      for (const type of types) {
+      const signal = context.request?.signal;
+      for (const [index, type] of types.entries()) {
+        throwIfAborted(signal);
         try {
           const items = await this.service.searchEntities(
             type,
             whereClause,
             undefined, // Don't specify include to match working curl calls
             Math.floor(params.limit / types.length),
-            undefined  // Don't specify orderBy to match working curl calls
+            undefined, // Don't specify orderBy to match working curl calls
+            { signal }
           );
 
           results.push(...items.map((item: any) => ({
@@ -61,9 +66,11 @@ export class SearchWorkItemsOperation implements SemanticOperation<SearchWorkIte
             EntityType: type
           })));
         } catch (error) {
+          // Cancellation ends the whole search; other failures only skip this type
+          throwIfAborted(signal);
           logger.warn(`Failed to search ${type}: ${error instanceof Error ? error.message : String(error)}`);
-          // Continue with other entity types even if one fails
         }
+        await context.request?.reportProgress(index + 1, types.length, `Searched ${type}`);
       }
 
       // Sort combined results by priority if available
@@ -64,7 +64,8 @@ export class AddCommentOperation implements SemanticOperation<AddCommentParams>
         'Comment on bug 456: "Unable to reproduce on staging"',
         'Add private comment to story 789: "Need to discuss with stakeholders"'
       ],
-      tags: ['comment', 'communication', 'collaboration']
+      tags: ['comment', 'communication', 'collaboration'],
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
     };
   }
 
@@ -31,7 +31,8 @@ export class CompleteTaskOperation implements SemanticOperation<CompleteTaskPara
         'Finish task with 3 hours logged',
         'Complete task with summary'
       ],
-      tags: ['task', 'completion', 'workflow', 'time']
+      tags: ['task', 'completion', 'workflow', 'time'],
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
     };
   }
 
@@ -33,7 +33,8 @@ export class DeleteCommentOperation implements SemanticOperation<DeleteCommentPa
         'Delete comment 12345',
         'Remove comment 67890'
       ],
-      tags: ['comment', 'communication', 'collaboration']
+      tags: ['comment', 'communication', 'collaboration'],
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true }
     };
   }
 
@@ -33,7 +33,8 @@ export class LogTimeOperation implements SemanticOperation<LogTimeParams> {
         'Log time with description of work done',
         'Log 4 hours on user story'
       ],
-      tags: ['time', 'tracking', 'productivity']
+      tags: ['time', 'tracking', 'productivity'],
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
     };
   }
 
@@ -57,7 +57,8 @@ export class ShowCommentsOperation implements SemanticOperation<ShowCommentsPara
         'List unread comments for epic 101',
         'Show comments mentioning me in task 202'
       ],
-      tags: ['comment', 'communication', 'collaboration', 'discussion', 'feedback', 'review']
+      tags: ['comment', 'communication', 'collaboration', 'discussion', 'feedback', 'review'],
+      annotations: { readOnlyHint: true, openWorldHint: true }
     };
   }
 
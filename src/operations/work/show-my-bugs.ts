@@ -31,7 +31,8 @@ export class ShowMyBugsOperation implements SemanticOperation<ShowMyBugsParams>
         'Show critical bugs assigned to me',
         'List my open bugs'
       ],
-      tags: ['bug', 'personal', 'workflow', 'quality']
+      tags: ['bug', 'personal', 'workflow', 'quality'],
+      annotations: { readOnlyHint: true, openWorldHint: true }
     };
   }
 
@@ -34,7 +34,8 @@ export class ShowMyTasksOperation implements SemanticOperation<ShowMyTasksParams
         'Show my high priority tasks',
         'List my tasks in Project Alpha'
       ],
-      tags: ['task', 'personal', 'workflow']
+      tags: ['task', 'personal', 'workflow'],
+      annotations: { readOnlyHint: true, openWorldHint: true }
     };
   }
 
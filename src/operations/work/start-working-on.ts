@@ -29,7 +29,8 @@ export class StartWorkingOnOperation implements SemanticOperation<StartWorkingOn
         'I want to start this feature',
         'Pick up task #5678'
       ],
-      tags: ['task', 'progress', 'workflow']
+      tags: ['task', 'progress', 'workflow'],
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true }
     };
   }
 
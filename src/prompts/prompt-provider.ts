@@ -0,0 +1,185 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PersonalityConfig } from '../core/interfaces/semantic-operation.interface.js';
+
+/**
+ * A workflow step resolved to the MCP tool that performs it
+ */
+export interface PromptToolStep {
+  operationId: string;
+  toolName: string;
+  description: string;
+  /** Arguments the tool always needs for this step, e.g. the comment tool's `operation` */
+  fixedArguments?: Record<string, string>;
+  schema?: z.ZodType<any, any, any>;
+}
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessages {
+  description: string;
+  messages: Array<{
+    role: 'user';
+    content: { type: 'text'; text: string };
+  }>;
+}
+
+interface WorkflowPrompt extends PromptDefinition {
+  situation: string;
+  steps: PromptToolStep[];
+}
+
+/**
+ * Exposes a personality's workflowHints as MCP prompts.
+ *
+ * Each hint (dailyStart, sprintEnd, ...) becomes a prompt named
+ * `<personality>-<situation>` whose message walks the agent through the hinted
+ * semantic tools in order. Steps whose operation isn't available as a tool are
+ * dropped, and hints with no available steps are not advertised.
+ */
+export class PromptProvider {
+  private readonly prompts = new Map<string, WorkflowPrompt>();
+
+  constructor(
+    private readonly personality: PersonalityConfig | undefined,
+    resolveStep: (operationId: string) => PromptToolStep | null
+  ) {
+    const hints = personality?.workflowHints || {};
+
+    for (const [situation, operationIds] of Object.entries(hints)) {
+      const steps = operationIds
+        .map(operationId => resolveStep(operationId))
+        .filter((step): step is PromptToolStep => step !== null);
+
+      if (steps.length === 0) {
+        continue;
+      }
+
+      const prompt = this.buildPrompt(situation, steps);
+      this.prompts.set(prompt.name, prompt);
+    }
+  }
+
+  /**
+   * Get all prompts available for the active personality
+   */
+  getAvailablePrompts(): PromptDefinition[] {
+    return Array.from(this.prompts.values()).map(({ name, title, description, arguments: args }) => ({
+      name,
+      title,
+      description,
+      arguments: args
+    }));
+  }
+
+  /**
+   * Render a prompt with the caller's argument values
+   */
+  getPrompt(name: string, args: Record<string, string> = {}): PromptMessages {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      const available = Array.from(this.prompts.keys());
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown prompt: ${name}. Available prompts: ${available.length > 0 ? available.join(', ') : 'none'}`
+      );
+    }
+
+    const lines: string[] = [
+      `Run my ${humanize(prompt.situation).toLowerCase()} workflow as a ${this.personality?.name || 'TargetProcess user'}.`,
+      '',
+      'Use these TargetProcess tools in order:'
+    ];
+
+    prompt.steps.forEach((step, index) => {
+      const stepArgs = this.collectStepArguments(step, args);
+      const argText = Object.keys(stepArgs).length > 0
+        ? ` with ${Object.entries(stepArgs).map(([key, value]) => `${key}: ${value}`).join(', ')}`
+        : '';
+      lines.push(`${index + 1}. \`${step.toolName}\`${argText} - ${step.description}`);
+    });
+
+    const missing = prompt.arguments
+      .filter(arg => !args[arg.name])
+      .map(arg => arg.name);
+    if (missing.length > 0) {
+      lines.push('', `Ask me for ${missing.join(', ')} before running the steps that need them.`);
+    }
+
+    lines.push(
+      '',
+      'After each step, summarize the results briefly and carry relevant entity IDs into the next step. ' +
+      'If a step fails, explain why and continue with the remaining steps.'
+    );
+
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: lines.join('\n') }
+      }]
+    };
+  }
+
+  private buildPrompt(situation: string, steps: PromptToolStep[]): WorkflowPrompt {
+    const personalityId = this.personality?.id || 'default';
+    const personalityName = this.personality?.name || 'Default';
+
+    // Required inputs of the chained tools become optional prompt arguments;
+    // anything the user leaves out is asked for during the conversation
+    const args = new Map<string, PromptArgument>();
+    for (const step of steps) {
+      for (const [name, field] of getSchemaFields(step.schema)) {
+        if (!field.isOptional() && !args.has(name)) {
+          args.set(name, { name, description: field.description, required: false });
+        }
+      }
+    }
+
+    return {
+      name: `${personalityId}-${toKebabCase(situation)}`,
+      title: `${personalityName}: ${humanize(situation)}`,
+      description: `${personalityName} ${humanize(situation).toLowerCase()} workflow: ${steps.map(step => step.toolName).join(' → ')}`,
+      arguments: Array.from(args.values()),
+      situation,
+      steps
+    };
+  }
+
+  private collectStepArguments(step: PromptToolStep, args: Record<string, string>): Record<string, string> {
+    const stepArgs: Record<string, string> = { ...step.fixedArguments };
+    for (const [name] of getSchemaFields(step.schema)) {
+      if (args[name]) {
+        stepArgs[name] = args[name];
+      }
+    }
+    return stepArgs;
+  }
+}
+
+function getSchemaFields(schema?: z.ZodType<any, any, any>): Array<[string, z.ZodType<any, any, any>]> {
+  if (schema instanceof z.ZodObject) {
+    return Object.entries(schema.shape) as Array<[string, z.ZodType<any, any, any>]>;
+  }
+  return [];
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function humanize(value: string): string {
+  const words = value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
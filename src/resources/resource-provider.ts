@@ -1,12 +1,24 @@
 import { TPService } from '../api/client/tp.service.js';
 import { TPContextInfo } from '../context/context-builder.js';
+import { EntityRegistry } from '../core/entity-registry.js';
 
 export interface ResourceContent {
   uri: string;
   mimeType: string;
-  text: string;
+  text?: string;
+  blob?: string; // Base64 content for binary resources
 }
 
+export interface EntityResourceRef {
+  type: string;
+  id: number;
+  comments: boolean;
+}
+
+// Matched before the generic entity pattern so attachment URIs aren't read as entities
+const ATTACHMENT_URI = /^targetprocess:\/\/attachments?\/(\d+)$/i;
+const ENTITY_URI = /^targetprocess:\/\/([A-Za-z]+)\/(\d+)(\/comments)?$/;
+
 export class ResourceProvider {
   constructor(
     private service: TPService,
@@ -45,10 +57,47 @@ export class ResourceProvider {
     ];
   }
 
+  /**
+   * Get URI templates for individual entities, their comments and attachments
+   */
+  getResourceTemplates() {
+    return [
+      {
+        uriTemplate: 'targetprocess://{type}/{id}',
+        name: 'Entity',
+        description: 'A single work item or other entity, e.g. targetprocess://UserStory/123 or targetprocess://Bug/456',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'targetprocess://{type}/{id}/comments',
+        name: 'Entity Comments',
+        description: 'Comments on an entity, e.g. targetprocess://UserStory/123/comments',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'targetprocess://attachment/{id}',
+        name: 'Attachment',
+        description: 'File attached to an entity, returned as binary content with its original MIME type'
+      }
+    ];
+  }
+
   /**
    * Get resource content by URI
    */
   async getResourceContent(uri: string): Promise<ResourceContent> {
+    const attachmentMatch = ATTACHMENT_URI.exec(uri);
+    if (attachmentMatch) {
+      return await this.getAttachmentResource(uri, parseInt(attachmentMatch[1]));
+    }
+
+    const entityRef = this.resolveEntityUri(uri);
+    if (entityRef) {
+      return entityRef.comments
+        ? await this.getCommentsResource(uri, entityRef.type, entityRef.id)
+        : await this.getEntityResource(uri, entityRef.type, entityRef.id);
+    }
+
     switch (uri) {
       case 'targetprocess://schema':
         return await this.getSchemaResource();
@@ -63,6 +112,26 @@ export class ResourceProvider {
     }
   }
 
+  /**
+   * Parse an entity or entity comments URI. Returns null for any other URI.
+   */
+  resolveEntityUri(uri: string): EntityResourceRef | null {
+    if (ATTACHMENT_URI.test(uri)) {
+      return null;
+    }
+
+    const match = ENTITY_URI.exec(uri);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      type: this.resolveEntityType(match[1]),
+      id: parseInt(match[2]),
+      comments: !!match[3]
+    };
+  }
+
   private async getSchemaResource(): Promise<ResourceContent> {
     const schema = {
       entityTypes: this.context?.entityTypes || [],
@@ -102,7 +171,7 @@ export class ResourceProvider {
         abbreviation: p.abbreviation,
         state: p.entityState,
         program: p.program,
-        uri: `targetprocess://projects/${p.id}`
+        uri: `targetprocess://Project/${p.id}`
       })) : [],
       programs: this.context?.programs || []
     };
@@ -138,6 +207,57 @@ export class ResourceProvider {
     };
   }
 
+  private async getEntityResource(uri: string, type: string, id: number): Promise<ResourceContent> {
+    const entity = await this.service.getEntity(type, id, EntityRegistry.getCommonIncludes(type));
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(entity, null, 2)
+    };
+  }
+
+  private async getCommentsResource(uri: string, type: string, id: number): Promise<ResourceContent> {
+    const comments = await this.service.getComments(type, id);
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({ entityType: type, entityId: id, comments }, null, 2)
+    };
+  }
+
+  private async getAttachmentResource(uri: string, id: number): Promise<ResourceContent> {
+    const attachment = await this.service.downloadAttachment(id);
+
+    return {
+      uri,
+      mimeType: attachment.mimeType || 'application/octet-stream',
+      blob: attachment.base64Content
+    };
+  }
+
+  /**
+   * Map a URI segment to an entity type name. Accepts the exact name in any case
+   * as well as the plural API collection form (`projects`, `userstories`), so links
+   * like targetprocess://projects/42 resolve too. Unknown names pass through for
+   * the service to validate.
+   */
+  private resolveEntityType(segment: string): string {
+    const lower = segment.toLowerCase();
+    const knownTypes = new Set([...(this.context?.entityTypes || []), ...EntityRegistry.getAllEntityTypes()]);
+
+    for (const type of knownTypes) {
+      const name = type.toLowerCase();
+      const plural = name.endsWith('y') ? `${name.slice(0, -1)}ies` : `${name}s`;
+      if (lower === name || lower === `${name}s` || lower === plural) {
+        return type;
+      }
+    }
+
+    return segment;
+  }
+
   private getQueryExamplesResource(): ResourceContent {
     const examples = `# TargetProcess Query Examples
 
@@ -204,6 +324,13 @@ Available via search tool:
 - \`Today.AddDays(-30)\` - Month ago
 - \`ThisWeek.StartDate\` - Start of current week
 - \`ThisMonth.StartDate\` - Start of current month
+
+## Entity Resources
+
+Read a single item as context without a tool call:
+- \`targetprocess://UserStory/123\` - Entity with common includes
+- \`targetprocess://Bug/456/comments\` - Comments on an entity
+- \`targetprocess://attachment/789\` - Attachment content
 `;
 
     return {
@@ -0,0 +1,247 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TPService } from '../api/client/tp.service.js';
+import { EntityResourceRef } from './resource-provider.js';
+import { logger } from '../utils/logger.js';
+
+export interface SubscriptionOptions {
+  pollIntervalMs: number;
+  maxWatchedItems: number;
+  batchSize: number;
+}
+
+export const MIN_POLL_INTERVAL_MS = 5 * 1000;
+
+export const DEFAULT_SUBSCRIPTION_OPTIONS: SubscriptionOptions = {
+  pollIntervalMs: 60 * 1000,
+  maxWatchedItems: 50,
+  batchSize: 50
+};
+
+interface WatchedItem {
+  type: string;
+  id: number;
+  entityUris: Set<string>;
+  commentUris: Set<string>;
+  modifyDate?: string;
+  lastCommentDate?: string;
+  baselined: boolean;
+  commentsBaselined: boolean;
+  missing: boolean;
+}
+
+/**
+ * Tracks resources/subscribe requests for one MCP session and polls TargetProcess
+ * for changes to the watched entities.
+ *
+ * Entity URIs are notified when ModifyDate changes and comment URIs when
+ * LastCommentDate changes. Watched entities of the same type are checked together
+ * with a single `Id in (...)` search per batch, bypassing the response cache so
+ * poll intervals shorter than its TTL still see changes.
+ */
+export class ResourceSubscriptionManager {
+  private readonly items = new Map<string, WatchedItem>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  private closed = false;
+
+  constructor(
+    private readonly service: TPService,
+    private readonly resolveUri: (uri: string) => EntityResourceRef | null,
+    private readonly notify: (uri: string) => Promise<void>,
+    private readonly options: SubscriptionOptions
+  ) {}
+
+  /**
+   * Start watching a resource. Records the current state so only later changes are reported.
+   */
+  async subscribe(uri: string): Promise<void> {
+    const ref = this.resolveUri(uri);
+    if (!ref) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Subscriptions are only supported for entity resources (targetprocess://{type}/{id} or targetprocess://{type}/{id}/comments): ${uri}`
+      );
+    }
+
+    const key = `${ref.type}:${ref.id}`;
+    let item = this.items.get(key);
+    const isNew = !item;
+
+    if (!item) {
+      if (this.items.size >= this.options.maxWatchedItems) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Subscription limit reached: a session can watch at most ${this.options.maxWatchedItems} items. Unsubscribe from another resource first.`
+        );
+      }
+      item = {
+        type: ref.type,
+        id: ref.id,
+        entityUris: new Set(),
+        commentUris: new Set(),
+        baselined: false,
+        commentsBaselined: false,
+        missing: false
+      };
+    }
+
+    // Comment dates are only fetched while comments are watched, so record them on first use
+    const needsCommentBaseline = ref.comments && item.commentUris.size === 0;
+    (ref.comments ? item.commentUris : item.entityUris).add(uri);
+
+    if (isNew) {
+      this.items.set(key, item);
+      try {
+        await this.refresh([item]);
+      } catch (error) {
+        this.items.delete(key);
+        throw error;
+      }
+    } else if (needsCommentBaseline) {
+      item.commentsBaselined = false;
+      try {
+        await this.refresh([item]);
+      } catch (error) {
+        item.commentUris.delete(uri);
+        throw error;
+      }
+    }
+
+    this.updateTimer();
+  }
+
+  /**
+   * Stop watching a resource
+   */
+  unsubscribe(uri: string): void {
+    for (const [key, item] of this.items) {
+      item.entityUris.delete(uri);
+      item.commentUris.delete(uri);
+      if (item.entityUris.size === 0 && item.commentUris.size === 0) {
+        this.items.delete(key);
+      }
+    }
+    this.updateTimer();
+  }
+
+  /**
+   * Number of entities currently watched
+   */
+  getWatchedCount(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Check every watched entity once and notify about changes
+   */
+  async poll(): Promise<void> {
+    // Skip the tick if the previous poll is still running
+    if (this.polling || this.closed) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const byType = new Map<string, WatchedItem[]>();
+      for (const item of this.items.values()) {
+        const group = byType.get(item.type) || [];
+        group.push(item);
+        byType.set(item.type, group);
+      }
+
+      for (const [type, group] of byType) {
+        for (let i = 0; i < group.length; i += this.options.batchSize) {
+          const batch = group.slice(i, i + this.options.batchSize);
+          try {
+            await this.refresh(batch);
+          } catch (error) {
+            logger.warn(`Subscription poll failed for ${batch.length} ${type} item(s):`, error);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stop polling and forget all subscriptions
+   */
+  close(): void {
+    this.closed = true;
+    this.items.clear();
+    this.updateTimer();
+  }
+
+  /**
+   * Fetch change markers for a batch of same-type items and notify changed URIs
+   */
+  private async refresh(batch: WatchedItem[]): Promise<void> {
+    const type = batch[0].type;
+    const include = ['ModifyDate'];
+    if (batch.some(item => item.commentUris.size > 0)) {
+      include.push('LastCommentDate');
+    }
+
+    const results = await this.service.searchEntities<any>(
+      type,
+      `Id in (${batch.map(item => item.id).join(',')})`,
+      include,
+      batch.length,
+      undefined,
+      { fresh: true }
+    );
+    const byId = new Map(results.map(entity => [entity.Id, entity]));
+
+    const changed: string[] = [];
+    for (const item of batch) {
+      const entity = byId.get(item.id);
+
+      if (!entity) {
+        // Deleted or no longer visible: tell the client once so it re-reads and sees the error
+        if (item.baselined && !item.missing) {
+          changed.push(...item.entityUris, ...item.commentUris);
+        }
+        item.missing = true;
+        item.baselined = true;
+        continue;
+      }
+
+      const modifyDate = entity.ModifyDate ?? undefined;
+      const lastCommentDate = entity.LastCommentDate ?? undefined;
+
+      if (item.baselined && (item.missing || modifyDate !== item.modifyDate)) {
+        changed.push(...item.entityUris);
+      }
+      if (item.commentsBaselined && (item.missing || lastCommentDate !== item.lastCommentDate)) {
+        changed.push(...item.commentUris);
+      }
+
+      item.modifyDate = modifyDate;
+      item.lastCommentDate = lastCommentDate;
+      item.baselined = true;
+      item.commentsBaselined = item.commentUris.size > 0;
+      item.missing = false;
+    }
+
+    for (const uri of changed) {
+      try {
+        await this.notify(uri);
+      } catch (error) {
+        logger.warn(`Failed to send resource update for ${uri}:`, error);
+      }
+    }
+  }
+
+  private updateTimer(): void {
+    if (this.items.size > 0 && !this.timer && !this.closed) {
+      this.timer = setInterval(() => {
+        this.poll().catch(error => logger.warn('Subscription poll error:', error));
+      }, this.options.pollIntervalMs);
+      this.timer.unref();
+    } else if ((this.items.size === 0 || this.closed) && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,361 +1,305 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ErrorCode,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
   McpError,
+  ServerNotification,
+  ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { logger, createLogger } from './utils/logger.js';
-import fs from 'fs';
-import path from 'path';
-
-import { TPService, TPServiceConfig } from './api/client/tp.service.js';
-import { TPContextBuilder, TPContextInfo } from './context/context-builder.js';
-import { ResourceProvider } from './resources/resource-provider.js';
+import { createRequestControl, throwIfAborted } from './utils/request-control.js';
+import { McpLogForwarder } from './utils/mcp-log-forwarder.js';
+import { toOperationOutput } from './core/operation-output.js';
+import { setTimeout } from 'node:timers';
+
+import { IncomingMessage } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { TPServiceConfig } from './api/client/tp.service.js';
+import { trackOperation, trackRequestStats } from './api/http/request-stats.js';
+import { TPContextInfo } from './context/context-builder.js';
 import { EntityRegistry } from './core/entity-registry.js';
 import { SearchTool } from './tools/search/search.tool.js';
+import { AggregateEntitiesTool } from './tools/aggregate/aggregate.tool.js';
 import { GetEntityTool } from './tools/entity/get.tool.js';
 import { CreateEntityTool } from './tools/entity/create.tool.js';
 import { UpdateEntityTool } from './tools/update/update.tool.js';
+import { BulkCreateEntitiesTool } from './tools/bulk/bulk-create.tool.js';
+import { BulkUpdateEntitiesTool } from './tools/bulk/bulk-update.tool.js';
 import { InspectObjectTool } from './tools/inspect/inspect.tool.js';
-import { operationRegistry } from './core/operation-registry.js';
-import { personalityLoader } from './core/personality-loader.js';
-import { WorkOperations } from './operations/work/index.js';
-import { GeneralOperations } from './operations/general/index.js';
-import { paginateText } from './utils/paginator.js';
-import { ShowMoreTool } from './tools/pagination/show-more.tool.js';
-import { ShowAllTool } from './tools/pagination/show-all.tool.js';
 import { CommentTool } from './tools/comment/comment.tool.js';
-
-function loadConfig(): TPServiceConfig {
-  // Try API key authentication
-  if (process.env.TP_API_KEY && process.env.TP_DOMAIN) {
-    logger.info('Using API key authentication from environment variables');
-    return {
-      domain: process.env.TP_DOMAIN,
-      apiKey: process.env.TP_API_KEY
-    }
+import { toolErrorResult } from './tools/tool-error.js';
+import { HttpTransportHost, TransportAuthError } from './transport/http-transport.js';
+import { TPSession, SessionIdentity } from './session/tp-session.js';
+import { resolveRequestCredentials, SessionBaseConfig } from './session/session-credentials.js';
+import { ConfigService } from './config/config-service.js';
+import { personalityLoader } from './core/personality-loader.js';
+import { ResourceSubscriptionManager } from './resources/subscription-manager.js';
+
+/**
+ * Identity configured for the server-wide session (TP_USER_ID / TP_USER_EMAIL)
+ */
+function configuredIdentity(config: ConfigService): SessionIdentity | undefined {
+  const { id, email = '' } = config.getUserConfig();
+  if (!id) {
+    return undefined;
   }
 
-  // Try basic authentication with environment variables
-  if (process.env.TP_DOMAIN && process.env.TP_USERNAME && process.env.TP_PASSWORD) {
-    logger.info('Using basic authentication from environment variables');
-    return {
-      domain: process.env.TP_DOMAIN,
-      credentials: {
-        username: process.env.TP_USERNAME,
-        password: process.env.TP_PASSWORD
-      }
-    };
-  }
+  // TODO: Fetch actual user name from API based on ID
+  const userName = email.split('@')[0] || 'User';
+  return { id, name: userName, email };
+}
 
-  // Fall back to config file - check multiple locations
-  const configLocations = [
-    // Current directory
-    path.join(process.cwd(), 'targetprocess.json'),
-    // Config subdirectory
-    path.join(process.cwd(), 'config', 'targetprocess.json'),
-    // User's home directory
-    path.join(process.env.HOME || process.env.USERPROFILE || '', '.targetprocess.json'),
-    // User's config directory
-    path.join(process.env.HOME || process.env.USERPROFILE || '', '.config', 'targetprocess', 'config.json')
-  ];
-
-  let configPath = null;
-  for (const location of configLocations) {
-    if (fs.existsSync(location)) {
-      configPath = location;
-      logger.info(`Found configuration file at ${location}`);
-      break;
+export class TargetProcessServer {
+  private server: Server | null = null;
+  private httpHost: HttpTransportHost | null = null;
+  private defaultSession: TPSession | null = null;
+  // Sessions of the further instances, created on first use
+  private readonly instanceSessions = new Map<string, Promise<TPSession>>();
+
+  constructor(private readonly config: ConfigService) {
+    for (const line of config.describe()) {
+      logger.info(line);
     }
+    this.applyPersonalities();
+
+    if (this.requireSessionAuth) {
+      logger.info('Per-session authentication required; no server-wide TargetProcess credentials in use');
+      return;
+    }
+
+    // Initialize the server-wide session from configured credentials
+    this.defaultSession = new TPSession({
+      config: config.getServiceConfig(),
+      userRole: this.userRole,
+      identity: configuredIdentity(config),
+      label: config.getPrimaryInstance(),
+      presets: config.getSearchPresets()
+    });
+
+    // Initialize caches and context in the background
+    void this.defaultSession.initialize();
   }
 
-  if (!configPath) {
-    const errorMessage = 'No configuration found. Please set environment variables (TP_DOMAIN, TP_USERNAME, TP_PASSWORD) or create a configuration file in one of these locations:\n' +
-      configLocations.join('\n');
-    logger.error(errorMessage);
-    throw new McpError(ErrorCode.InternalError, errorMessage);
+  // Read on use, so a reload applies to sessions created after it
+  private get userRole(): string {
+    return this.config.getUserConfig().role;
   }
 
-  try {
-    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
-  } catch (error) {
-    logger.error(`Error parsing config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Error parsing config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`
-    );
+  // In per-session mode every HTTP client must bring its own credentials
+  private get requireSessionAuth(): boolean {
+    return this.config.isFeatureEnabled('requireSessionAuth');
   }
-}
 
-export class TargetProcessServer {
-  private server: Server;
-  private service: TPService;
-  private contextBuilder: TPContextBuilder;
-  private context: TPContextInfo | null = null;
-  private resourceProvider: ResourceProvider;
-  private tools: {
-    search: SearchTool;
-    get: GetEntityTool;
-    create: CreateEntityTool;
-    update: UpdateEntityTool;
-    inspect: InspectObjectTool;
-    comment: CommentTool;
-    [key: string]: any; // Allow dynamic semantic tools
-  };
-  private userRole: string;
-
-  constructor() {
-    // Load user role from environment, default to 'default' for basic semantic operations
-    this.userRole = process.env.TP_USER_ROLE || 'default';
-    logger.info(`User role configured as: ${this.userRole}`);
-
-    // Initialize service
-    const config = loadConfig();
-    this.service = new TPService(config);
-    this.contextBuilder = new TPContextBuilder(this.service);
-    this.resourceProvider = new ResourceProvider(this.service, this.context);
-
-    // Initialize semantic features
-    this.initializeSemanticFeatures();
-
-    // Initialize core tools
-    this.tools = {
-      search: new SearchTool(this.service),
-      get: new GetEntityTool(this.service),
-      create: new CreateEntityTool(this.service),
-      update: new UpdateEntityTool(this.service),
-      inspect: new InspectObjectTool(this.service),
-      comment: new CommentTool(this.service),
-      show_more: new ShowMoreTool(),
-      show_all: new ShowAllTool()
-    };
+  // HTTP clients without credentials get the server-wide identity only when the operator opts in
+  private get allowSharedSession(): boolean {
+    return this.config.isFeatureEnabled('allowSharedSession');
+  }
 
-    // Initialize role-based semantic tools
-    this.initializeSemanticTools();
+  private get baseConfig(): SessionBaseConfig {
+    return this.config.getServiceBaseConfig();
+  }
 
-    // Initialize server
-    this.server = new Server(
-      {
-        name: 'target-process-server',
-        version: '0.1.0',
-      },
-      {
-        capabilities: {
-          tools: this.getToolCapabilities(),
-          resources: {},
-        },
-      }
-    );
+  /**
+   * The session a tool call runs in: the caller's own, or that of the instance it names.
+   * Sessions that bring their own credentials only reach their own instance.
+   */
+  private async sessionFor(session: TPSession, instance: unknown): Promise<TPSession> {
+    if (instance === undefined || instance === this.config.getPrimaryInstance()) {
+      return session;
+    }
+    if (typeof instance !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'instance must be the name of a configured instance');
+    }
+    if (session !== this.defaultSession) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Instance ${instance} is not available to sessions that send their own credentials`
+      );
+    }
 
-    this.setupHandlers();
+    let pending = this.instanceSessions.get(instance);
+    if (!pending) {
+      pending = this.createInstanceSession(instance);
+      this.instanceSessions.set(instance, pending);
+      // Let a later call try again, e.g. after the instance's credentials are fixed
+      pending.catch(() => this.instanceSessions.delete(instance));
+    }
+    return await pending;
+  }
 
-    // Error handling
-    this.server.onerror = (error) => logger.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
+  private async createInstanceSession(name: string): Promise<TPSession> {
+    const session = new TPSession({
+      config: this.config.getInstanceServiceConfig(name),
+      userRole: this.userRole,
+      label: name,
+      presets: this.config.getSearchPresets()
     });
 
+    try {
+      // Users differ between instances, so look up whose credentials these are
+      await session.authenticate();
+    } catch (error) {
+      session.dispose();
+      throw error;
+    }
+
     // Initialize caches and context in the background
-    this.initializeCache();
+    void session.initialize();
+    return session;
   }
 
   /**
-   * Initialize caches and context in the background to improve first-request performance
+   * Let the agent pick an instance on every tool when more than one is configured
    */
-  private async initializeCache(): Promise<void> {
-    try {
-      // Initialize entity type cache
-      await this.service.initializeEntityTypeCache();
-      
-      // Build TargetProcess context
-      logger.info('Building TargetProcess context...');
-      this.context = await this.contextBuilder.buildContext();
-      
-      // Update resource provider with context
-      this.resourceProvider = new ResourceProvider(this.service, this.context);
-      logger.info('TargetProcess context built successfully');
-    } catch (error) {
-      logger.error('Cache/context initialization error:', error);
-      // Non-fatal error, server can still function
+  private withInstanceArgument<T extends { inputSchema?: any }>(tools: T[]): T[] {
+    const names = this.config.getInstanceNames();
+    if (names.length < 2) {
+      return tools;
     }
+
+    const instance = {
+      type: 'string',
+      enum: names,
+      description: `TargetProcess instance to use (default: ${this.config.getPrimaryInstance()})`
+    };
+    return tools.map(tool => ({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        type: 'object',
+        properties: { ...tool.inputSchema?.properties, instance }
+      }
+    }));
   }
 
-  /**
-   * Initialize semantic features and register them with the operation registry
-   */
-  private initializeSemanticFeatures(): void {
-    try {
-      // Register general operations module (available to all users)
-      const generalOperations = new GeneralOperations(this.service);
-      operationRegistry.registerFeature(generalOperations);
-      
-      // Register work operations module
-      const workOperations = new WorkOperations(this.service);
-      operationRegistry.registerFeature(workOperations);
-      
-      // Future modules can be registered here
-      // const collaborationOperations = new CollaborationOperations(this.service);
-      // operationRegistry.registerFeature(collaborationOperations);
-      
-      logger.info('Semantic features initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize semantic features:', error);
+  private applyPersonalities(): void {
+    const personalitiesPath = this.config.getPersonalitiesPath();
+    if (personalitiesPath) {
+      personalityLoader.loadFrom(personalitiesPath);
     }
   }
 
   /**
-   * Initialize role-based semantic tools
+   * Re-read the configuration. Sessions created afterwards use the new settings;
+   * the server-wide session keeps its credentials until restart.
    */
-  private initializeSemanticTools(): void {
+  async reloadConfig(): Promise<void> {
     try {
-      // Get operations for the current user role
-      const availableOperations = operationRegistry.getOperationsForPersonality(this.userRole);
-      
-      // Filter out comment operations since we have a unified comment tool
-      const excludedOperations = ['add-comment', 'show-comments', 'delete-comment'];
-      const filteredOperations = availableOperations.filter(operation => 
-        !excludedOperations.includes(operation.metadata.id)
-      );
-      
-      logger.info(`Initializing ${filteredOperations.length} semantic tools for role: ${this.userRole} (excluded ${availableOperations.length - filteredOperations.length} comment operations)`);
-      
-      // Create individual MCP tools for each semantic operation (except comment operations)
-      filteredOperations.forEach(operation => {
-        const toolName = operation.metadata.id.replace(/-/g, '_'); // Convert to snake_case for MCP
-        this.tools[toolName] = this.createSemanticTool(operation);
-        logger.info(`Registered semantic tool: ${toolName}`);
-      });
-      
+      await this.config.reload();
+      this.applyPersonalities();
+      logger.info('Configuration reloaded');
     } catch (error) {
-      logger.error('Failed to initialize semantic tools:', error);
+      logger.error('Configuration reload failed, keeping the previous configuration:', error);
     }
   }
 
   /**
-   * Create a focused MCP tool for a specific semantic operation
+   * Create an MCP protocol server wired to a session's tools and resources.
+   * A Server can only be connected to a single transport, so HTTP mode creates one per client session.
+   * With isolateLogs, only log records from this connection's own requests are forwarded to the client.
    */
-  private createSemanticTool(operation: any) {
-    return {
-      name: operation.metadata.id.replace(/-/g, '_'),
-      description: operation.metadata.description,
-      inputSchema: this.createSemanticToolSchema(operation),
-      handler: async (args: any) => {
-        try {
-          // Build execution context using configured identity
-          const userId = parseInt(process.env.TP_USER_ID || '0');
-          const userEmail = process.env.TP_USER_EMAIL || '';
-          
-          if (!userId) {
-            return {
-              content: [{
-                type: 'text',
-                text: 'Error: No user identity configured. Please set TP_USER_ID in your environment.'
-              }]
-            };
-          }
-          
-          // TODO: Fetch actual user name from API based on ID
-          const userName = userEmail.split('@')[0] || 'User';
-          
-          const context = personalityLoader.buildExecutionContext(
-            this.userRole,
-            { id: userId, name: userName, email: userEmail },
-            {},
-            {}
-          );
-
-          // Execute the operation
-          const result = await operation.execute(context, args);
-          
-          // Debug logging
-          logger.debug('Semantic operation result:', JSON.stringify(result, null, 2));
-          
-          // Format result for MCP
-          const formattedText = this.formatSemanticResult(result);
-          logger.debug('Formatted text:', formattedText);
-          
-          return {
-            content: [{
-              type: 'text',
-              text: formattedText
-            }]
-          };
-        } catch (error) {
-          return {
-            content: [{
-              type: 'text', 
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }]
-          };
-        }
+  createMcpServer(session: TPSession, options: { isolateLogs?: boolean } = {}): Server {
+    const server = new Server(
+      {
+        name: 'target-process-server',
+        version: '0.1.0',
+      },
+      {
+        capabilities: {
+          tools: this.getToolCapabilities(session),
+          resources: { subscribe: true },
+          prompts: {},
+          completions: {},
+          logging: {},
+        },
       }
+    );
+
+    const logForwarder = new McpLogForwarder(server, { isolated: !!options.isolateLogs });
+    server.oninitialized = () => logForwarder.start();
+
+    // Subscriptions belong to the connection, even when several connections share a session
+    const subscriptions = new ResourceSubscriptionManager(
+      session.service,
+      (uri) => session.resourceProvider.resolveEntityUri(uri),
+      (uri) => server.sendResourceUpdated({ uri }),
+      this.config.getSubscriptionOptions()
+    );
+
+    this.setupHandlers(server, session, subscriptions, logForwarder);
+    server.onerror = (error) => logger.error('[MCP Error]', error);
+    server.onclose = () => {
+      subscriptions.close();
+      logForwarder.close();
     };
+
+    return server;
   }
 
   /**
-   * Create JSON Schema for a semantic operation
+   * Create the MCP server for a new HTTP client session.
+   * Clients that send credentials get an isolated session authenticated as themselves;
+   * the rest are refused unless MCP_ALLOW_SHARED_SESSION lets them share the server-wide session.
    */
-  private createSemanticToolSchema(operation: any) {
-    if (operation.getSchema) {
-      const zodSchema = operation.getSchema();
-      
-      // Basic Zod to JSON Schema conversion
-      // This is simplified - a full implementation would use zodToJsonSchema library
-      const shape = (zodSchema as any)._def?.shape?.() || {};
-      const properties: any = {};
-      const required: string[] = [];
-      
-      Object.entries(shape).forEach(([key, value]: [string, any]) => {
-        const def = value._def;
-        
-        // Determine type
-        let type = 'string';
-        if (def?.typeName === 'ZodNumber') type = 'number';
-        else if (def?.typeName === 'ZodBoolean') type = 'boolean';
-        else if (def?.typeName === 'ZodEnum') {
-          properties[key] = {
-            type: 'string',
-            enum: def.values,
-            description: def.description
-          };
-          return;
-        }
-        
-        properties[key] = {
-          type,
-          description: def?.description
-        };
-        
-        // Check if required (not optional)
-        if (def?.typeName !== 'ZodOptional' && def?.typeName !== 'ZodDefault') {
-          required.push(key);
-        }
-      });
-      
-      return {
-        type: 'object',
-        properties,
-        required: required.length > 0 ? required : undefined,
-        additionalProperties: false
-      };
+  private async createHttpSessionServer(req: IncomingMessage): Promise<Server> {
+    let config: TPServiceConfig | null;
+    try {
+      config = resolveRequestCredentials(req, this.baseConfig);
+    } catch (error) {
+      throw new TransportAuthError(error instanceof Error ? error.message : String(error));
     }
-    
-    return {
-      type: 'object',
-      properties: {},
-      additionalProperties: true
+
+    if (!config) {
+      if (!this.defaultSession || !this.allowSharedSession) {
+        throw new TransportAuthError('TargetProcess credentials required: send an X-TP-Api-Key or Authorization header');
+      }
+      return this.createMcpServer(this.defaultSession, { isolateLogs: true });
+    }
+
+    const session = new TPSession({
+      config,
+      userRole: this.userRole,
+      label: `http-${randomUUID().slice(0, 8)}`,
+      presets: this.config.getSearchPresets()
+    });
+
+    try {
+      await session.authenticate();
+    } catch (error) {
+      session.dispose();
+      logger.debug('Session credential check failed:', error);
+      throw new TransportAuthError('TargetProcess rejected the supplied credentials');
+    }
+
+    // Initialize caches and context in the background
+    void session.initialize();
+
+    const server = this.createMcpServer(session, { isolateLogs: true });
+    const closeConnection = server.onclose;
+    server.onclose = () => {
+      closeConnection?.();
+      session.dispose();
     };
+    return server;
   }
 
   /**
    * Get tool capabilities dynamically based on available tools
    */
-  private getToolCapabilities() {
+  private getToolCapabilities(session: TPSession) {
     const capabilities: Record<string, boolean> = {
       search_entities: true,
       get_entity: true,
@@ -365,7 +309,7 @@ export class TargetProcessServer {
     };
 
     // Add semantic tool capabilities
-    Object.keys(this.tools).forEach(toolName => {
+    Object.keys(session.tools).forEach(toolName => {
       if (!['search', 'get', 'create', 'update', 'inspect'].includes(toolName)) {
         capabilities[toolName] = true;
       }
@@ -375,88 +319,77 @@ export class TargetProcessServer {
   }
 
   /**
-   * Format semantic operation result for display with automatic pagination
+   * Definitions of the core tools, enhanced with the session's TP context, and of the role's semantic tools
    */
-  private formatSemanticResult(result: any): string {
-    const parts: string[] = [];
-
-    // Main content
-    if (result.content) {
-      result.content.forEach((content: any) => {
-        if (content.type === 'text' && content.text) {
-          parts.push(content.text);
-        } else if (content.type === 'structured-data' && content.data) {
-          parts.push(JSON.stringify(content.data, null, 2));
-        } else if (content.type === 'error' && content.text) {
-          parts.push(`Error: ${content.text}`);
+  private getToolDefinitions(session: TPSession) {
+    // Get enhanced tool definitions with TP context
+    const context = session.context;
+    const contextDescription = context
+      ? session.contextBuilder.generateContextDescription(context)
+      : '';
+
+    const tools = [
+      this.getEnhancedSearchDefinition(context, contextDescription),
+      AggregateEntitiesTool.getDefinition(),
+      this.getEnhancedGetDefinition(context, contextDescription),
+      this.getEnhancedCreateDefinition(context, contextDescription),
+      this.getEnhancedUpdateDefinition(context, contextDescription),
+      BulkCreateEntitiesTool.getDefinition(),
+      BulkUpdateEntitiesTool.getDefinition(),
+      this.getEnhancedInspectDefinition(context, contextDescription),
+      CommentTool.getDefinition(),
+      this.getShowMoreDefinition(),
+      this.getShowAllDefinition(),
+    ];
+
+    // Add semantic tools for the current role
+    Object.keys(session.tools).forEach(toolName => {
+      if (!['search', 'aggregate', 'get', 'create', 'update', 'bulk_create', 'bulk_update', 'inspect', 'comment', 'show_more', 'show_all'].includes(toolName)) {
+        const tool = session.tools[toolName];
+        if (tool && tool.description) {
+          tools.push({
+            name: toolName as any,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            outputSchema: tool.outputSchema,
+            annotations: tool.annotations
+          });
         }
-      });
-    }
-
-    // Suggestions
-    if (result.suggestions && result.suggestions.length > 0) {
-      parts.push('\n💡 **Suggested Next Actions:**');
-      result.suggestions.forEach((suggestion: string) => {
-        parts.push(`  • ${suggestion}`);
-      });
-    }
+      }
+    });
 
-    const fullText = parts.join('\n');
-    
-    // Apply automatic pagination to large responses
-    const paginationResult = paginateText(fullText);
-    return paginationResult.text;
+    return tools;
   }
 
-  private setupHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // Get enhanced tool definitions with TP context
-      const contextDescription = this.context 
-        ? this.contextBuilder.generateContextDescription(this.context)
-        : '';
-
-      const tools = [
-        this.getEnhancedSearchDefinition(contextDescription),
-        this.getEnhancedGetDefinition(contextDescription),
-        this.getEnhancedCreateDefinition(contextDescription),
-        this.getEnhancedUpdateDefinition(contextDescription),
-        this.getEnhancedInspectDefinition(contextDescription),
-        CommentTool.getDefinition(),
-        this.getShowMoreDefinition(),
-        this.getShowAllDefinition(),
-      ];
-
-      // Add semantic tools for the current role
-      Object.keys(this.tools).forEach(toolName => {
-        if (!['search', 'get', 'create', 'update', 'inspect', 'comment', 'show_more', 'show_all'].includes(toolName)) {
-          const tool = (this.tools as any)[toolName];
-          if (tool && tool.description) {
-            tools.push({
-              name: toolName as any,
-              description: tool.description,
-              inputSchema: tool.inputSchema
-            });
-          }
-        }
-      });
-
-      return { tools };
+  private setupHandlers(
+    server: Server,
+    session: TPSession,
+    subscriptions: ResourceSubscriptionManager,
+    logForwarder: McpLogForwarder
+  ) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      // Tools the policy refuses whatever the arguments are not offered at all
+      const policy = this.config.getToolPolicy();
+      const tools = this.getToolDefinitions(session).filter(tool => policy.isListed(tool));
+      return { tools: this.withInstanceArgument(tools) };
     });
 
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: this.resourceProvider.getAvailableResources(),
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: session.resourceProvider.getAvailableResources(),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: session.resourceProvider.getResourceTemplates(),
     }));
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       try {
-        const content = await this.resourceProvider.getResourceContent(request.params.uri);
+        const content = await session.resourceProvider.getResourceContent(request.params.uri);
         return {
           contents: [
-            {
-              uri: content.uri,
-              mimeType: content.mimeType,
-              text: content.text,
-            },
+            content.blob !== undefined
+              ? { uri: content.uri, mimeType: content.mimeType, blob: content.blob }
+              : { uri: content.uri, mimeType: content.mimeType, text: content.text ?? '' },
           ],
         };
       } catch (error) {
@@ -467,84 +400,153 @@ export class TargetProcessServer {
       }
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        const toolName = request.params.name;
-        
-        // Handle core tools
-        switch (toolName) {
-          case 'search_entities': {
-            // Apply pagination to search results
-            const searchResult = await this.tools.search.execute(request.params.arguments);
-            const formattedResult = this.formatSemanticResult(searchResult);
-            return {
-              content: [{
-                type: 'text',
-                text: formattedResult
-              }]
-            };
-          }
-          case 'get_entity':
-            return await this.tools.get.execute(request.params.arguments);
-          case 'create_entity':
-            return await this.tools.create.execute(request.params.arguments);
-          case 'update_entity':
-            return await this.tools.update.execute(request.params.arguments);
-          case 'inspect_object':
-            return await this.tools.inspect.execute(request.params.arguments);
-          case 'comment': {
-            const commentResult = await this.tools.comment.execute(request.params.arguments || {}, {});
-            const formattedResult = this.formatSemanticResult(commentResult);
-            return {
-              content: [{
-                type: 'text',
-                text: formattedResult
-              }]
-            };
-          }
-        }
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logForwarder.setLevel(request.params.level);
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: session.promptProvider.getAvailablePrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const prompt = session.promptProvider.getPrompt(request.params.name, request.params.arguments);
+      return {
+        description: prompt.description,
+        messages: prompt.messages,
+      };
+    });
+
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument, context } = request.params;
+      const completion = await session.completionProvider.complete(
+        ref,
+        argument.name,
+        argument.value,
+        context?.arguments
+      );
+      return { completion };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      // Each tool call gets its own request scope, so the request throttle can
+      // share capacity fairly between concurrent calls
+      const { result } = await trackRequestStats(() => this.callTool(session, request, extra));
+      return result;
+    });
+  }
 
-        // Handle pagination tools
-        if (toolName === 'show_more') {
-          return await this.tools.show_more.execute(request.params.arguments);
+  private async callTool(
+    callerSession: TPSession,
+    callRequest: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) {
+    try {
+      // Tools never see the instance argument; it only picks the session
+      const { instance, ...args } = callRequest.params.arguments ?? {};
+      const session = await this.sessionFor(callerSession, instance);
+      const request = { ...callRequest, params: { ...callRequest.params, arguments: args } };
+      const toolName = request.params.name;
+
+      // Every call passes the policy here, including calls to tools it hides
+      const definition = this.getToolDefinitions(session).find(tool => tool.name === toolName);
+      if (definition) {
+        this.config.getToolPolicy().check(definition, args);
+      }
+      
+      // Handle core tools
+      switch (toolName) {
+        case 'search_entities': {
+          // Apply pagination to search results
+          const searchResult = await session.tools.search.execute(
+            request.params.arguments,
+            session.buildExecutionContext(),
+            createRequestControl(extra)
+          );
+          const formattedResult = session.formatResult(searchResult);
+          return {
+            content: [{
+              type: 'text',
+              text: formattedResult
+            }],
+            structuredContent: searchResult.structuredContent
+          };
         }
-        if (toolName === 'show_all') {
-          return await this.tools.show_all.execute(request.params.arguments);
+        case 'aggregate_entities':
+          // Aggregation may page through thousands of items, so honor cancellation
+          return await session.tools.aggregate.execute(request.params.arguments, { signal: extra.signal });
+        case 'get_entity':
+          return await session.tools.get.execute(request.params.arguments, { signal: extra.signal });
+        case 'create_entity':
+          return await session.tools.create.execute(request.params.arguments);
+        case 'update_entity':
+          return await session.tools.update.execute(request.params.arguments);
+        case 'bulk_create_entities':
+          return await session.tools.bulk_create.execute(request.params.arguments, { signal: extra.signal });
+        case 'bulk_update_entities':
+          return await session.tools.bulk_update.execute(request.params.arguments, { signal: extra.signal });
+        case 'inspect_object':
+          return await session.tools.inspect.execute(request.params.arguments, { signal: extra.signal });
+        case 'comment': {
+          const commentResult = await trackOperation(() =>
+            session.tools.comment.execute(request.params.arguments || {}, session.buildExecutionContext() || {})
+          );
+          const formattedResult = session.formatResult(commentResult);
+          return {
+            content: [{
+              type: 'text',
+              text: formattedResult
+            }],
+            structuredContent: toOperationOutput(commentResult)
+          };
         }
+      }
 
-        // Handle semantic tools
-        if (this.tools[toolName] && this.tools[toolName].handler) {
-          return await this.tools[toolName].handler(request.params.arguments);
-        }
+      // Handle pagination tools
+      if (toolName === 'show_more') {
+        return await session.tools.show_more.execute(request.params.arguments);
+      }
+      if (toolName === 'show_all') {
+        return await session.tools.show_all.execute(request.params.arguments, { signal: extra.signal });
+      }
 
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${toolName}`
-        );
-      } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
+      // Handle semantic tools
+      if (session.tools[toolName] && session.tools[toolName].handler) {
+        return await session.tools[toolName].handler(request.params.arguments, createRequestControl(extra));
+      }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Target Process API error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Unknown tool: ${toolName}`
+      );
+    } catch (error) {
+      // Unknown tools and cancelled calls are protocol errors; anything else is
+      // reported to the agent with its error code and recovery suggestions
+      throwIfAborted(extra.signal);
+      if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+        throw error;
       }
-    });
+
+      return toolErrorResult(error);
+    }
   }
 
-  private getEnhancedSearchDefinition(contextDescription: string) {
+  private getEnhancedSearchDefinition(context: TPContextInfo | null, contextDescription: string) {
     const baseDefinition = SearchTool.getDefinition();
-    if (contextDescription && this.context) {
+    if (contextDescription && context) {
       // Use discovered entity types if available
-      const entityTypes = this.context.entityTypes.length > 0 
-        ? this.context.entityTypes 
+      const entityTypes = context.entityTypes.length > 0 
+        ? context.entityTypes 
         : EntityRegistry.getAllEntityTypes();
 
       // Add available entity types to the description
@@ -568,12 +570,12 @@ export class TargetProcessServer {
     return baseDefinition;
   }
 
-  private getEnhancedGetDefinition(contextDescription: string) {
+  private getEnhancedGetDefinition(context: TPContextInfo | null, contextDescription: string) {
     const baseDefinition = GetEntityTool.getDefinition();
-    if (contextDescription && this.context) {
+    if (contextDescription && context) {
       // Use discovered entity types if available
-      const entityTypes = this.context.entityTypes.length > 0 
-        ? this.context.entityTypes 
+      const entityTypes = context.entityTypes.length > 0 
+        ? context.entityTypes 
         : EntityRegistry.getAllEntityTypes();
 
       // Add available entity types to the description
@@ -597,12 +599,12 @@ export class TargetProcessServer {
     return baseDefinition;
   }
 
-  private getEnhancedCreateDefinition(contextDescription: string) {
+  private getEnhancedCreateDefinition(context: TPContextInfo | null, contextDescription: string) {
     const baseDefinition = CreateEntityTool.getDefinition();
-    if (contextDescription && this.context) {
+    if (contextDescription && context) {
       // Use discovered entity types if available
-      const entityTypes = this.context.entityTypes.length > 0 
-        ? this.context.entityTypes 
+      const entityTypes = context.entityTypes.length > 0 
+        ? context.entityTypes 
         : EntityRegistry.getAllEntityTypes();
 
       // Add available entity types to the description
@@ -626,12 +628,12 @@ export class TargetProcessServer {
     return baseDefinition;
   }
 
-  private getEnhancedUpdateDefinition(contextDescription: string) {
+  private getEnhancedUpdateDefinition(context: TPContextInfo | null, contextDescription: string) {
     const baseDefinition = UpdateEntityTool.getDefinition();
-    if (contextDescription && this.context) {
+    if (contextDescription && context) {
       // Use discovered entity types if available
-      const entityTypes = this.context.entityTypes.length > 0 
-        ? this.context.entityTypes 
+      const entityTypes = context.entityTypes.length > 0 
+        ? context.entityTypes 
         : EntityRegistry.getAllEntityTypes();
 
       // Add available entity types to the description
@@ -655,12 +657,12 @@ export class TargetProcessServer {
     return baseDefinition;
   }
 
-  private getEnhancedInspectDefinition(contextDescription: string) {
+  private getEnhancedInspectDefinition(context: TPContextInfo | null, contextDescription: string) {
     const baseDefinition = InspectObjectTool.getDefinition();
-    if (contextDescription && this.context) {
+    if (contextDescription && context) {
       // Use discovered entity types if available
-      const entityTypes = this.context.entityTypes.length > 0 
-        ? this.context.entityTypes 
+      const entityTypes = context.entityTypes.length > 0 
+        ? context.entityTypes 
         : EntityRegistry.getAllEntityTypes();
 
       // Add available entity types to the description
@@ -702,6 +704,11 @@ export class TargetProcessServer {
           }
         },
         required: ['cacheKey']
+      },
+      annotations: {
+        title: 'Show More Results',
+        readOnlyHint: true,
+        openWorldHint: false
       }
     };
   }
@@ -719,14 +726,57 @@ export class TargetProcessServer {
           }
         },
         required: ['cacheKey']
+      },
+      annotations: {
+        title: 'Show All Results',
+        readOnlyHint: true,
+        openWorldHint: false
       }
     };
   }
 
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    const transportOptions = this.config.getTransportOptions();
     const timestamp = new Date().toISOString();
-    logger.info(`Target Process MCP server running on stdio (started at ${timestamp})`);
+
+    if (transportOptions.mode === 'http') {
+      this.httpHost = new HttpTransportHost((req) => this.createHttpSessionServer(req), transportOptions.http);
+      await this.httpHost.start();
+      logger.info(`Target Process MCP server listening on ${this.httpHost.getAddress()} (Streamable HTTP at ${transportOptions.http.mcpPath}, legacy SSE at /sse, started at ${timestamp})`);
+    } else {
+      if (!this.defaultSession) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          'MCP_REQUIRE_SESSION_AUTH only applies to the HTTP transport. Configure TargetProcess credentials for stdio.'
+        );
+      }
+      this.server = this.createMcpServer(this.defaultSession);
+      await this.server.connect(new StdioServerTransport());
+      logger.info(`Target Process MCP server running on stdio (started at ${timestamp})`);
+    }
+
+    process.on('SIGHUP', () => void this.reloadConfig());
+    process.once('SIGINT', () => this.shutdown('SIGINT'));
+    process.once('SIGTERM', () => this.shutdown('SIGTERM'));
+  }
+
+  /**
+   * Gracefully close transports and exit
+   */
+  async shutdown(signal: string): Promise<void> {
+    logger.info(`Received ${signal}, shutting down...`);
+
+    // Don't let a stuck client connection block the exit
+    const forceExit = setTimeout(() => process.exit(1), 10000);
+    forceExit.unref();
+
+    try {
+      await this.httpHost?.close();
+      await this.server?.close();
+    } catch (error) {
+      logger.error('Error during shutdown:', error);
+    }
+
+    process.exit(0);
   }
 }
@@ -0,0 +1,66 @@
+import { IncomingMessage } from 'node:http';
+import { TPServiceConfig } from '../api/client/tp.service.js';
+
+/**
+ * Connection settings shared by every session; only the credentials vary per client
+ */
+export type SessionBaseConfig = Omit<TPServiceConfig, 'apiKey' | 'credentials' | 'accessToken' | 'oauth'>;
+
+/**
+ * Read TargetProcess credentials supplied by an HTTP client.
+ *
+ * Supported headers, in order of precedence:
+ * - `X-TP-Api-Key: <token>`
+ * - `Authorization: Bearer <token>` (TargetProcess access token, forwarded as a bearer token)
+ * - `Authorization: Basic <base64 username:password>`
+ *
+ * Returns null when the request carries no credentials. The domain always
+ * comes from the server configuration so clients cannot point the server
+ * at another host.
+ */
+export function resolveRequestCredentials(
+  req: IncomingMessage,
+  base: SessionBaseConfig
+): TPServiceConfig | null {
+  const apiKey = getHeader(req, 'x-tp-api-key')?.trim();
+  if (apiKey) {
+    return { ...base, apiKey };
+  }
+
+  const authorization = getHeader(req, 'authorization')?.trim();
+  if (!authorization) {
+    return null;
+  }
+
+  const [scheme, ...rest] = authorization.split(/\s+/);
+  const value = rest.join(' ');
+
+  switch (scheme.toLowerCase()) {
+    case 'bearer':
+      if (!value) {
+        throw new Error('Authorization header is missing the bearer token');
+      }
+      return { ...base, accessToken: value };
+    case 'basic': {
+      const decoded = Buffer.from(value, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('Authorization header has malformed basic credentials');
+      }
+      return {
+        ...base,
+        credentials: {
+          username: decoded.slice(0, separator),
+          password: decoded.slice(separator + 1)
+        }
+      };
+    }
+    default:
+      throw new Error(`Unsupported authorization scheme: ${scheme}`);
+  }
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,437 @@
+import { TPService, TPServiceConfig } from '../api/client/tp.service.js';
+import { TPContextBuilder, TPContextInfo } from '../context/context-builder.js';
+import { ResourceProvider } from '../resources/resource-provider.js';
+import { OperationRegistry } from '../core/operation-registry.js';
+import { personalityLoader } from '../core/personality-loader.js';
+import { ExecutionContext, RequestControl, SemanticOperation } from '../core/interfaces/semantic-operation.interface.js';
+import { WorkOperations } from '../operations/work/index.js';
+import { GeneralOperations } from '../operations/general/index.js';
+import { SearchTool } from '../tools/search/search.tool.js';
+import { SearchPresetRegistry } from '../tools/search/presets.js';
+import { AggregateEntitiesTool } from '../tools/aggregate/aggregate.tool.js';
+import { GetEntityTool } from '../tools/entity/get.tool.js';
+import { CreateEntityTool } from '../tools/entity/create.tool.js';
+import { UpdateEntityTool } from '../tools/update/update.tool.js';
+import { BulkCreateEntitiesTool } from '../tools/bulk/bulk-create.tool.js';
+import { BulkUpdateEntitiesTool } from '../tools/bulk/bulk-update.tool.js';
+import { InspectObjectTool } from '../tools/inspect/inspect.tool.js';
+import { CommentTool } from '../tools/comment/comment.tool.js';
+import { ShowMoreTool } from '../tools/pagination/show-more.tool.js';
+import { ShowAllTool } from '../tools/pagination/show-all.tool.js';
+import { toolErrorResult } from '../tools/tool-error.js';
+import { PromptProvider, PromptToolStep } from '../prompts/prompt-provider.js';
+import { CompletionProvider } from '../completion/completion-provider.js';
+import { Paginator } from '../utils/paginator.js';
+import { logger } from '../utils/logger.js';
+import { operationOutputJsonSchema, toOperationOutput } from '../core/operation-output.js';
+import { throwIfAborted } from '../utils/request-control.js';
+import { trackOperation } from '../api/http/request-stats.js';
+
+// Comment operations are served by the unified comment tool
+const COMMENT_OPERATIONS: Record<string, string> = {
+  'add-comment': 'add',
+  'show-comments': 'show',
+  'delete-comment': 'delete'
+};
+
+export interface SessionIdentity {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface TPSessionOptions {
+  config: TPServiceConfig;
+  userRole?: string;
+  /** Known identity; when omitted, call authenticate() to resolve it from the credentials */
+  identity?: SessionIdentity;
+  /** Label used in log messages */
+  label?: string;
+  /** Search presets, narrowed to the teams of the scope; the built-in ones when omitted */
+  presets?: SearchPresetRegistry;
+}
+
+export interface SessionTools {
+  search: SearchTool;
+  aggregate: AggregateEntitiesTool;
+  get: GetEntityTool;
+  create: CreateEntityTool;
+  update: UpdateEntityTool;
+  bulk_create: BulkCreateEntitiesTool;
+  bulk_update: BulkUpdateEntitiesTool;
+  inspect: InspectObjectTool;
+  comment: CommentTool;
+  show_more: ShowMoreTool;
+  show_all: ShowAllTool;
+  [key: string]: any; // Allow dynamic semantic tools
+}
+
+/**
+ * Everything that depends on a caller's TargetProcess credentials.
+ * Each MCP session owns one, so services, caches, discovered context and
+ * pagination state are never shared between users of a multi-user server.
+ */
+export class TPSession {
+  readonly service: TPService;
+  readonly contextBuilder: TPContextBuilder;
+  readonly tools: SessionTools;
+  readonly promptProvider: PromptProvider;
+  readonly completionProvider: CompletionProvider;
+  readonly userRole: string;
+  readonly label: string;
+  private readonly operationRegistry = new OperationRegistry();
+  private readonly paginator = new Paginator();
+  private readonly apiUrl: string;
+  private identity: SessionIdentity | null;
+  private _context: TPContextInfo | null = null;
+  private _resourceProvider: ResourceProvider;
+  private disposed = false;
+
+  constructor(options: TPSessionOptions) {
+    this.userRole = options.userRole || 'default';
+    this.identity = options.identity || null;
+    this.label = options.label || 'default';
+    this.apiUrl = `https://${options.config.domain}`;
+
+    this.service = new TPService(options.config);
+    this.contextBuilder = new TPContextBuilder(this.service);
+    this._resourceProvider = new ResourceProvider(this.service, this._context);
+    this.completionProvider = new CompletionProvider(this.service, () => this._context);
+
+    // Initialize semantic features
+    this.initializeSemanticFeatures();
+
+    // Initialize core tools
+    const presets = (options.presets ?? new SearchPresetRegistry()).forTeams(options.config.scope?.teamIds);
+    this.tools = {
+      search: new SearchTool(this.service, presets),
+      aggregate: new AggregateEntitiesTool(this.service),
+      get: new GetEntityTool(this.service),
+      create: new CreateEntityTool(this.service),
+      update: new UpdateEntityTool(this.service),
+      bulk_create: new BulkCreateEntitiesTool(this.service),
+      bulk_update: new BulkUpdateEntitiesTool(this.service),
+      inspect: new InspectObjectTool(this.service, presets),
+      comment: new CommentTool(this.service),
+      show_more: new ShowMoreTool(this.paginator),
+      show_all: new ShowAllTool(this.paginator)
+    };
+
+    // Initialize role-based semantic tools
+    this.initializeSemanticTools();
+
+    // Expose the role's workflow hints as prompts over the tools registered above
+    this.promptProvider = new PromptProvider(
+      personalityLoader.getPersonality(this.userRole),
+      (operationId) => this.resolvePromptStep(operationId)
+    );
+  }
+
+  get context(): TPContextInfo | null {
+    return this._context;
+  }
+
+  get resourceProvider(): ResourceProvider {
+    return this._resourceProvider;
+  }
+
+  /**
+   * Resolve the session identity from the TargetProcess account behind the credentials.
+   * Throws when the credentials are rejected.
+   */
+  async authenticate(): Promise<SessionIdentity> {
+    const user = await this.service.getLoggedUser();
+    if (!user || typeof user.Id !== 'number') {
+      throw new Error('TargetProcess did not return the authenticated user');
+    }
+
+    const name = `${user.FirstName || ''} ${user.LastName || ''}`.trim() || user.Login || 'User';
+    this.identity = { id: user.Id, name, email: user.Email || '' };
+    logger.info(`Session ${this.label} authenticated as TargetProcess user ${user.Id}`);
+    return this.identity;
+  }
+
+  getIdentity(): SessionIdentity | null {
+    return this.identity;
+  }
+
+  /**
+   * Initialize caches and context in the background to improve first-request performance
+   */
+  async initialize(): Promise<void> {
+    try {
+      // Initialize entity type cache
+      await this.service.initializeEntityTypeCache();
+
+      // Build TargetProcess context
+      logger.info(`Building TargetProcess context for session ${this.label}...`);
+      const context = await this.contextBuilder.buildContext();
+      if (this.disposed) {
+        return;
+      }
+
+      // Update resource provider with context
+      this._context = context;
+      this._resourceProvider = new ResourceProvider(this.service, context);
+      logger.info(`TargetProcess context built for session ${this.label}`);
+    } catch (error) {
+      logger.error(`Cache/context initialization error for session ${this.label}:`, error);
+      // Non-fatal error, session can still function
+    }
+  }
+
+  /**
+   * Build the execution context for operations run on behalf of this session's user.
+   * Returns null when no identity is known.
+   */
+  buildExecutionContext(): ExecutionContext | null {
+    if (!this.identity || !this.identity.id) {
+      return null;
+    }
+
+    return personalityLoader.buildExecutionContext(
+      this.userRole,
+      { ...this.identity },
+      {},
+      {},
+      { apiUrl: this.apiUrl }
+    );
+  }
+
+  /**
+   * Format semantic operation result for display with automatic pagination
+   */
+  formatResult(result: any): string {
+    const parts: string[] = [];
+
+    // Main content
+    if (result.content) {
+      result.content.forEach((content: any) => {
+        if (content.type === 'text' && content.text) {
+          parts.push(content.text);
+        } else if (content.type === 'structured-data' && content.data) {
+          parts.push(JSON.stringify(content.data, null, 2));
+        } else if (content.type === 'error' && content.text) {
+          parts.push(`Error: ${content.text}`);
+        }
+      });
+    }
+
+    // Suggestions
+    if (result.suggestions && result.suggestions.length > 0) {
+      parts.push('\n💡 **Suggested Next Actions:**');
+      result.suggestions.forEach((suggestion: string) => {
+        parts.push(`  • ${suggestion}`);
+      });
+    }
+
+    const fullText = parts.join('\n');
+
+    // Apply automatic pagination to large responses
+    const paginationResult = this.paginator.paginateText(fullText);
+    return paginationResult.text;
+  }
+
+  /**
+   * Release cached state once the MCP session has closed
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.paginator.clear();
+    this._context = null;
+    logger.info(`Session ${this.label} disposed`);
+  }
+
+  /**
+   * Initialize semantic features and register them with this session's operation registry
+   */
+  private initializeSemanticFeatures(): void {
+    try {
+      // Register general operations module (available to all users)
+      const generalOperations = new GeneralOperations(this.service);
+      this.operationRegistry.registerFeature(generalOperations);
+
+      // Register work operations module
+      const workOperations = new WorkOperations(this.service);
+      this.operationRegistry.registerFeature(workOperations);
+
+      // Future modules can be registered here
+      // const collaborationOperations = new CollaborationOperations(this.service);
+      // this.operationRegistry.registerFeature(collaborationOperations);
+
+      logger.info('Semantic features initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize semantic features:', error);
+    }
+  }
+
+  /**
+   * Initialize role-based semantic tools
+   */
+  private initializeSemanticTools(): void {
+    try {
+      // Get operations for the current user role
+      const availableOperations = this.operationRegistry.getOperationsForPersonality(this.userRole);
+
+      // Filter out comment operations since we have a unified comment tool
+      const excludedOperations = ['add-comment', 'show-comments', 'delete-comment'];
+      const filteredOperations = availableOperations.filter(operation =>
+        !excludedOperations.includes(operation.metadata.id)
+      );
+
+      logger.info(`Initializing ${filteredOperations.length} semantic tools for role: ${this.userRole} (excluded ${availableOperations.length - filteredOperations.length} comment operations)`);
+
+      // Create individual MCP tools for each semantic operation (except comment operations)
+      filteredOperations.forEach(operation => {
+        const toolName = operation.metadata.id.replace(/-/g, '_'); // Convert to snake_case for MCP
+        this.tools[toolName] = this.createSemanticTool(operation);
+        logger.debug(`Registered semantic tool: ${toolName}`);
+      });
+
+    } catch (error) {
+      logger.error('Failed to initialize semantic tools:', error);
+    }
+  }
+
+  /**
+   * Map a workflow hint operation to the tool that runs it in this session
+   */
+  private resolvePromptStep(operationId: string): PromptToolStep | null {
+    const operation = this.operationRegistry.getOperation(operationId);
+
+    const commentOperation = COMMENT_OPERATIONS[operationId];
+    if (commentOperation) {
+      return {
+        operationId,
+        toolName: 'comment',
+        description: operation?.metadata.description || `${commentOperation} comments`,
+        fixedArguments: { operation: commentOperation },
+        schema: operation?.getSchema?.()
+      };
+    }
+
+    const toolName = operationId.replace(/-/g, '_');
+    if (!operation || !this.tools[toolName]) {
+      return null;
+    }
+
+    return {
+      operationId,
+      toolName,
+      description: operation.metadata.description,
+      schema: operation.getSchema?.()
+    };
+  }
+
+  /**
+   * Create a focused MCP tool for a specific semantic operation
+   */
+  private createSemanticTool(operation: SemanticOperation) {
+    return {
+      name: operation.metadata.id.replace(/-/g, '_'),
+      description: operation.metadata.description,
+      inputSchema: this.createSemanticToolSchema(operation),
+      outputSchema: operationOutputJsonSchema,
+      annotations: {
+        title: operation.metadata.name,
+        ...operation.metadata.annotations
+      },
+      handler: async (args: any, request?: RequestControl) => {
+        try {
+          // Build execution context using the session identity
+          const context = this.buildExecutionContext();
+
+          if (!context) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Error: No user identity configured. Please set TP_USER_ID in your environment.'
+              }],
+              isError: true
+            };
+          }
+
+          // Execute the operation with the caller's progress and cancellation controls,
+          // counting the API calls and cache hits it makes
+          const result = await trackOperation(() => operation.execute({ ...context, request }, args));
+
+          // Debug logging
+          logger.debug('Semantic operation result:', JSON.stringify(result, null, 2));
+
+          // Format result for MCP
+          const formattedText = this.formatResult(result);
+          logger.debug('Formatted text:', formattedText);
+
+          return {
+            content: [{
+              type: 'text',
+              text: formattedText
+            }],
+            structuredContent: toOperationOutput(result)
+          };
+        } catch (error) {
+          throwIfAborted(request?.signal);
+          return toolErrorResult(error);
+        }
+      }
+    };
+  }
+
+  /**
+   * Create JSON Schema for a semantic operation
+   */
+  private createSemanticToolSchema(operation: any) {
+    if (operation.getSchema) {
+      const zodSchema = operation.getSchema();
+
+      // Basic Zod to JSON Schema conversion
+      // This is simplified - a full implementation would use zodToJsonSchema library
+      const shape = (zodSchema as any)._def?.shape?.() || {};
+      const properties: any = {};
+      const required: string[] = [];
+
+      Object.entries(shape).forEach(([key, value]: [string, any]) => {
+        const def = value._def;
+
+        // Determine type
+        let type = 'string';
+        if (def?.typeName === 'ZodNumber') type = 'number';
+        else if (def?.typeName === 'ZodBoolean') type = 'boolean';
+        else if (def?.typeName === 'ZodEnum') {
+          properties[key] = {
+            type: 'string',
+            enum: def.values,
+            description: def.description
+          };
+          return;
+        }
+
+        properties[key] = {
+          type,
+          description: def?.description
+        };
+
+        // Check if required (not optional)
+        if (def?.typeName !== 'ZodOptional' && def?.typeName !== 'ZodDefault') {
+          required.push(key);
+        }
+      });
+
+      return {
+        type: 'object',
+        properties,
+        required: required.length > 0 ? required : undefined,
+        additionalProperties: false
+      };
+    }
+
+    return {
+      type: 'object',
+      properties: {},
+      additionalProperties: true
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
+import { AggregateSumField, EntityAggregate } from '../../api/client/api.types.js';
+import { entityAggregateJsonSchema } from '../../entities/entity-schemas.js';
+import { toolError } from '../tool-error.js';
+
+const GROUP_BY_VALUES = ['state', 'assignee', 'project', 'iteration'] as const;
+const SUM_FIELDS = ['Effort', 'EffortCompleted', 'EffortToDo', 'TimeSpent', 'TimeRemain'] as const;
+
+export const aggregateEntitiesSchema = z.object({
+  type: z.string().describe('Entity type to aggregate (e.g., Bug, UserStory, Task, Feature)'),
+  where: z.string().optional().describe('Filter expression using TargetProcess query language, e.g. EntityState.IsFinal eq \'false\''),
+  groupBy: z.enum(GROUP_BY_VALUES).optional().describe('Break the results down by state, assignee, project or iteration'),
+  sum: z.array(z.enum(SUM_FIELDS)).optional().describe('Numeric fields to total, e.g. ["Effort", "TimeSpent"]'),
+});
+
+export type AggregateEntitiesInput = z.infer<typeof aggregateEntitiesSchema>;
+
+/**
+ * Handler for the aggregate entities tool
+ *
+ * Answers questions like "how many open bugs per project" without returning
+ * the items themselves:
+ *    aggregate_entities({ type: "Bug", where: "EntityState.IsFinal eq 'false'", groupBy: "project" })
+ *    aggregate_entities({ type: "Task", groupBy: "assignee", sum: ["Effort", "TimeSpent"] })
+ */
+export class AggregateEntitiesTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown, options: TPRequestOptions = {}) {
+    try {
+      const { type, where, groupBy, sum } = aggregateEntitiesSchema.parse(args);
+
+      const aggregate = await this.service.aggregateEntities(type, { where, groupBy, sum }, options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.describe(type, aggregate, groupBy),
+          },
+        ],
+        structuredContent: {
+          type,
+          ...(groupBy ? { groupBy } : {}),
+          ...aggregate,
+        },
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid aggregate parameters: ${error.message}`
+        );
+      }
+
+      throw toolError(error, 'Aggregate failed');
+    }
+  }
+
+  private describe(type: string, aggregate: EntityAggregate, groupBy?: string): string {
+    const lines = [`${type}: ${aggregate.count} ${aggregate.count === 1 ? 'item' : 'items'}${this.describeSums(aggregate.sums)}`];
+
+    if (aggregate.groups) {
+      lines.push('', `By ${groupBy}:`);
+      aggregate.groups.forEach(group => {
+        lines.push(`- ${group.name}: ${group.count}${this.describeSums(group.sums)}`);
+      });
+      if (groupBy === 'assignee') {
+        lines.push('', 'Items with several assignees are counted once per assignee.');
+      }
+    }
+
+    if (!aggregate.exact) {
+      lines.push('', `Stopped after ${aggregate.count} items; the numbers are lower bounds. Narrow the filter or raise TP_SEARCH_MAX_RESULTS.`);
+    }
+    return lines.join('\n');
+  }
+
+  private describeSums(sums: Partial<Record<AggregateSumField, number>>): string {
+    const parts = Object.entries(sums).map(([field, value]) => `${field}: ${value}`);
+    return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    return {
+      name: 'aggregate_entities',
+      description: 'Count Target Process entities matching a filter, total their effort or time, and break them down by state, assignee, project or iteration - without fetching every item. Example: open bugs per project.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            description: 'Type of entity to aggregate (e.g., Bug, UserStory, Task, Feature)',
+          },
+          where: {
+            type: 'string',
+            description: 'Filter expression using Target Process query language, e.g. "EntityState.IsFinal eq \'false\'"',
+          },
+          groupBy: {
+            type: 'string',
+            enum: [...GROUP_BY_VALUES],
+            description: 'Break the results down by this dimension',
+          },
+          sum: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [...SUM_FIELDS],
+            },
+            description: 'Numeric fields to total for assignable entities',
+          },
+        },
+        required: ['type'],
+      },
+      outputSchema: entityAggregateJsonSchema,
+      annotations: {
+        title: 'Aggregate Entities',
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+    } as const;
+  }
+}
@@ -0,0 +1,84 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
+import { bulkResultJsonSchema } from '../../entities/entity-schemas.js';
+import { CreateEntityTool, createEntityFieldsSchema, toCreateRequest } from '../entity/create.tool.js';
+import { MAX_BULK_ITEMS, formatBulkResult } from './bulk-result.js';
+import { toolError } from '../tool-error.js';
+
+export const bulkCreateEntitiesSchema = z.object({
+  type: z.string().describe('Entity type to create (e.g., UserStory, Bug, Task)'),
+  items: z.array(createEntityFieldsSchema).min(1).max(MAX_BULK_ITEMS),
+});
+
+export type BulkCreateEntitiesInput = z.infer<typeof bulkCreateEntitiesSchema>;
+
+/**
+ * Handler for the bulk create entities tool
+ */
+export class BulkCreateEntitiesTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown, options: TPRequestOptions = {}) {
+    try {
+      const { type, items } = bulkCreateEntitiesSchema.parse(args);
+
+      const result = await this.service.bulkCreateEntities(
+        type,
+        items.map(item => toCreateRequest(type, item)),
+        options
+      );
+
+      return formatBulkResult(type, 'Created', result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid bulk create parameters: ${error.message}`
+        );
+      }
+
+      throw toolError(error, 'Bulk create failed');
+    }
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    const { name, description, project, team, assignedUser } = CreateEntityTool.getDefinition().inputSchema.properties;
+
+    return {
+      name: 'bulk_create_entities',
+      description: `Create up to ${MAX_BULK_ITEMS} Target Process entities of one type in a single call. Every row is validated first; invalid or rejected rows are reported individually and do not stop the others. Work items need project.id.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            description: 'Type of entities to create (e.g., UserStory, Bug, Task)',
+          },
+          items: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_BULK_ITEMS,
+            items: {
+              type: 'object',
+              properties: { name, description, project, team, assignedUser },
+              required: ['name'],
+            },
+          },
+        },
+        required: ['type', 'items'],
+      },
+      outputSchema: bulkResultJsonSchema,
+      annotations: {
+        title: 'Bulk Create Entities',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    } as const;
+  }
+}
@@ -0,0 +1,44 @@
+import { BulkResult } from '../../api/client/api.types.js';
+
+// Rows accepted by one bulk tool call
+export const MAX_BULK_ITEMS = 200;
+
+/**
+ * Tool result for a bulk create or update: a summary line, one line per failed
+ * row, and every row's outcome as structured content
+ */
+export function formatBulkResult(type: string, action: 'Created' | 'Updated', result: BulkResult<unknown>) {
+  const total = result.succeeded + result.failed;
+  const lines = [`${action} ${result.succeeded} of ${total} ${type} ${total === 1 ? 'item' : 'items'}.`];
+
+  const succeededIds = result.results
+    .filter(item => item.success && item.id !== undefined)
+    .map(item => item.id);
+  if (succeededIds.length > 0) {
+    lines.push(`${action}: ${succeededIds.join(', ')}`);
+  }
+
+  const failures = result.results.filter(item => !item.success);
+  if (failures.length > 0) {
+    lines.push('', 'Failed rows:');
+    failures.forEach(item => {
+      const code = item.errorCode ? `${item.errorCode}: ` : '';
+      lines.push(`- #${item.index}${item.id !== undefined ? ` (${type} ${item.id})` : ''}: ${code}${item.error}`);
+    });
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: lines.join('\n'),
+      },
+    ],
+    structuredContent: {
+      type,
+      ...result,
+    },
+    // Partial success is still a result the agent should read
+    isError: result.succeeded === 0 && result.failed > 0,
+  };
+}
@@ -0,0 +1,87 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
+import { bulkResultJsonSchema } from '../../entities/entity-schemas.js';
+import { UpdateEntityTool, updateFieldsSchema, toUpdateRequest } from '../update/update.tool.js';
+import { MAX_BULK_ITEMS, formatBulkResult } from './bulk-result.js';
+import { toolError } from '../tool-error.js';
+
+export const bulkUpdateEntitiesSchema = z.object({
+  type: z.string().describe('Entity type to update (e.g., UserStory, Bug, Task)'),
+  items: z.array(z.object({
+    id: z.number(),
+    fields: updateFieldsSchema,
+  })).min(1).max(MAX_BULK_ITEMS),
+});
+
+export type BulkUpdateEntitiesInput = z.infer<typeof bulkUpdateEntitiesSchema>;
+
+/**
+ * Handler for the bulk update entities tool
+ */
+export class BulkUpdateEntitiesTool {
+  constructor(private service: TPService) {}
+
+  async execute(args: unknown, options: TPRequestOptions = {}) {
+    try {
+      const { type, items } = bulkUpdateEntitiesSchema.parse(args);
+
+      const result = await this.service.bulkUpdateEntities(
+        type,
+        items.map(item => ({ id: item.id, data: toUpdateRequest(item.fields) })),
+        options
+      );
+
+      return formatBulkResult(type, 'Updated', result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid bulk update parameters: ${error.message}`
+        );
+      }
+
+      throw toolError(error, 'Bulk update failed');
+    }
+  }
+
+  /**
+   * Get tool definition for MCP
+   */
+  static getDefinition() {
+    const { id, fields } = UpdateEntityTool.getDefinition().inputSchema.properties;
+
+    return {
+      name: 'bulk_update_entities',
+      description: `Update up to ${MAX_BULK_ITEMS} Target Process entities of one type in a single call, e.g. to move or reassign many items while grooming a backlog. Each row gives an id and the fields to change; failed rows are reported individually and do not stop the others.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            description: 'Type of entities to update (e.g., UserStory, Bug, Task)',
+          },
+          items: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_BULK_ITEMS,
+            items: {
+              type: 'object',
+              properties: { id, fields },
+              required: ['id', 'fields'],
+            },
+          },
+        },
+        required: ['type', 'items'],
+      },
+      outputSchema: bulkResultJsonSchema,
+      annotations: {
+        title: 'Bulk Update Entities',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    } as const;
+  }
+}
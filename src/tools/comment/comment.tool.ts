@@ -5,6 +5,8 @@ import { AddCommentOperation } from '../../operations/work/add-comment.js';
 import { ShowCommentsOperation } from '../../operations/work/show-comments.js';
 import { DeleteCommentOperation } from '../../operations/work/delete-comment.js';
 import { logger } from '../../utils/logger.js';
+import { operationOutputJsonSchema } from '../../core/operation-output.js';
+import { toolError } from '../tool-error.js';
 
 /**
  * Unified Comment Tool Schema
@@ -155,6 +157,15 @@ export class CommentTool {
         },
         required: ['operation'],
         additionalProperties: false
+      },
+      outputSchema: operationOutputJsonSchema,
+      // Covers the most destructive operation (delete)
+      annotations: {
+        title: 'Comment',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
       }
     };
   }
@@ -201,10 +212,7 @@ export class CommentTool {
       }
       
       logger.error('Comment tool execution failed:', error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Comment operation failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Comment operation failed');
     }
   }
 
@@ -254,7 +262,8 @@ export class CommentTool {
     // Add cross-operation semantic hints
     return this.enhanceResultWithSemanticHints(result, 'show', {
       entityType: input.entityType,
-      entityId: input.entityId
+      entityId: input.entityId,
+      userId: context.user.id
     });
   }
 
@@ -304,16 +313,17 @@ export class CommentTool {
   }
 
   /**
-   * Build execution context from MCP context
+   * Build execution context from MCP context. The session builds it from the
+   * configured user, so the defaults only apply when no identity is known.
    */
   private buildExecutionContext(mcpContext: any): any {
     // Extract user information from MCP context or use defaults
     return {
       user: {
-        id: mcpContext?.user?.id || parseInt(process.env.TP_USER_ID || '0'),
+        id: mcpContext?.user?.id || 0,
         name: mcpContext?.user?.name || 'Unknown User',
-        email: mcpContext?.user?.email || process.env.TP_USER_EMAIL || 'unknown@example.com',
-        role: mcpContext?.user?.role || process.env.TP_USER_ROLE || 'developer',
+        email: mcpContext?.user?.email || 'unknown@example.com',
+        role: mcpContext?.user?.role || 'developer',
         teams: mcpContext?.user?.teams || [],
         permissions: mcpContext?.user?.permissions || []
       },
@@ -321,7 +331,7 @@ export class CommentTool {
         recentEntities: mcpContext?.workspace?.recentEntities || []
       },
       personality: {
-        mode: mcpContext?.personality?.mode || process.env.TP_USER_ROLE || 'developer',
+        mode: mcpContext?.personality?.mode || 'developer',
         features: mcpContext?.personality?.features || [],
         restrictions: mcpContext?.personality?.restrictions || {}
       },
@@ -331,7 +341,7 @@ export class CommentTool {
         intent: mcpContext?.conversation?.intent || 'comment-operation'
       },
       config: {
-        apiUrl: `https://${process.env.TP_DOMAIN}`,
+        apiUrl: mcpContext?.config?.apiUrl || '',
         maxResults: 25,
         timeout: 30000
       }
@@ -379,7 +389,7 @@ export class CommentTool {
         );
         
         // Add delete hints if user has comments
-        if (result.comments && result.comments.some((c: any) => c.Owner?.Login === process.env.TP_USERNAME)) {
+        if (result.comments && context.userId && result.comments.some((c: any) => c.Owner?.Id === context.userId)) {
           hints.push('comment operation:delete commentId:ID - Delete one of your comments');
         }
         break;
@@ -1,11 +1,13 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { CreateEntityRequest } from '../../api/client/api.types.js';
 import { EntityRegistry } from '../../core/entity-registry.js';
+import { entityJsonSchema } from '../../entities/entity-schemas.js';
+import { toolError } from '../tool-error.js';
 
-// Input schema for create entity tool
-export const createEntitySchema = z.object({
-  type: z.string().describe('Entity type to create (e.g., UserStory, Bug, Task, Feature, Epic, Project, Team)'),
+// Fields of a new entity, shared with bulk_create_entities
+export const createEntityFieldsSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   project: z.object({
@@ -17,6 +19,11 @@ export const createEntitySchema = z.object({
   assignedUser: z.object({
     id: z.number(),
   }).optional(),
+});
+
+// Input schema for create entity tool
+export const createEntitySchema = createEntityFieldsSchema.extend({
+  type: z.string().describe('Entity type to create (e.g., UserStory, Bug, Task, Feature, Epic, Project, Team)'),
 }).refine(
   (data) => {
     // If creating anything other than a Project, project is required
@@ -32,6 +39,26 @@ export const createEntitySchema = z.object({
 
 export type CreateEntityInput = z.infer<typeof createEntitySchema>;
 
+/**
+ * Map tool fields to the API request for a new entity
+ */
+export function toCreateRequest(type: string, data: z.infer<typeof createEntityFieldsSchema>): CreateEntityRequest {
+  const apiRequest: CreateEntityRequest = {
+    Name: data.name,
+    Description: data.description,
+    Team: data.team ? { Id: data.team.id } : undefined,
+    AssignedUser: data.assignedUser ? { Id: data.assignedUser.id } : undefined
+  };
+
+  // Only include Project property if NOT creating a Project
+  // This avoids circular reference when creating a Project
+  if (type !== 'Project' && data.project) {
+    apiRequest.Project = { Id: data.project.id };
+  }
+
+  return apiRequest;
+}
+
 /**
  * Handler for the create entity tool
  */
@@ -42,8 +69,8 @@ export class CreateEntityTool {
     try {
       const { type, ...data } = createEntitySchema.parse(args);
       
-      // Validate entity type against registry
-      if (!EntityRegistry.isValidEntityType(type)) {
+      // Validate entity type against this account's entity types
+      if (!(await this.service.validateEntityType(type))) {
         throw new McpError(
           ErrorCode.InvalidParams,
           `Invalid entity type: ${type}. Valid types include: ${EntityRegistry.getAllEntityTypes().slice(0, 10).join(', ')}, etc.`
@@ -51,18 +78,7 @@ export class CreateEntityTool {
       }
 
       // Prepare API request object
-      const apiRequest: any = {
-        Name: data.name,
-        Description: data.description,
-        Team: data.team ? { Id: data.team.id } : undefined,
-        AssignedUser: data.assignedUser ? { Id: data.assignedUser.id } : undefined
-      };
-
-      // Only include Project property if NOT creating a Project
-      // This avoids circular reference when creating a Project
-      if (type !== 'Project' && data.project) {
-        apiRequest.Project = { Id: data.project.id };
-      }
+      const apiRequest = toCreateRequest(type, data);
 
       const result = await this.service.createEntity(
         type,
@@ -76,6 +92,7 @@ export class CreateEntityTool {
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result as Record<string, unknown>,
       };
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -85,10 +102,7 @@ export class CreateEntityTool {
         );
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Create entity failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Create entity failed');
     }
   }
 
@@ -145,6 +159,14 @@ export class CreateEntityTool {
         },
         required: ['type', 'name'],
       },
+      outputSchema: entityJsonSchema,
+      annotations: {
+        title: 'Create Entity',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     } as const;
   }
 }
@@ -1,7 +1,9 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { TPService } from '../../api/client/tp.service.js';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
 import { EntityRegistry } from '../../core/entity-registry.js';
+import { entityJsonSchema } from '../../entities/entity-schemas.js';
+import { toolError } from '../tool-error.js';
 
 // Input schema for get entity tool
 export const getEntitySchema = z.object({
@@ -19,7 +21,7 @@ export type GetEntityInput = z.infer<typeof getEntitySchema>;
 export class GetEntityTool {
   constructor(private service: TPService) {}
 
-  async execute(args: unknown) {
+  async execute(args: unknown, options: TPRequestOptions = {}) {
     try {
       const { type, id, include, allow_informative_errors } = getEntitySchema.parse(args);
 
@@ -27,7 +29,8 @@ export class GetEntityTool {
         const result = await this.service.getEntity(
           type,
           id,
-          include
+          include,
+          options
         );
 
         return {
@@ -37,6 +40,7 @@ export class GetEntityTool {
               text: JSON.stringify(result, null, 2),
             },
           ],
+          structuredContent: result as Record<string, unknown>,
         };
       } catch (error) {
         // If informative errors are allowed, extract useful metadata
@@ -61,6 +65,8 @@ export class GetEntityTool {
                 }, null, 2),
               },
             ],
+            // Not an entity, so it can't be structured content
+            isError: true,
           };
         }
         
@@ -75,10 +81,7 @@ export class GetEntityTool {
         );
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Get entity failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Get entity failed');
     }
   }
 
@@ -115,6 +118,12 @@ export class GetEntityTool {
         },
         required: ['type', 'id'],
       },
+      outputSchema: entityJsonSchema,
+      annotations: {
+        title: 'Get Entity',
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
     } as const;
   }
 }
@@ -1,17 +1,19 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { TPService } from '../../api/client/tp.service.js';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
 import { EntityRegistry } from '../../core/entity-registry.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
 import { logger } from '../../utils/logger.js';
+import { toolError } from '../tool-error.js';
+import { SearchPresetRegistry } from '../search/presets.js';
 
 const execAsync = promisify(exec);
 
 // Input schema for inspect object tool
 export const inspectObjectSchema = z.object({
-  action: z.string().describe('Action to perform: list_types, get_properties, get_property_details, or discover_api_structure'),
+  action: z.string().describe('Action to perform: list_types, get_properties, get_property_details, discover_api_structure, or list_presets'),
   entityType: z.string().optional().describe('Type of entity to inspect (required for get_properties and get_property_details)'),
   propertyName: z.string().optional().describe('Name of property to get details for (required for get_property_details)'),
 });
@@ -22,14 +24,17 @@ export type InspectObjectInput = z.infer<typeof inspectObjectSchema>;
  * Handler for the inspect object tool
  */
 export class InspectObjectTool {
-  constructor(private service: TPService) {}
+  constructor(
+    private service: TPService,
+    private presets: SearchPresetRegistry = new SearchPresetRegistry()
+  ) {}
 
-  async execute(args: unknown) {
+  async execute(args: unknown, options: TPRequestOptions = {}) {
     try {
       const { action, entityType, propertyName } = inspectObjectSchema.parse(args);
 
       // Validate action
-      const validActions = ['list_types', 'get_properties', 'get_property_details', 'discover_api_structure'];
+      const validActions = ['list_types', 'get_properties', 'get_property_details', 'discover_api_structure', 'list_presets'];
       if (!validActions.includes(action)) {
         throw new McpError(
           ErrorCode.InvalidParams,
@@ -39,7 +44,7 @@ export class InspectObjectTool {
 
       switch (action) {
         case 'list_types':
-          return await this.listEntityTypes();
+          return await this.listEntityTypes(options);
         case 'get_properties':
           if (!entityType) {
             throw new McpError(
@@ -47,7 +52,7 @@ export class InspectObjectTool {
               'entityType is required for get_properties action'
             );
           }
-          return await this.getEntityProperties(entityType);
+          return await this.getEntityProperties(entityType, options);
         case 'get_property_details':
           if (!entityType || !propertyName) {
             throw new McpError(
@@ -55,9 +60,11 @@ export class InspectObjectTool {
               'entityType and propertyName are required for get_property_details action'
             );
           }
-          return await this.getPropertyDetails(entityType, propertyName);
+          return await this.getPropertyDetails(entityType, propertyName, options);
         case 'discover_api_structure':
-          return await this.discoverApiStructure();
+          return await this.discoverApiStructure(options);
+        case 'list_presets':
+          return this.listPresets();
         default:
           throw new McpError(
             ErrorCode.InvalidParams,
@@ -76,20 +83,41 @@ export class InspectObjectTool {
         throw error;
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Inspect object failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Inspect object failed');
     }
   }
 
+  /**
+   * List the search presets configured for this server, for use with search_entities
+   */
+  private listPresets() {
+    const presets = this.presets.list();
+    const lines = presets.map(preset => {
+      const variables = preset.variables.map(variable => {
+        const fallback = variable.default !== undefined ? `default ${variable.default}` : variable.from ? `default: ${variable.from}` : 'required';
+        return `${variable.name} (${variable.type}, ${fallback})`;
+      });
+      return `- ${preset.name}: ${preset.description}${variables.length > 0 ? `. Variables: ${variables.join(', ')}` : ''}`;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Search presets (pass to search_entities as presets: ["name", ...]):\n${lines.join('\n')}`,
+        },
+      ],
+      structuredContent: { presets },
+    };
+  }
+
   /**
    * List all available entity types
    */
-  private async listEntityTypes() {
+  private async listEntityTypes(options: TPRequestOptions) {
     try {
       // Fetch metadata from the API
-      const response = await this.service.fetchMetadata();
+      const response = await this.service.fetchMetadata(options);
       
       // Extract entity types from the metadata
       const entityTypes = this.extractEntityTypes(response);
@@ -103,20 +131,17 @@ export class InspectObjectTool {
         ],
       };
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to list entity types: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Failed to list entity types');
     }
   }
 
   /**
    * Get properties for a specific entity type
    */
-  private async getEntityProperties(entityType: string) {
+  private async getEntityProperties(entityType: string, options: TPRequestOptions) {
     try {
       // Fetch metadata from the API
-      const response = await this.service.fetchMetadata();
+      const response = await this.service.fetchMetadata(options);
       
       // Extract properties for the specified entity type
       const properties = this.extractEntityProperties(response, entityType);
@@ -137,20 +162,17 @@ export class InspectObjectTool {
         ],
       };
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to get properties for entity type ${entityType}: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, `Failed to get properties for entity type ${entityType}`);
     }
   }
 
   /**
    * Get detailed information about a specific property
    */
-  private async getPropertyDetails(entityType: string, propertyName: string) {
+  private async getPropertyDetails(entityType: string, propertyName: string, options: TPRequestOptions) {
     try {
       // Fetch metadata from the API
-      const response = await this.service.fetchMetadata();
+      const response = await this.service.fetchMetadata(options);
       
       // Extract property details
       const propertyDetails = this.extractPropertyDetails(response, entityType, propertyName);
@@ -172,10 +194,7 @@ export class InspectObjectTool {
         ],
       };
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to get details for property ${propertyName} of entity type ${entityType}: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, `Failed to get details for property ${propertyName} of entity type ${entityType}`);
     }
   }
 
@@ -316,11 +335,11 @@ export class InspectObjectTool {
    * Discover API structure through controlled error triggering
    * This method intentionally triggers an error to extract entity type information
    */
-  private async discoverApiStructure() {
+  private async discoverApiStructure(options: TPRequestOptions) {
     try {
       // First try to get entity types directly if possible
       try {
-        const metadata = await this.service.fetchMetadata();
+        const metadata = await this.service.fetchMetadata(options);
         const entityTypes = this.extractEntityTypes(metadata);
         
         if (entityTypes.length > 0) {
@@ -342,7 +361,7 @@ export class InspectObjectTool {
       // If direct method failed, try to trigger an informative error
       // by attempting to get a non-existent entity type
       try {
-        await this.service.getEntity('NonExistentType', 1);
+        await this.service.getEntity('NonExistentType', 1, undefined, options);
         
         // If no error, return empty result
         return {
@@ -399,13 +418,13 @@ export class InspectObjectTool {
   static getDefinition() {
     return {
       name: 'inspect_object',
-      description: 'Inspect TargetProcess API metadata. Use "list_types" to see all entity types, "get_properties" to see fields for an entity type, "discover_api_structure" for quick entity discovery.',
+      description: 'Inspect TargetProcess API metadata. Use "list_types" to see all entity types, "get_properties" to see fields for an entity type, "discover_api_structure" for quick entity discovery, "list_presets" for the search presets available to search_entities.',
       inputSchema: {
         type: 'object',
         properties: {
           action: {
             type: 'string',
-            description: 'Action: "list_types" (all entities), "get_properties" (fields for entity), "get_property_details" (field details), "discover_api_structure" (quick discovery)',
+            description: 'Action: "list_types" (all entities), "get_properties" (fields for entity), "get_property_details" (field details), "discover_api_structure" (quick discovery), "list_presets" (search presets and their variables)',
           },
           entityType: {
             type: 'string',
@@ -418,6 +437,11 @@ export class InspectObjectTool {
         },
         required: ['action'],
       },
+      annotations: {
+        title: 'Inspect API Metadata',
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
     } as const;
   }
 }
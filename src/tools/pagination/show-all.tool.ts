@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { getFullContent } from '../../utils/paginator.js';
+import { Paginator, defaultPaginator } from '../../utils/paginator.js';
+import { TPRequestOptions } from '../../api/client/tp.service.js';
+import { throwIfAborted } from '../../utils/request-control.js';
 
 export const showAllToolSchema = z.object({
   cacheKey: z.string().describe('Cache key from previous paginated result')
@@ -11,10 +13,14 @@ export type ShowAllToolInput = z.infer<typeof showAllToolSchema>;
  * Show all results without pagination
  */
 export class ShowAllTool {
-  async execute(args: unknown) {
+  constructor(private paginator: Paginator = defaultPaginator) {}
+
+  async execute(args: unknown, options: TPRequestOptions = {}) {
     const { cacheKey } = showAllToolSchema.parse(args);
     
-    const fullText = getFullContent(cacheKey);
+    const fullText = this.paginator.getFullContent(cacheKey);
+    // The full text can be large; don't send it to a client that has gone
+    throwIfAborted(options.signal);
     
     return {
       content: [{
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { getNextPage } from '../../utils/paginator.js';
+import { Paginator, defaultPaginator } from '../../utils/paginator.js';
 
 export const showMoreToolSchema = z.object({
   cacheKey: z.string().describe('Cache key from previous paginated result'),
@@ -12,10 +12,12 @@ export type ShowMoreToolInput = z.infer<typeof showMoreToolSchema>;
  * Show more results from a paginated response
  */
 export class ShowMoreTool {
+  constructor(private paginator: Paginator = defaultPaginator) {}
+
   async execute(args: unknown) {
     const { cacheKey, page } = showMoreToolSchema.parse(args);
     
-    const result = getNextPage(cacheKey, page);
+    const result = this.paginator.getNextPage(cacheKey, page);
     
     return {
       content: [{
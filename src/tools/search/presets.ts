@@ -1,74 +1,298 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ExecutionContext } from '../../core/interfaces/semantic-operation.interface.js';
+
+/**
+ * Where a variable's value comes from when the caller doesn't pass one
+ */
+export const PRESET_VARIABLE_SOURCES = [
+  'currentUser',
+  'currentUserId',
+  'currentProject',
+  'currentIteration',
+  'today',
+  'tomorrow',
+  'weekStart'
+] as const;
+
+const presetVariableSchema = z.object({
+  type: z.enum(['string', 'number', 'date']),
+  description: z.string().optional(),
+  default: z.union([z.string(), z.number()]).optional(),
+  from: z.enum(PRESET_VARIABLE_SOURCES).optional(),
+});
+
+const searchPresetSchema = z.object({
+  description: z.string(),
+  where: z.string().min(1),
+  variables: z.record(z.string(), presetVariableSchema).optional(),
+});
+
+const presetsSchema = z.record(z.string(), searchPresetSchema);
+
+/**
+ * Contents of a presets file: presets for everyone, and presets of teams by team id
+ */
+export const presetFileSchema = z.object({
+  presets: presetsSchema.default({}),
+  teams: z.record(z.string().regex(/^[1-9]\d*$/, 'Use the team id, e.g. "12"'), presetsSchema).default({}),
+});
+
+export type PresetVariable = z.infer<typeof presetVariableSchema>;
+export type SearchPreset = z.infer<typeof searchPresetSchema>;
+export type PresetVariableValues = Record<string, string | number>;
+export type TeamPresets = Record<string, Record<string, SearchPreset>>;
+
+const VARIABLE_PATTERN = /\$\{(\w+)\}/g;
+
+const CURRENT_USER: Record<string, PresetVariable> = {
+  currentUser: { type: 'string', description: 'Email of the user to match', from: 'currentUser' }
+};
+
+const TODAY: Record<string, PresetVariable> = {
+  todayDate: { type: 'date', from: 'today' },
+  tomorrowDate: { type: 'date', from: 'tomorrow' }
+};
+
+const WEEK_START: Record<string, PresetVariable> = {
+  weekStartDate: { type: 'date', description: 'Monday of the current week', from: 'weekStart' }
+};
+
 /**
- * Common preset filters for Target Process search
+ * Presets available to every server. A presets file can add to or replace them.
  */
-export const searchPresets = {
+export const BUILT_IN_PRESETS: Record<string, SearchPreset> = {
   // Status-based filters
-  open: 'EntityState.Name eq "Open"',
-  inProgress: 'EntityState.Name eq "In Progress"',
-  done: 'EntityState.Name eq "Done"',
-  notDone: 'EntityState.Name ne "Done"',
-  notClosed: 'EntityState.Name ne "Closed"',
-  
+  open: { description: 'Items in the Open state', where: 'EntityState.Name eq "Open"' },
+  inProgress: { description: 'Items in the In Progress state', where: 'EntityState.Name eq "In Progress"' },
+  done: { description: 'Items in the Done state', where: 'EntityState.Name eq "Done"' },
+  notDone: { description: 'Items not in the Done state', where: 'EntityState.Name ne "Done"' },
+  notClosed: { description: 'Items not in the Closed state', where: 'EntityState.Name ne "Closed"' },
+
   // Assignment-based filters
-  myTasks: 'AssignedUser.Email eq "${currentUser}"',
-  unassigned: 'AssignedUser is null',
-  
+  myTasks: { description: 'Items assigned to the current user', where: 'AssignedUser.Email eq ${currentUser}', variables: CURRENT_USER },
+  unassigned: { description: 'Items nobody is assigned to', where: 'AssignedUser is null' },
+
   // Project-based filters
-  projectItems: 'Project.Id eq ${projectId}',
-  
+  projectItems: {
+    description: 'Items of a project, by default the current one',
+    where: 'Project.Id eq ${projectId}',
+    variables: { projectId: { type: 'number', description: 'Project id', from: 'currentProject' } }
+  },
+
   // Priority-based filters
-  highPriority: 'Priority.Name eq "High"',
-  
+  highPriority: { description: 'Items with High priority', where: 'Priority.Name eq "High"' },
+
   // Time-based filters
-  // Note: These will be dynamically replaced with actual ISO dates in the search tool
-  createdToday: 'CreateDate gte ${todayDate} and CreateDate lt ${tomorrowDate}',
-  modifiedToday: 'ModifyDate gte ${todayDate} and ModifyDate lt ${tomorrowDate}',
-  createdThisWeek: 'CreateDate gte ${weekStartDate}',
-  modifiedThisWeek: 'ModifyDate gte ${weekStartDate}',
-  
+  createdToday: { description: 'Items created today', where: 'CreateDate gte ${todayDate} and CreateDate lt ${tomorrowDate}', variables: TODAY },
+  modifiedToday: { description: 'Items modified today', where: 'ModifyDate gte ${todayDate} and ModifyDate lt ${tomorrowDate}', variables: TODAY },
+  createdThisWeek: { description: 'Items created since Monday', where: 'CreateDate gte ${weekStartDate}', variables: WEEK_START },
+  modifiedThisWeek: { description: 'Items modified since Monday', where: 'ModifyDate gte ${weekStartDate}', variables: WEEK_START },
+
   // Combined filters
-  myOpenTasks: 'AssignedUser.Email eq "${currentUser}" and EntityState.Name eq "Open"',
-  highPriorityUnassigned: 'Priority.Name eq "High" and AssignedUser is null',
-  myRecentTasks: 'AssignedUser.Email eq "${currentUser}" and ModifyDate gt @Today',
-  
+  myOpenTasks: {
+    description: 'Open items assigned to the current user',
+    where: 'AssignedUser.Email eq ${currentUser} and EntityState.Name eq "Open"',
+    variables: CURRENT_USER
+  },
+  highPriorityUnassigned: { description: 'High priority items nobody is assigned to', where: 'Priority.Name eq "High" and AssignedUser is null' },
+  myRecentTasks: {
+    description: 'Items assigned to the current user and modified today',
+    where: 'AssignedUser.Email eq ${currentUser} and ModifyDate gt @Today',
+    variables: CURRENT_USER
+  },
+
   // Active work filters
-  activeItems: 'EntityState.Name ne "Done" and EntityState.Name ne "Closed"'
-} as const;
+  activeItems: { description: 'Items neither Done nor Closed', where: 'EntityState.Name ne "Done" and EntityState.Name ne "Closed"' }
+};
+
+/**
+ * Where clauses of the built-in presets, by name
+ */
+export const searchPresets: Record<string, string> = Object.fromEntries(
+  Object.entries(BUILT_IN_PRESETS).map(([name, preset]) => [name, preset.where])
+);
 
 /**
  * Documentation for date macros:
  * @Today - Current date
  * @StartOfWeek - Beginning of current week
  * @StartOfLastWeek - Beginning of previous week
- * 
+ *
  * These are TargetProcess built-in date macros that are evaluated at query time
  */
 
+function isoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function sourceValue(source: PresetVariable['from'], context: ExecutionContext | null, now: Date): string | number | undefined {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (source) {
+    case 'currentUser':
+      return context?.user.email || undefined;
+    case 'currentUserId':
+      return context?.user.id || undefined;
+    case 'currentProject':
+      return context?.workspace.currentProject?.id;
+    case 'currentIteration':
+      return context?.workspace.currentIteration?.id;
+    case 'today':
+      return isoDate(today);
+    case 'tomorrow':
+      return isoDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+    case 'weekStart': {
+      // Weeks start on Monday
+      const daysSinceMonday = (today.getDay() + 6) % 7;
+      return isoDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - daysSinceMonday));
+    }
+    default:
+      return undefined;
+  }
+}
+
+function formatValue(preset: string, name: string, variable: PresetVariable, value: string | number): string {
+  switch (variable.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value.trim());
+      if (!Number.isFinite(number) || String(value).trim() === '') {
+        throw new McpError(ErrorCode.InvalidParams, `Variable ${name} of preset ${preset} must be a number, got ${JSON.stringify(value)}`);
+      }
+      return String(number);
+    }
+    case 'date': {
+      const text = String(value).trim();
+      if (/^@[A-Za-z]\w*$/.test(text)) {
+        return text;
+      }
+      if (!/^\d{4}-\d{2}-\d{2}(?:T[\d:.]+Z?)?$/.test(text)) {
+        throw new McpError(ErrorCode.InvalidParams, `Variable ${name} of preset ${preset} must be a date like 2024-01-31 or a macro like @Today, got ${JSON.stringify(value)}`);
+      }
+      return `'${text}'`;
+    }
+    default:
+      return `'${String(value).replace(/'/g, '\'\'')}'`;
+  }
+}
+
+export interface PresetDescription {
+  name: string;
+  description: string;
+  where: string;
+  variables: Array<{ name: string } & PresetVariable>;
+}
+
+/**
+ * Search presets: named where clauses with typed variables. Variables not
+ * passed by the caller fall back to their default, then to their source in
+ * the execution context (current user, project, iteration or today's date).
+ * Presets of a team, keyed by team id, apply to sessions limited to that team.
+ */
+export class SearchPresetRegistry {
+  private readonly presets: Map<string, SearchPreset>;
+
+  constructor(presets: Record<string, SearchPreset> = BUILT_IN_PRESETS, private readonly teamPresets: TeamPresets = {}) {
+    for (const [name, preset] of [presets, ...Object.values(teamPresets)].flatMap(Object.entries)) {
+      for (const [, variable] of preset.where.matchAll(VARIABLE_PATTERN)) {
+        if (!preset.variables?.[variable]) {
+          throw new McpError(ErrorCode.InvalidParams, `Preset ${name} uses undeclared variable \${${variable}}`);
+        }
+      }
+    }
+    this.presets = new Map(Object.entries(presets));
+  }
+
+  /**
+   * The presets of a session limited to the teams: these presets plus those
+   * of the teams, a team's preset replacing one of the same name
+   */
+  forTeams(teamIds: number[] = []): SearchPresetRegistry {
+    const teams = teamIds.filter(id => Object.hasOwn(this.teamPresets, String(id)));
+    if (teams.length === 0) {
+      return this;
+    }
+    return new SearchPresetRegistry(
+      Object.assign(Object.fromEntries(this.presets), ...teams.map(id => this.teamPresets[String(id)]))
+    );
+  }
+
+  /**
+   * Ids of the teams with presets of their own
+   */
+  teamIds(): number[] {
+    return Object.keys(this.teamPresets).map(Number);
+  }
+
+  names(): string[] {
+    return [...this.presets.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.presets.has(name);
+  }
+
+  list(): PresetDescription[] {
+    return [...this.presets.entries()].map(([name, preset]) => ({
+      name,
+      description: preset.description,
+      where: preset.where,
+      variables: Object.entries(preset.variables ?? {}).map(([variable, definition]) => ({ name: variable, ...definition }))
+    }));
+  }
+
+  /**
+   * Where clause of one or more presets, combined with and
+   */
+  resolve(
+    names: string[],
+    values: PresetVariableValues = {},
+    context: ExecutionContext | null = null,
+    now: Date = new Date()
+  ): string {
+    const clauses = names.map(name => this.resolveOne(name, values, context, now));
+    return clauses.length === 1 ? clauses[0] : clauses.map(clause => `(${clause})`).join(' and ');
+  }
+
+  private resolveOne(name: string, values: PresetVariableValues, context: ExecutionContext | null, now: Date): string {
+    const preset = this.presets.get(name);
+    if (!preset) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown search preset: ${name}. Available presets: ${this.names().join(', ')}`
+      );
+    }
+
+    return preset.where.replace(VARIABLE_PATTERN, (_, variable: string) => {
+      const definition = preset.variables![variable];
+      const value = values[variable] ?? definition.default ?? sourceValue(definition.from, context, now);
+      if (value === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Preset ${name} needs a value for ${variable}${definition.description ? ` (${definition.description})` : ''}; pass it in variables`
+        );
+      }
+      return formatValue(name, variable, definition, value);
+    });
+  }
+}
+
 /**
  * Helper function to apply variable substitution to preset filters
- * 
+ *
  * @param preset - The preset filter to use (e.g., 'myTasks', 'projectItems')
  * @param variables - Object containing variable values to substitute
  *                   Common variables: currentUser, projectId
- * 
+ *
  * Example:
  * ```typescript
  * // Search for my tasks in project 123
  * const filter = applyPresetFilter('myTasks', { currentUser: 'john.doe@example.com' })
  * ```
  */
-export function applyPresetFilter<T extends keyof typeof searchPresets>(
-  preset: T,
-  variables: Record<string, string | number>
-): string {
-  let filter = searchPresets[preset] as string;
-  
-  // Replace each variable in the filter string
-  for (const [key, value] of Object.entries(variables)) {
-    filter = filter.replace(`\${${key}}`, String(value));
-  }
-  
-  return filter;
+export function applyPresetFilter(preset: string, variables: PresetVariableValues): string {
+  return new SearchPresetRegistry().resolve([preset], variables);
 }
 
 /**
@@ -76,15 +300,15 @@ export function applyPresetFilter<T extends keyof typeof searchPresets>(
  */
 export const presetExamples = {
   basic: [
-    'search_entities({ type: "UserStory", where: searchPresets.open })',
+    'search_entities({ type: "UserStory", presets: ["open"] })',
     'search_entities({ type: "Bug", where: searchPresets.highPriority })'
   ],
   withVariables: [
-    'search_entities({ type: "Task", where: applyPresetFilter("myTasks", { currentUser: "user@example.com" }) })',
-    'search_entities({ type: "Feature", where: applyPresetFilter("projectItems", { projectId: 123 }) })'
+    'search_entities({ type: "Task", presets: ["myTasks"], variables: { currentUser: "user@example.com" } })',
+    'search_entities({ type: "Feature", presets: ["projectItems"], variables: { projectId: 123 } })'
   ],
   combined: [
-    'search_entities({ type: "Bug", where: searchPresets.myOpenTasks })',
+    'search_entities({ type: "Bug", presets: ["myTasks", "highPriority"] })',
     'search_entities({ type: "UserStory", where: searchPresets.highPriorityUnassigned })'
   ]
 };
@@ -1,7 +1,12 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { TPService } from '../../api/client/tp.service.js';
-import { searchPresets, applyPresetFilter } from './presets.js';
+import { TPService, TPRequestOptions } from '../../api/client/tp.service.js';
+import { EntityCount, EntityPage } from '../../api/client/api.types.js';
+import { FILTER_OPERATORS, WhereFilter } from '../../api/query/where-filter.js';
+import { ExecutionContext, RequestControl } from '../../core/interfaces/semantic-operation.interface.js';
+import { SearchPresetRegistry } from './presets.js';
+import { entityListJsonSchema } from '../../entities/entity-schemas.js';
+import { toolError } from '../tool-error.js';
 
 /**
  * Search tool for Target Process entities
@@ -22,10 +27,11 @@ import { searchPresets, applyPresetFilter } from './presets.js';
  *      where: searchPresets.createdToday
  *    })
  * 
- * 4. Using variables in filters:
+ * 4. Combining presets, with variables (defaults come from the current user and project):
  *    search_entities({
  *      type: "UserStory",
- *      where: applyPresetFilter("myTasks", { currentUser: "john@example.com" })
+ *      presets: ["myTasks", "highPriority"],
+ *      variables: { currentUser: "john@example.com" }
  *    })
  * 
  * 5. Including related data:
@@ -34,14 +40,51 @@ import { searchPresets, applyPresetFilter } from './presets.js';
  *      where: searchPresets.open,
  *      include: ["Project", "AssignedUser"]
  *    })
+ *
+ * 6. Paging through large result sets:
+ *    search_entities({ type: "Bug", take: 100, skip: 100, includeTotal: true })
+ *
+ * 7. Structured filters instead of a where string (values are quoted for you):
+ *    search_entities({
+ *      type: "Bug",
+ *      filter: { and: [
+ *        { field: "EntityState.Name", op: "eq", value: "Open" },
+ *        { or: [{ field: "Severity.Name", op: "in", value: ["Critical", "Blocking"] }, { field: "AssignedUser", op: "isNull" }] }
+ *      ] }
+ *    })
+ *
+ * 8. Computed fields through API v2 (where uses v2 syntax here):
+ *    search_entities({
+ *      type: "Feature",
+ *      select: "{id,name,bugs.count,openTasks:tasks.where(entityState.isFinal==false).count}",
+ *      where: "entityState.isFinal==false"
+ *    })
  */
 
+const filterScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const whereFilterSchema: z.ZodType<WhereFilter> = z.lazy(() => z.union([
+  z.object({ and: z.array(whereFilterSchema).min(1) }),
+  z.object({ or: z.array(whereFilterSchema).min(1) }),
+  z.object({
+    field: z.string().min(1),
+    op: z.enum(FILTER_OPERATORS),
+    value: z.union([filterScalarSchema, z.array(filterScalarSchema), z.null()]).optional(),
+  }),
+]));
+
 export const searchToolSchema = z.object({
   type: z.string().describe('Entity type to search for (e.g., UserStory, Bug, Task, Feature, Epic, Project, Team, etc.)'),
-  where: z.string().optional().describe('Filter expression using TargetProcess query language.\n\nPreset filters: searchPresets.open, .notDone, .myOpenTasks, .activeItems, etc.\n\nQuery syntax:\n- Use "eq" for equals: EntityState.Name eq "Open"\n- Use "ne" for not equals: EntityState.Name ne "Done"\n- Use "and"/"or": Priority.Name eq "High" and EntityState.Name ne "Done"\n- Date macros: CreateDate gt @Today\n\nExample: searchPresets.activeItems or "EntityState.Name ne \'Done\'"'),
+  where: z.string().optional().describe('Filter expression using TargetProcess query language.\n\nPreset filters: searchPresets.open, .notDone, .myOpenTasks, .activeItems, etc.\n\nQuery syntax:\n- Use "eq" for equals: EntityState.Name eq "Open"\n- Use "ne" for not equals: EntityState.Name ne "Done"\n- Use "and"/"or": Priority.Name eq "High" and EntityState.Name ne "Done"\n- Date macros: CreateDate gt @Today\n- Group with parentheses and match lists with "in": (Priority.Importance lte 2 or Severity.Name eq "Critical") and Project.Id in (1, 2)\n- Empty references: AssignedUser is null\n\nExample: searchPresets.activeItems or "EntityState.Name ne \'Done\'"'),
+  presets: z.array(z.string()).optional().describe('Names of search presets to apply, combined with and (see inspect_object action list_presets)'),
+  variables: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe('Values for preset variables, e.g. { "projectId": 123 }'),
+  filter: whereFilterSchema.optional().describe('Structured alternative to where: {and: [...]}, {or: [...]} or {field, op, value}. Combined with where using and'),
   include: z.array(z.string()).optional().describe('Related data to include (e.g., Project, Team, AssignedUser)'),
   take: z.number().min(1).max(1000).optional().describe('Number of items to return (default: 100)'),
+  skip: z.number().int().min(0).optional().describe('Number of items to skip, for paging (default: 0)'),
+  includeTotal: z.boolean().optional().describe('Also count all matching items'),
   orderBy: z.array(z.string()).optional().describe('Fields to sort by - field names only (e.g., ["CreateDate", "Name"]). Note: TargetProcess API does not support direction keywords like "desc" or "asc".'),
+  select: z.string().optional().describe('API v2 projection, e.g. {id,name,bugs.count}. Switches the query to API v2, where "where" uses v2 syntax'),
 });
 
 export type SearchToolInput = z.infer<typeof searchToolSchema>;
@@ -50,29 +93,33 @@ export type SearchToolInput = z.infer<typeof searchToolSchema>;
  * Handler for the search entities tool
  */
 export class SearchTool {
-  constructor(private service: TPService) {}
+  constructor(
+    private service: TPService,
+    private presets: SearchPresetRegistry = new SearchPresetRegistry()
+  ) {}
 
   /**
-   * Get date values for filter substitution
+   * Where clause from the presets (including a searchPresets.name where) and
+   * the where string, combined with and
    */
-  private getDateValues() {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    
-    // Get start of week (Monday)
-    const weekStart = new Date(today);
-    const dayOfWeek = weekStart.getDay();
-    const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    weekStart.setDate(weekStart.getDate() + daysToMonday);
-    
-    return {
-      todayDate: `'${today.toISOString().split('T')[0]}'`,
-      tomorrowDate: `'${tomorrow.toISOString().split('T')[0]}'`,
-      weekStartDate: `'${weekStart.toISOString().split('T')[0]}'`
-    };
+  private resolveWhere(
+    where: string | undefined,
+    presets: string[] = [],
+    variables: Record<string, string | number> = {},
+    context: ExecutionContext | null
+  ): string | undefined {
+    const names = [...presets];
+    let customWhere = where;
+    if (where?.startsWith('searchPresets.')) {
+      names.unshift(where.slice('searchPresets.'.length));
+      customWhere = undefined;
+    }
+    if (names.length === 0) {
+      return where;
+    }
+
+    const presetWhere = this.presets.resolve(names, variables, context);
+    return customWhere ? `(${customWhere}) and (${presetWhere})` : presetWhere;
   }
 
   /**
@@ -96,57 +143,111 @@ export class SearchTool {
     return orderBy.map(field => field.replace(/\s+(desc|asc)$/i, '').trim());
   }
 
-  async execute(args: unknown) {
+  /**
+   * Summarize the page position when there is more to fetch or a total was requested
+   */
+  private describePage(page: EntityPage<unknown>, count?: EntityCount): string | null {
+    if (!page.hasMore && !count) {
+      return null;
+    }
+
+    const first = page.items.length > 0 ? page.skip + 1 : page.skip;
+    const last = page.skip + page.items.length;
+    const total = count ? ` of ${count.exact ? '' : 'at least '}${count.total}` : '';
+    const next = page.hasMore ? ` More results available: search again with skip=${page.nextSkip}.` : '';
+    return `Showing items ${first}-${last}${total}.${next}`;
+  }
+
+  private formatPage(page: EntityPage<unknown>, count?: EntityCount) {
+    const content = [
+      {
+        type: 'text',
+        text: JSON.stringify(page.items, null, 2),
+      },
+    ];
+    const pagingSummary = this.describePage(page, count);
+    if (pagingSummary) {
+      content.push({ type: 'text', text: pagingSummary });
+    }
+
+    return {
+      content,
+      structuredContent: {
+        items: page.items,
+        count: page.items.length,
+        skip: page.skip,
+        hasMore: page.hasMore,
+        ...(page.nextSkip !== undefined ? { nextSkip: page.nextSkip } : {}),
+        ...(count ? { total: count.total, totalIsExact: count.exact } : {}),
+      },
+    };
+  }
+
+  /**
+   * Run a select query through API v2. Presets, include and includeTotal are
+   * v1 features, so they are rejected rather than silently ignored.
+   */
+  private async executeV2(
+    type: string,
+    select: string,
+    args: Omit<SearchToolInput, 'type' | 'select'>,
+    options: TPRequestOptions
+  ) {
+    if (args.where?.startsWith('searchPresets.') || args.presets?.length) {
+      throw new McpError(ErrorCode.InvalidParams, 'Search presets use API v1 syntax and cannot be combined with select');
+    }
+    if (args.filter) {
+      throw new McpError(ErrorCode.InvalidParams, 'filter is not supported with select; use a v2 where expression instead');
+    }
+    if (args.include?.length) {
+      throw new McpError(ErrorCode.InvalidParams, 'include is not supported with select; add the related fields to select instead, e.g. {id,project.name}');
+    }
+    if (args.includeTotal) {
+      throw new McpError(ErrorCode.InvalidParams, 'includeTotal is not supported with select');
+    }
+
+    const page = await this.service.searchEntitiesV2(type, {
+      select,
+      where: args.where,
+      take: args.take,
+      skip: args.skip,
+      orderBy: args.orderBy
+    }, options);
+    return this.formatPage(page);
+  }
+
+  async execute(args: unknown, context: ExecutionContext | null = null, control?: RequestControl) {
     try {
-      const { type, where, include, take, orderBy } = searchToolSchema.parse(args);
-
-      // Process search presets if used
-      let processedWhere = where;
-      if (where && where.startsWith('searchPresets.')) {
-        const presetName = where.replace('searchPresets.', '') as keyof typeof searchPresets;
-        if (presetName in searchPresets) {
-          processedWhere = searchPresets[presetName];
-          
-          // Apply variable substitution
-          const dateValues = this.getDateValues();
-          
-          // Replace date variables
-          for (const [key, value] of Object.entries(dateValues)) {
-            processedWhere = processedWhere.replace(`\${${key}}`, value);
-          }
-          
-          // Replace user variable (should be enhanced with actual user context)
-          if (processedWhere.includes('${currentUser}')) {
-            // TODO: Get actual user email from context
-            processedWhere = processedWhere.replace('${currentUser}', 'system');
-          }
-        } else {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            `Unknown search preset: ${presetName}. Available presets: ${Object.keys(searchPresets).join(', ')}`
-          );
-        }
+      const { type, where, presets, variables, filter, include, take, skip, includeTotal, orderBy, select } = searchToolSchema.parse(args);
+      const options = { signal: control?.signal };
+
+      if (select) {
+        return await this.executeV2(type, select, { where, presets, filter, include, take, skip, includeTotal, orderBy }, options);
       }
 
+      const processedWhere = this.resolveWhere(where, presets, variables, context);
+
       // Process orderBy for compatibility
       const processedOrderBy = this.processOrderBy(orderBy);
 
-      const results = await this.service.searchEntities(
-        type,
-        processedWhere,
+      const page = await this.service.searchEntitiesPage(type, {
+        where: processedWhere,
+        filter,
         include,
         take,
-        processedOrderBy
-      );
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(results, null, 2),
-          },
-        ],
-      };
+        skip,
+        orderBy: processedOrderBy
+      }, options);
+
+      // Counting may page through every match, so tell the client once the page is in
+      let count: EntityCount | undefined;
+      if (includeTotal) {
+        await control?.reportProgress(1, 2, 'Fetched results, counting matches');
+        count = await this.service.countEntities(type, { where: processedWhere, filter }, options);
+        await control?.reportProgress(2, 2, 'Counted matches');
+      }
+
+      return this.formatPage(page, count);
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new McpError(
@@ -155,10 +256,7 @@ export class SearchTool {
         );
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Search failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Search failed');
     }
   }
 
@@ -187,6 +285,36 @@ export class SearchTool {
 
 Example: searchPresets.open or "EntityState.Name eq 'Open'"`,
           },
+          presets: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Search presets to apply, combined with each other and with where using and, e.g. ["myTasks", "highPriority"]. inspect_object with action "list_presets" lists the presets configured for this server and their variables.',
+          },
+          variables: {
+            type: 'object',
+            additionalProperties: {
+              type: ['string', 'number'],
+            },
+            description: 'Values for preset variables, e.g. {"projectId": 123}. Variables left out use their defaults: the current user, project, iteration or today\'s date.',
+          },
+          filter: {
+            type: 'object',
+            description: `Structured alternative to where, combined with it using and. Values are quoted and escaped for you, and unknown fields are rejected with suggestions.
+- Condition: {"field": "EntityState.Name", "op": "eq", "value": "Open"}
+- Operators: ${FILTER_OPERATORS.join(', ')}. "in" takes a list; isNull and isNotNull take no value
+- Groups: {"and": [...]} or {"or": [...]}, nested as needed
+- Macros such as "@Today" and "@User" are passed through unquoted
+Example: {"and": [{"field": "EntityState.IsFinal", "op": "eq", "value": false}, {"field": "Project.Id", "op": "in", "value": [1, 2]}]}`,
+            properties: {
+              and: { type: 'array', items: { type: 'object' } },
+              or: { type: 'array', items: { type: 'object' } },
+              field: { type: 'string' },
+              op: { type: 'string', enum: [...FILTER_OPERATORS] },
+              value: {},
+            },
+          },
           include: {
             type: 'array',
             items: {
@@ -200,6 +328,15 @@ Example: searchPresets.open or "EntityState.Name eq 'Open'"`,
             minimum: 1,
             maximum: 1000,
           },
+          skip: {
+            type: 'number',
+            description: 'Number of items to skip. Use the nextSkip value from the previous page to continue.',
+            minimum: 0,
+          },
+          includeTotal: {
+            type: 'boolean',
+            description: 'Also count all matching items (costs extra API calls on large result sets)',
+          },
           orderBy: {
             type: 'array',
             items: {
@@ -207,9 +344,21 @@ Example: searchPresets.open or "EntityState.Name eq 'Open'"`,
             },
             description: 'Fields to sort by - field names only (e.g., ["CreateDate", "Name"]). TargetProcess API does not support "desc" or "asc" keywords.',
           },
+          select: {
+            type: 'string',
+            description: `API v2 projection returning only the listed fields and computed values in one call, e.g.
+{id,name,bugs.count,openTasks:tasks.where(entityState.isFinal==false).count}
+When set, "where" must use API v2 syntax (entityState.name=='Open', and/or, ==, !=) and include, includeTotal and presets are not available.`,
+          },
         },
         required: ['type'],
       },
+      outputSchema: entityListJsonSchema,
+      annotations: {
+        title: 'Search Entities',
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
     } as const;
   }
 }
@@ -0,0 +1,32 @@
+import { TPError, errorMessage, toTPError } from '../api/http/http-error-handler.js';
+
+/**
+ * Error for a failed tool call: the classified cause, with the message
+ * prefixed by what the tool was doing, e.g. "Search failed: ..."
+ */
+export function toolError(error: unknown, action: string): TPError {
+  return toTPError(error).withMessage(`${action}: ${errorMessage(error)}`);
+}
+
+/**
+ * Tool result reporting a failure to the agent: the error code, the message
+ * and what to try next
+ */
+export function toolErrorResult(error: unknown) {
+  const tpError = toTPError(error);
+  const lines = [`${tpError.type}: ${errorMessage(tpError)}`];
+
+  if (tpError.suggestions.length > 0) {
+    lines.push('', 'Suggestions:', ...tpError.suggestions.map(suggestion => `- ${suggestion}`));
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: lines.join('\n'),
+      },
+    ],
+    isError: true,
+  };
+}
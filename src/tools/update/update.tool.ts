@@ -1,26 +1,44 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TPService } from '../../api/client/tp.service.js';
+import { UpdateEntityRequest } from '../../api/client/api.types.js';
 import { EntityRegistry } from '../../core/entity-registry.js';
+import { entityJsonSchema } from '../../entities/entity-schemas.js';
+import { toolError } from '../tool-error.js';
+
+// Fields that can be changed, shared with bulk_update_entities
+export const updateFieldsSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  status: z.object({
+    id: z.number(),
+  }).optional(),
+  assignedUser: z.object({
+    id: z.number(),
+  }).optional(),
+});
 
 // Input schema for update entity tool
 export const updateEntitySchema = z.object({
   type: z.string().describe('Entity type to update (e.g., UserStory, Bug, Task, Feature, Epic, Project, Team)'),
   id: z.number(),
-  fields: z.object({
-    name: z.string().optional(),
-    description: z.string().optional(),
-    status: z.object({
-      id: z.number(),
-    }).optional(),
-    assignedUser: z.object({
-      id: z.number(),
-    }).optional(),
-  }),
+  fields: updateFieldsSchema,
 });
 
 export type UpdateEntityInput = z.infer<typeof updateEntitySchema>;
 
+/**
+ * Map tool fields to the API update request
+ */
+export function toUpdateRequest(fields: z.infer<typeof updateFieldsSchema>): UpdateEntityRequest {
+  return {
+    Name: fields.name,
+    Description: fields.description,
+    EntityState: fields.status ? { Id: fields.status.id } : undefined,
+    AssignedUser: fields.assignedUser ? { Id: fields.assignedUser.id } : undefined
+  };
+}
+
 /**
  * Handler for the update entity tool
  */
@@ -31,12 +49,7 @@ export class UpdateEntityTool {
     try {
       const { type, id, fields } = updateEntitySchema.parse(args);
 
-      const apiRequest = {
-        Name: fields.name,
-        Description: fields.description,
-        EntityState: fields.status ? { Id: fields.status.id } : undefined,
-        AssignedUser: fields.assignedUser ? { Id: fields.assignedUser.id } : undefined
-      };
+      const apiRequest = toUpdateRequest(fields);
 
       const result = await this.service.updateEntity(
         type,
@@ -51,6 +64,7 @@ export class UpdateEntityTool {
             text: JSON.stringify(result, null, 2),
           },
         ],
+        structuredContent: result as Record<string, unknown>,
       };
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -60,10 +74,7 @@ export class UpdateEntityTool {
         );
       }
 
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Update entity failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw toolError(error, 'Update entity failed');
     }
   }
 
@@ -121,6 +132,14 @@ export class UpdateEntityTool {
         },
         required: ['type', 'id', 'fields'],
       },
+      outputSchema: entityJsonSchema,
+      annotations: {
+        title: 'Update Entity',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     } as const;
   }
 }
@@ -0,0 +1,470 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { URL } from 'node:url';
+import { setInterval, clearInterval } from 'node:timers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger, runWithLogScope } from '../utils/logger.js';
+import { RequestThrottle } from '../api/http/request-throttle.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Path of the Streamable HTTP endpoint */
+  mcpPath: string;
+  /** Idle sessions are closed after this many milliseconds (0 disables the sweep) */
+  sessionIdleTimeoutMs: number;
+  /** Origins accepted when DNS rebinding protection is enabled */
+  allowedOrigins?: string[];
+  maxBodyBytes: number;
+}
+
+export interface TransportOptions {
+  mode: TransportMode;
+  http: HttpTransportOptions;
+}
+
+// "sse" and "streamable-http" are accepted as aliases: the HTTP host serves both protocols
+export const TRANSPORT_MODES = ['stdio', 'http', 'sse', 'streamable-http'] as const;
+
+/**
+ * Transport settings as configured, before command line flags apply
+ */
+export interface TransportSettings {
+  mode: typeof TRANSPORT_MODES[number];
+  port: number;
+  host: string;
+  path: string;
+  sessionTimeoutMs: number;
+  allowedOrigins?: string[];
+}
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+  mode: 'stdio',
+  port: 3000,
+  host: '127.0.0.1',
+  path: '/mcp',
+  sessionTimeoutMs: 30 * 60 * 1000
+};
+
+/**
+ * Factory invoked once per client session. Every session gets its own MCP
+ * protocol server because a Server instance can only be bound to one transport.
+ */
+export type McpServerFactory = (request: IncomingMessage) => Server | Promise<Server>;
+
+/**
+ * Thrown by a server factory when the client's credentials are missing or rejected.
+ * The host answers with HTTP 401 instead of opening a session.
+ */
+export class TransportAuthError extends Error {
+  readonly statusCode = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransportAuthError';
+  }
+}
+
+interface HttpSession {
+  id: string;
+  kind: 'streamable' | 'sse';
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+  /** Hash of the credential headers that opened the session */
+  credentials: Buffer;
+}
+
+const LEGACY_SSE_PATH = '/sse';
+const LEGACY_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+/**
+ * Hash of the headers a client authenticates with, so a session only takes
+ * requests from the client that opened it without keeping its secrets
+ */
+function credentialHash(req: IncomingMessage): Buffer {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value) ?? '';
+  };
+  return createHash('sha256').update(`${header('x-tp-api-key')}\n${header('authorization')}`).digest();
+}
+
+/**
+ * Read a command line flag in either `--flag value` or `--flag=value` form
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith(prefix)) {
+      return argv[i].substring(prefix.length);
+    }
+    if (argv[i] === `--${name}` && argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      return argv[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve transport options from the configured settings, overridden by
+ * command line flags: --transport stdio|http, --port, --host
+ */
+export function resolveTransportOptions(
+  settings: TransportSettings = DEFAULT_TRANSPORT_SETTINGS,
+  argv: string[] = process.argv
+): TransportOptions {
+  const rawMode = (readFlag(argv, 'transport') || settings.mode).toLowerCase();
+  if (!(TRANSPORT_MODES as readonly string[]).includes(rawMode)) {
+    throw new Error(`Invalid transport "${rawMode}". Expected "stdio" or "http".`);
+  }
+
+  const portFlag = readFlag(argv, 'port');
+  const port = portFlag ? parseInt(portFlag, 10) : settings.port;
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portFlag}`);
+  }
+
+  return {
+    mode: rawMode === 'stdio' ? 'stdio' : 'http',
+    http: {
+      port,
+      host: readFlag(argv, 'host') || settings.host,
+      mcpPath: settings.path,
+      sessionIdleTimeoutMs: settings.sessionTimeoutMs,
+      allowedOrigins: settings.allowedOrigins?.length ? settings.allowedOrigins : undefined,
+      maxBodyBytes: 4 * 1024 * 1024
+    }
+  };
+}
+
+/**
+ * HTTP host for MCP clients
+ *
+ * Serves the Streamable HTTP transport on `mcpPath` and the legacy SSE transport
+ * (`GET /sse` + `POST /messages?sessionId=...`) for older clients, plus a `/health`
+ * route for container orchestration. Each client session is bound to its own MCP
+ * server instance created through the supplied factory.
+ */
+export class HttpTransportHost {
+  private readonly sessions = new Map<string, HttpSession>();
+  private httpServer: http.Server | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly startedAt = Date.now();
+  private closing = false;
+
+  constructor(
+    private readonly createServer: McpServerFactory,
+    private readonly options: HttpTransportOptions
+  ) {}
+
+  /**
+   * Start listening for HTTP connections
+   */
+  async start(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.route(req, res).catch((error) => {
+        if (error instanceof TransportAuthError) {
+          logger.warn(`Rejected HTTP session: ${error.message}`);
+          if (!res.headersSent) {
+            res.setHeader('WWW-Authenticate', 'Bearer realm="targetprocess", Basic realm="targetprocess"');
+            this.sendJsonRpcError(res, error.statusCode, -32001, error.message);
+          }
+          return;
+        }
+        logger.error('Unhandled HTTP transport error:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    if (this.options.sessionIdleTimeoutMs > 0) {
+      const interval = Math.min(this.options.sessionIdleTimeoutMs, 60000);
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(), interval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  /**
+   * Close every open session and stop accepting connections
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const sessions = Array.from(this.sessions.values());
+    await Promise.allSettled(sessions.map(session => this.closeSession(session)));
+
+    if (this.httpServer) {
+      const server = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Drop keep-alive sockets so close() doesn't wait for clients to hang up
+        server.closeAllConnections?.();
+      });
+    }
+  }
+
+  /**
+   * Get the address the host is listening on, with the port the system
+   * assigned when started on port 0
+   */
+  getAddress(): string {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Get the number of open sessions per transport kind
+   */
+  getSessionCounts(): { streamable: number; sse: number } {
+    let streamable = 0;
+    let sse = 0;
+    for (const session of this.sessions.values()) {
+      if (session.kind === 'streamable') streamable++;
+      else sse++;
+    }
+    return { streamable, sse };
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      this.sendJson(res, this.closing ? 503 : 200, {
+        status: this.closing ? 'shutting_down' : 'ok',
+        transport: 'http',
+        sessions: this.getSessionCounts(),
+        requestQueue: RequestThrottle.totalMetrics(),
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000)
+      });
+      return;
+    }
+
+    if (this.closing) {
+      this.sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    if (url.pathname === this.options.mcpPath) {
+      await this.handleStreamableRequest(req, res);
+      return;
+    }
+
+    if (url.pathname === LEGACY_SSE_PATH && req.method === 'GET') {
+      await this.handleSseConnect(req, res);
+      return;
+    }
+
+    if (url.pathname === LEGACY_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      return;
+    }
+
+    this.sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+  }
+
+  /**
+   * Handle a Streamable HTTP request (POST for messages, GET for the notification stream, DELETE to end)
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = this.getHeader(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (req.method === 'POST' && body === undefined) {
+      return; // readJsonBody already responded
+    }
+
+    if (sessionId) {
+      const session = this.findSession(req, sessionId, 'streamable');
+      if (!session) {
+        this.sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      session.lastActivity = Date.now();
+      await runWithLogScope(session.server, () =>
+        (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body)
+      );
+      return;
+    }
+
+    if (req.method !== 'POST' || !this.isInitializeMessage(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header or initialize request');
+      return;
+    }
+
+    const server = await this.createServer(req);
+    const credentials = credentialHash(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      allowedOrigins: this.options.allowedOrigins,
+      enableDnsRebindingProtection: !!this.options.allowedOrigins?.length,
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { id, kind: 'streamable', transport, server, lastActivity: Date.now(), credentials });
+        logger.info(`HTTP session opened: ${id} (${this.sessions.size} active)`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.info(`HTTP session closed: ${transport.sessionId} (${this.sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await runWithLogScope(server, () => transport.handleRequest(req, res, body));
+  }
+
+  /**
+   * Open a legacy SSE stream (protocol version 2024-11-05)
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const server = await this.createServer(req);
+    const transport = new SSEServerTransport(LEGACY_MESSAGES_PATH, res, {
+      allowedOrigins: this.options.allowedOrigins,
+      enableDnsRebindingProtection: !!this.options.allowedOrigins?.length
+    });
+    const id = transport.sessionId;
+
+    this.sessions.set(id, { id, kind: 'sse', transport, server, lastActivity: Date.now(), credentials: credentialHash(req) });
+    logger.info(`SSE session opened: ${id} (${this.sessions.size} active)`);
+
+    transport.onclose = () => {
+      if (this.sessions.delete(id)) {
+        logger.info(`SSE session closed: ${id} (${this.sessions.size} active)`);
+      }
+    };
+    res.on('close', () => {
+      const session = this.sessions.get(id);
+      if (session) {
+        this.closeSession(session).catch(error => logger.warn(`Failed to close SSE session ${id}:`, error));
+      }
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await server.connect(transport);
+  }
+
+  /**
+   * Deliver a client message to a legacy SSE session
+   */
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.findSession(req, sessionId, 'sse') : undefined;
+    if (!session) {
+      this.sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId ?? '(none)'}`);
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === undefined) {
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    await runWithLogScope(session.server, () =>
+      (session.transport as SSEServerTransport).handlePostMessage(req, res, body)
+    );
+  }
+
+  /**
+   * The session, when the request sends the credentials that opened it. A
+   * session id alone is not enough, and other credentials are answered as
+   * an unknown session so they don't learn that it exists.
+   */
+  private findSession(req: IncomingMessage, id: string, kind: HttpSession['kind']): HttpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.kind !== kind) {
+      return undefined;
+    }
+    if (!timingSafeEqual(session.credentials, credentialHash(req))) {
+      logger.warn(`Rejected a request for HTTP session ${id} with other credentials than the session's`);
+      return undefined;
+    }
+    return session;
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      // SSE sessions hold an open stream and are cleaned up when the client disconnects
+      if (session.kind === 'streamable' && session.lastActivity < cutoff) {
+        logger.info(`Closing idle HTTP session: ${session.id}`);
+        this.closeSession(session).catch(error => logger.warn(`Failed to close idle session ${session.id}:`, error));
+      }
+    }
+  }
+
+  private async closeSession(session: HttpSession): Promise<void> {
+    this.sessions.delete(session.id);
+    // Closing the server also closes its transport
+    await session.server.close();
+  }
+
+  private isInitializeMessage(body: unknown): boolean {
+    if (Array.isArray(body)) {
+      return body.some(message => isInitializeRequest(message));
+    }
+    return isInitializeRequest(body);
+  }
+
+  /**
+   * Read and parse a JSON request body. Responds with an error and returns undefined on failure.
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodyBytes) {
+        this.sendJsonRpcError(res, 413, -32600, `Request body exceeds ${this.options.maxBodyBytes} bytes`);
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return undefined;
+    }
+  }
+
+  private getHeader(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, {
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    });
+  }
+}
@@ -3,10 +3,34 @@
  * 
  * Ensures all logging goes to stderr to avoid breaking JSON-RPC protocol on stdio.
  * Claude Desktop and other MCP clients expect pure JSON-RPC on stdout.
+ * Secrets are redacted before anything is written or handed to log sinks.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { redactText, redactValue } from './redact.js';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  args: unknown[];
+  /** Scope active when the record was written, see runWithLogScope */
+  scope?: object;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+const logScope = new AsyncLocalStorage<object>();
+
+/**
+ * Run a function with a log scope so records it writes, including from async
+ * work it starts, can be attributed to one MCP session
+ */
+export function runWithLogScope<T>(scope: object, fn: () => T): T {
+  return logScope.run(scope, fn);
+}
+
 export interface Logger {
   debug(message: string, ...args: any[]): void;
   info(message: string, ...args: any[]): void;
@@ -16,6 +40,7 @@ export interface Logger {
 
 class StrictMCPLogger implements Logger {
   private isStrictMode: boolean;
+  private readonly sinks = new Set<LogSink>();
 
   constructor() {
     // Enable strict mode via environment variable or auto-detect MCP server mode
@@ -28,7 +53,19 @@ class StrictMCPLogger implements Logger {
     }
   }
 
-  private log(level: LogLevel, message: string, ...args: any[]): void {
+  /**
+   * Receive every record in addition to stderr. Returns a function that removes the sink.
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  private log(level: LogLevel, rawMessage: string, ...rawArgs: any[]): void {
+    const message = redactText(rawMessage);
+    const args = rawArgs.map(arg => redactValue(arg));
     const timestamp = new Date().toISOString();
     const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
     
@@ -55,6 +92,17 @@ class StrictMCPLogger implements Logger {
           break;
       }
     }
+
+    if (this.sinks.size > 0) {
+      const record: LogRecord = { level, message, args, scope: logScope.getStore() };
+      for (const sink of this.sinks) {
+        try {
+          sink(record);
+        } catch {
+          // A failing sink must never break the caller
+        }
+      }
+    }
   }
 
   debug(message: string, ...args: any[]): void {
@@ -0,0 +1,94 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { logger, LogLevel, LogRecord } from './logger.js';
+
+// MCP (syslog) severities, least to most severe
+const MCP_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const LEVEL_MAP: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+export interface LogForwarderOptions {
+  /**
+   * Only forward records written while handling this server's requests.
+   * Used for HTTP sessions so one user never sees another user's logs.
+   */
+  isolated: boolean;
+  /** Minimum level sent until the client calls logging/setLevel */
+  defaultLevel?: LoggingLevel;
+}
+
+/**
+ * Forwards server log records to an MCP client as notifications/message.
+ *
+ * Records are already redacted by the logger. Forwarding starts once the client
+ * has initialized and honors the level requested with logging/setLevel.
+ */
+export class McpLogForwarder {
+  private level: LoggingLevel;
+  private ready = false;
+  private sending = false;
+  private readonly removeSink: () => void;
+
+  constructor(
+    private readonly server: Server,
+    private readonly options: LogForwarderOptions
+  ) {
+    this.level = options.defaultLevel ?? 'info';
+    this.removeSink = logger.addSink(record => this.forward(record));
+  }
+
+  /**
+   * Start sending once the client has finished initialization
+   */
+  start(): void {
+    this.ready = true;
+  }
+
+  setLevel(level: LoggingLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LoggingLevel {
+    return this.level;
+  }
+
+  close(): void {
+    this.ready = false;
+    this.removeSink();
+  }
+
+  private forward(record: LogRecord): void {
+    // Skip records logged while sending, e.g. transport errors, to avoid loops
+    if (!this.ready || this.sending) {
+      return;
+    }
+    if (this.options.isolated && record.scope !== this.server) {
+      return;
+    }
+
+    const level = LEVEL_MAP[record.level];
+    if (MCP_LEVELS.indexOf(level) < MCP_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    this.sending = true;
+    try {
+      this.server
+        .sendLoggingMessage({
+          level,
+          logger: 'targetprocess-mcp',
+          data: record.args.length > 0 ? { message: record.message, details: record.args } : record.message
+        })
+        .catch(() => {
+          // The client may have disconnected; stderr still has the record
+        });
+    } finally {
+      this.sending = false;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Secret redaction for log output
+ *
+ * HttpClient authenticates with an `Authorization: Basic ...` or `Bearer ...`
+ * header or an `access_token` query parameter, and OAuth token requests carry
+ * client secrets and refresh tokens; all of these can end up in URLs, error
+ * messages and logged objects. Everything the logger writes or forwards to MCP clients
+ * passes through here first.
+ */
+
+const REDACTED = '[REDACTED]';
+
+// Object keys whose values are always secrets
+const SENSITIVE_KEY = /^(authorization|password|passwd|secret|client_secret|token|access_?token|refresh_?token|api[-_]?key|x-tp-api-key|cookie|set-cookie|credentials)$/i;
+
+const TEXT_PATTERNS: Array<[RegExp, string]> = [
+  // access_token=... in URLs, query strings and form bodies
+  [/\b(access_token|refresh_token|client_secret|token|api[-_]?key)=[^&\s"',)]+/gi, `$1=${REDACTED}`],
+  // Token fields of JSON bodies, e.g. an OAuth token response
+  [/("(?:access_token|refresh_token|client_secret|accessToken|refreshToken)"\s*:\s*")[^"]*"/g, `$1${REDACTED}"`],
+  // Authorization header values, with or without a header name in front
+  [/\b(Basic|Bearer)\s+[A-Za-z0-9+/=._~-]{6,}/g, `$1 ${REDACTED}`],
+  // API key header written out as "X-TP-Api-Key: value"
+  [/\b(X-TP-Api-Key["']?\s*[:=]\s*["']?)[^\s"',}]+/gi, `$1${REDACTED}`]
+];
+
+/**
+ * Mask tokens and credentials in free text
+ */
+export function redactText(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of TEXT_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+/**
+ * Deep-copy a value with secrets masked. Errors become plain objects so they
+ * survive JSON serialization.
+ */
+export function redactValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth > 6) {
+    return '[Object]';
+  }
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {})
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactValue(item, depth + 1);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ErrorCode,
+  McpError,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestControl } from '../core/interfaces/semantic-operation.interface.js';
+import { logger } from './logger.js';
+
+// Keep large downloads from flooding the client with notifications
+const MIN_PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Build request controls from the MCP handler extra: the abort signal for
+ * notifications/cancelled and a progress reporter bound to the request's progress token.
+ */
+export function createRequestControl(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): RequestControl {
+  const progressToken = extra._meta?.progressToken;
+  let lastSent = 0;
+
+  return {
+    signal: extra.signal,
+    async reportProgress(progress: number, total?: number, message?: string): Promise<void> {
+      if (progressToken === undefined || extra.signal.aborted) {
+        return;
+      }
+
+      const now = Date.now();
+      const isFinal = total !== undefined && progress >= total;
+      if (!isFinal && now - lastSent < MIN_PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastSent = now;
+
+      try {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message }
+        });
+      } catch (error) {
+        // Progress is best-effort; never fail the request over it
+        logger.debug('Failed to send progress notification:', error);
+      }
+    }
+  };
+}
+
+/**
+ * Throw if the client has cancelled the request
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+}
+
+export function createCancelledError(): McpError {
+  return new McpError(ErrorCode.InvalidRequest, 'Request cancelled by the client');
+}